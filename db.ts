@@ -4,6 +4,11 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { promisify } from 'util';
 import { EventEmitter } from 'events';
+import { validateLocation, ValidationError } from './src/utils/locationSchema.js';
+import { geometryContainsPoint } from './src/utils/geometry.js';
+import { hasPointEntries, planPointChanges } from './src/utils/locationPoints.js';
+import { DEFAULT_LAYER_ID } from './src/utils/mapLayers.js';
+import { MAP_CHANGES_CHANNEL } from './src/utils/mapEvents.js';
 
 // Create event emitter for database notifications
 const dbEvents = new EventEmitter();
@@ -151,21 +156,77 @@ export async function setupListener(channel: string, callback: (payload: string)
 }
 
 /**
- * Get locations by category path
+ * Get all published locations
+ * Hidden and archived locations are only visible through the admin API.
+ * @param layerId - Only return locations on this map layer; all layers without it
+ * @returns Array of every published location
+ */
+export async function getAllLocations(layerId?: string | null): Promise<any[]> {
+  try {
+    if (layerId) {
+      return await query(
+        `SELECT * FROM "Location" WHERE "status" = 'published' AND "layerId" = $1 ORDER BY "name" ASC`,
+        [layerId]
+      );
+    }
+    return await query(`SELECT * FROM "Location" WHERE "status" = 'published' ORDER BY "name" ASC`);
+  } catch (error) {
+    console.error('Error getting all locations:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get a single location by ID
+ * @param id - The location ID
+ * @returns The location or null if not found
+ */
+export async function getLocationById(id: string): Promise<any> {
+  try {
+    return await queryOne(`SELECT * FROM "Location" WHERE id = $1`, [id]);
+  } catch (error) {
+    console.error('Error getting location by ID:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get published locations by category path
  * @param categoryPath - The category path to filter by (e.g., '/Fable/Quests')
+ * @param page - Optional page number (0-based), used together with limit
+ * @param limit - Optional page size; all matching locations are returned without it
+ * @param layerId - Only return locations on this map layer; all layers without it
  * @returns Array of locations in the category
  */
-export async function getLocationsByCategory(categoryPath: string): Promise<any[]> {
+export async function getLocationsByCategory(
+  categoryPath: string,
+  page?: number,
+  limit?: number,
+  layerId?: string | null
+): Promise<any[]> {
   try {
     // Normalize the category path to ensure it has a leading slash
     const normalizedPath = categoryPath.startsWith('/') ? categoryPath : `/${categoryPath}`;
+    const params: any[] = [normalizedPath, `${normalizedPath}/%`];
     
-    // Find locations where:
+    let layerCondition = '';
+    if (layerId) {
+      params.push(layerId);
+      layerCondition = `AND "layerId" = $${params.length}`;
+    }
+    
+    let pagination = '';
+    if (limit) {
+      params.push(limit, (page ?? 0) * limit);
+      pagination = `ORDER BY "name" ASC, id ASC LIMIT $${params.length - 1} OFFSET $${params.length}`;
+    }
+    
+    // Find published locations where:
     // 1. Type exactly matches the category path, OR
     // 2. Type starts with the category path followed by a slash (subcategories)
     const result = await query(
-      `SELECT * FROM "Location" WHERE type = $1 OR type LIKE $2`,
-      [normalizedPath, `${normalizedPath}/%`]
+      `SELECT * FROM "Location" WHERE "status" = 'published' AND (type = $1 OR type LIKE $2) ${layerCondition} ${pagination}`,
+      params
     );
     
     return result;
@@ -175,11 +236,342 @@ export async function getLocationsByCategory(categoryPath: string): Promise<any[
   }
 }
 
+/**
+ * Count published locations in a category path (including subcategories)
+ * @param categoryPath - The category path to count
+ * @param layerId - Only count locations on this map layer; all layers without it
+ * @returns Number of matching locations
+ */
+export async function countLocationsByCategory(categoryPath: string, layerId?: string | null): Promise<number> {
+  try {
+    const normalizedPath = categoryPath.startsWith('/') ? categoryPath : `/${categoryPath}`;
+    const row = await queryOne(
+      `SELECT COUNT(*)::int AS "count" FROM "Location"
+       WHERE "status" = 'published' AND (type = $1 OR type LIKE $2)
+         AND ($3::text IS NULL OR "layerId" = $3)`,
+      [normalizedPath, `${normalizedPath}/%`, layerId ?? null]
+    );
+    return row.count;
+  } catch (error) {
+    console.error('Error counting locations by category:', error);
+    throw error;
+  }
+}
+
+/**
+ * Viewport rectangle in map coordinates
+ */
+export interface BoundingBox {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/**
+ * Get published locations whose bounding box intersects a viewport
+ * @param bounds - The viewport to search, or null for the whole map
+ * @param categories - Optional category paths; subcategories are included
+ * @param layerId - Only return locations on this map layer; all layers without it
+ * @returns Array of locations inside the viewport
+ */
+export async function getLocationsInBounds(
+  bounds: BoundingBox | null,
+  categories: string[] = [],
+  layerId?: string | null
+): Promise<any[]> {
+  try {
+    const conditions: string[] = [`"status" = 'published'`];
+    const params: any[] = [];
+
+    // Rectangles intersect unless one lies entirely to the side of the other
+    if (bounds) {
+      params.push(bounds.minX, bounds.minY, bounds.maxX, bounds.maxY);
+      conditions.push(`"maxX" >= $1`, `"maxY" >= $2`, `"minX" <= $3`, `"minY" <= $4`);
+    }
+
+    if (categories.length > 0) {
+      const categoryConditions = categories.map(categoryPath => {
+        const normalizedPath = categoryPath.startsWith('/') ? categoryPath : `/${categoryPath}`;
+        params.push(normalizedPath, `${normalizedPath}/%`);
+        return `(type = $${params.length - 1} OR type LIKE $${params.length})`;
+      });
+      conditions.push(`(${categoryConditions.join(' OR ')})`);
+    }
+
+    if (layerId) {
+      params.push(layerId);
+      conditions.push(`"layerId" = $${params.length}`);
+    }
+
+    return await query(`SELECT * FROM "Location" WHERE ${conditions.join(' AND ')}`, params);
+  } catch (error) {
+    console.error('Error getting locations in bounds:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get published locations whose area contains a point
+ * Polygons match points inside them (and outside their holes); points and lines match
+ * within their radius or the tolerance, whichever is larger.
+ * @param x - Map x coordinate
+ * @param y - Map y coordinate
+ * @param tolerance - Extra distance for points and lines, in map units
+ * @param layerId - Only return locations on this map layer; all layers without it
+ * @returns Array of matching locations
+ */
+export async function getLocationsContainingPoint(
+  x: number,
+  y: number,
+  tolerance = 0,
+  layerId?: string | null
+): Promise<any[]> {
+  try {
+    // The bounding box doesn't include the radius, so widen it before the exact check
+    const candidates = await query(
+      `SELECT * FROM "Location"
+       WHERE "status" = 'published'
+         AND "minX" - GREATEST(COALESCE("radius", 0), $3) <= $1
+         AND "maxX" + GREATEST(COALESCE("radius", 0), $3) >= $1
+         AND "minY" - GREATEST(COALESCE("radius", 0), $3) <= $2
+         AND "maxY" + GREATEST(COALESCE("radius", 0), $3) >= $2
+         AND ($4::text IS NULL OR "layerId" = $4)`,
+      [x, y, tolerance, layerId ?? null]
+    );
+    return candidates.filter((location: any) => geometryContainsPoint(location, [x, y], { tolerance }));
+  } catch (error) {
+    console.error('Error getting locations containing point:', error);
+    throw error;
+  }
+}
+
+/**
+ * Latest position in the change feed, as seen by the current snapshot
+ * Positions are numbered in commit order, so nothing can later commit below it.
+ */
+const LOCATION_CURSOR_SQL = `SELECT COALESCE(GREATEST(
+  (SELECT MAX("changeSeq") FROM "Location"),
+  (SELECT MAX("changeSeq") FROM "LocationTombstone")
+), 0) AS "cursor"`;
+
+/**
+ * Changes to locations since a change feed position
+ */
+export interface LocationChanges {
+  locations: any[];
+  deletedIds: string[];
+  cursor: number;
+}
+
+/**
+ * Get locations changed and deleted after a position in the change feed
+ * Both lists are read from one snapshot so the returned cursor covers exactly what was returned.
+ * Changes are numbered when their transaction commits, in commit order, so a transaction still
+ * in flight can't later commit a change below the cursor.
+ * @param since - Change sequence the client last synced to, or null for everything
+ * @returns Changed locations, deleted location IDs and the latest change sequence
+ */
+export async function getLocationChanges(since: number | null): Promise<LocationChanges> {
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY');
+
+    const from = since ?? 0;
+    const locations = await client.query(
+      `SELECT * FROM "Location" WHERE "changeSeq" > $1 ORDER BY "changeSeq" ASC`,
+      [from]
+    );
+    const tombstones = since === null
+      ? { rows: [] }
+      : await client.query(
+        `SELECT "id", "changeSeq" FROM "LocationTombstone" WHERE "changeSeq" > $1 ORDER BY "changeSeq" ASC`,
+        [from]
+      );
+    const latest = await client.query(LOCATION_CURSOR_SQL);
+
+    await client.query('COMMIT');
+
+    return {
+      locations: locations.rows,
+      deletedIds: tombstones.rows.map((row: any) => row.id),
+      cursor: latest.rows[0].cursor
+    };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error getting location changes:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Options for searching locations
+ */
+export interface LocationSearchOptions {
+  query: string;
+  category?: string | null;
+  excludeCategories?: string[];
+  includeSpoilers?: boolean;
+  layerId?: string | null;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Turn free text into a prefix-matching tsquery, e.g. "old tower" -> "old:* & tower:*"
+ * Only letters and digits are kept so user input can't produce tsquery syntax errors.
+ */
+function toPrefixTsQuery(text: string): string {
+  const words = text.match(/[\p{L}\p{N}]+/gu) || [];
+  return words.map(word => `${word}:*`).join(' & ');
+}
+
+/**
+ * SQL expression HTML-escaping a text expression
+ * Highlights are built from escaped text, so the only markup in them is the <mark> tags
+ * ts_headline adds. Entities are single tokens to the text search parser, so matching is
+ * unaffected.
+ */
+function escapeHtmlSql(expression: string): string {
+  return `replace(replace(replace(replace(replace(${expression}, '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), '"', '&quot;'), '''', '&#39;')`;
+}
+
+/**
+ * Search published locations by name, description and lore (and optionally spoilers)
+ * Combines ranked full-text matching with trigram similarity on the name, so typos
+ * still find the location. Hidden and archived locations are never returned.
+ * @param options - Search text, category to search in or leave out, spoiler opt-in and paging
+ * @returns Matching locations with a rank and highlighted snippets, best match first. The
+ * snippets in `highlights` are escaped HTML with matches wrapped in <mark> tags.
+ */
+export async function searchLocations(options: LocationSearchOptions): Promise<any[]> {
+  const {
+    query: text,
+    category = null,
+    excludeCategories = [],
+    includeSpoilers = false,
+    layerId = null,
+    limit = 50,
+    offset = 0
+  } = options;
+
+  try {
+    const tsQuery = toPrefixTsQuery(text);
+    const params: any[] = [tsQuery, text, includeSpoilers];
+    const conditions = [`"status" = 'published'`];
+
+    // Same matching as getLocationsByCategory: the path itself or any subcategory
+    if (category) {
+      const normalizedPath = category.startsWith('/') ? category : `/${category}`;
+      params.push(normalizedPath, `${normalizedPath}/%`);
+      conditions.push(`(type = $${params.length - 1} OR type LIKE $${params.length})`);
+    }
+
+    excludeCategories.forEach(excludedPath => {
+      params.push(excludedPath, `${excludedPath}/%`);
+      conditions.push(`NOT (type = $${params.length - 1} OR type LIKE $${params.length})`);
+    });
+
+    if (layerId) {
+      params.push(layerId);
+      conditions.push(`"layerId" = $${params.length}`);
+    }
+
+    params.push(limit, offset);
+
+    // Snippets are only built for the page being returned, ts_headline is expensive
+    return await query(
+      `WITH q AS (
+        SELECT CASE WHEN $1 = '' THEN NULL ELSE to_tsquery('english', $1) END AS ts
+      ),
+      matches AS (
+        SELECT l.*,
+          COALESCE(ts_rank_cd(location_search_vector(l.name, l.description, l.lore), q.ts), 0)
+            + CASE WHEN $3 THEN COALESCE(ts_rank_cd(location_spoiler_vector(l.spoilers), q.ts), 0) ELSE 0 END
+            + word_similarity($2, l.name) AS "rank"
+        FROM "Location" l, q
+        WHERE ${conditions.join(' AND ')}
+          AND (
+            location_search_vector(l.name, l.description, l.lore) @@ q.ts
+            OR ($3 AND location_spoiler_vector(l.spoilers) @@ q.ts)
+            OR $2 <% l.name
+          )
+        ORDER BY "rank" DESC, l.name ASC
+        LIMIT $${params.length - 1} OFFSET $${params.length}
+      )
+      SELECT m.*,
+        json_build_object(
+          'name', ts_headline('english', ${escapeHtmlSql('m.name')}, q.ts, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+          'description', ts_headline('english', ${escapeHtmlSql('m.description')}, q.ts, 'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=25, MinWords=8'),
+          'lore', ts_headline('english', ${escapeHtmlSql("COALESCE(m.lore, '')")}, q.ts, 'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=25, MinWords=8'),
+          'spoilers', CASE WHEN $3
+            THEN ts_headline('english', ${escapeHtmlSql("COALESCE(m.spoilers, '')")}, q.ts, 'StartSel=<mark>, StopSel=</mark>, MaxFragments=1, MaxWords=25, MinWords=8')
+            ELSE NULL END
+        ) AS "highlights"
+      FROM matches m, q
+      ORDER BY m."rank" DESC, m.name ASC`,
+      params
+    );
+  } catch (error) {
+    console.error('Error searching locations:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the current location data version
+ * The change feed cursor, so it moves on every committed insert, update and delete - also
+ * when a transaction that started earlier commits after a later one.
+ * @returns The version number (0 for an empty table)
+ */
+export async function getLocationDataVersion(): Promise<number> {
+  try {
+    const row = await queryOne(LOCATION_CURSOR_SQL);
+    return row.cursor;
+  } catch (error) {
+    console.error('Error getting location data version:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get all map layers
+ * @returns Array of map layers in display order
+ */
+export async function getMapLayers(): Promise<any[]> {
+  try {
+    return await query(`SELECT * FROM "MapLayer" ORDER BY "sortOrder" ASC, "name" ASC`);
+  } catch (error) {
+    console.error('Error getting map layers:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get a single map layer by ID
+ * @param id - The layer ID, e.g. "surface"
+ * @returns The layer or null if not found
+ */
+export async function getMapLayer(id: string): Promise<any> {
+  try {
+    return await queryOne(`SELECT * FROM "MapLayer" WHERE id = $1`, [id]);
+  } catch (error) {
+    console.error('Error getting map layer:', error);
+    throw error;
+  }
+}
+
 /**
  * Get category defaults
+ * Defaults without a layer apply to every layer. When reading for a layer, its own row
+ * for a path replaces the shared one.
+ * @param layerId - Resolve the defaults that apply to this map layer; every row without it
  * @returns Array of category defaults
  */
-export async function getCategoryDefaults(): Promise<any[]> {
+export async function getCategoryDefaults(layerId?: string | null): Promise<any[]> {
   try {
     // Check if table exists first to avoid errors
     const tableExists = await queryOne(
@@ -195,6 +587,18 @@ export async function getCategoryDefaults(): Promise<any[]> {
       return [];
     }
     
+    if (layerId) {
+      return await query(
+        `SELECT * FROM (
+          SELECT DISTINCT ON (path) * FROM "CategoryDefaults"
+          WHERE "layerId" IS NULL OR "layerId" = $1
+          ORDER BY path, "layerId" NULLS LAST
+        ) d
+        ORDER BY "sortOrder" ASC`,
+        [layerId]
+      );
+    }
+    
     // Get all category defaults
     return await query(
       `SELECT * FROM "CategoryDefaults" ORDER BY "sortOrder" ASC`
@@ -207,6 +611,7 @@ export async function getCategoryDefaults(): Promise<any[]> {
 
 /**
  * Save or update a category default
+ * Rows are keyed by path and `layerId` (null or missing for defaults shared by every layer).
  * @param categoryDefault - The category default to save/update
  * @returns The saved category default
  */
@@ -235,23 +640,31 @@ export async function saveCategoryDefault(categoryDefault: any): Promise<any> {
       await client.query(`
         CREATE TABLE IF NOT EXISTS "CategoryDefaults" (
           "id" TEXT PRIMARY KEY DEFAULT gen_random_uuid(),
-          "path" TEXT UNIQUE NOT NULL,
+          "path" TEXT NOT NULL,
           "visible" BOOLEAN NOT NULL DEFAULT true,
           "expanded" BOOLEAN NOT NULL DEFAULT true,
           "displayName" TEXT,
           "iconPath" TEXT,
           "sortOrder" INTEGER NOT NULL DEFAULT 0,
+          "spoiler" BOOLEAN NOT NULL DEFAULT false,
+          "layerId" TEXT,
           "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
           "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
         )
       `);
+      await client.query(`
+        CREATE UNIQUE INDEX IF NOT EXISTS "CategoryDefaults_path_layerId_key"
+          ON "CategoryDefaults"("path", COALESCE("layerId", ''))
+      `);
       console.log('Created CategoryDefaults table');
     }
     
+    const layerId = categoryDefault.layerId ?? null;
+    
     // Check if the record already exists
     const existingRecord = await client.query(
-      `SELECT * FROM "CategoryDefaults" WHERE path = $1`,
-      [categoryDefault.path]
+      `SELECT * FROM "CategoryDefaults" WHERE path = $1 AND "layerId" IS NOT DISTINCT FROM $2`,
+      [categoryDefault.path, layerId]
     );
     
     let result;
@@ -265,8 +678,9 @@ export async function saveCategoryDefault(categoryDefault: any): Promise<any> {
           "displayName" = $4,
           "iconPath" = $5,
           "sortOrder" = $6,
+          "spoiler" = COALESCE($7, "spoiler"),
           "updatedAt" = CURRENT_TIMESTAMP
-          WHERE path = $1
+          WHERE id = $8
           RETURNING *`,
         [
           categoryDefault.path,
@@ -274,15 +688,18 @@ export async function saveCategoryDefault(categoryDefault: any): Promise<any> {
           categoryDefault.expanded !== undefined ? categoryDefault.expanded : true,
           categoryDefault.displayName,
           categoryDefault.iconPath,
-          categoryDefault.sortOrder !== undefined ? categoryDefault.sortOrder : 0
+          categoryDefault.sortOrder !== undefined ? categoryDefault.sortOrder : 0,
+          // Older clients don't send the spoiler flag, keep the stored value for them
+          categoryDefault.spoiler !== undefined ? Boolean(categoryDefault.spoiler) : null,
+          existingRecord.rows[0].id
         ]
       );
     } else {
       // Insert new record
       result = await client.query(
         `INSERT INTO "CategoryDefaults" (
-          "path", "visible", "expanded", "displayName", "iconPath", "sortOrder"
-        ) VALUES ($1, $2, $3, $4, $5, $6)
+          "path", "visible", "expanded", "displayName", "iconPath", "sortOrder", "spoiler", "layerId"
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
         RETURNING *`,
         [
           categoryDefault.path,
@@ -290,7 +707,9 @@ export async function saveCategoryDefault(categoryDefault: any): Promise<any> {
           categoryDefault.expanded !== undefined ? categoryDefault.expanded : true,
           categoryDefault.displayName,
           categoryDefault.iconPath,
-          categoryDefault.sortOrder !== undefined ? categoryDefault.sortOrder : 0
+          categoryDefault.sortOrder !== undefined ? categoryDefault.sortOrder : 0,
+          Boolean(categoryDefault.spoiler),
+          layerId
         ]
       );
     }
@@ -307,11 +726,27 @@ export async function saveCategoryDefault(categoryDefault: any): Promise<any> {
   }
 }
 
+/**
+ * Get the category paths marked as spoilers
+ * A path marked on any layer is a spoiler everywhere, like spoiler text on a location.
+ * @returns Array of category paths
+ */
+export async function getSpoilerCategoryPaths(): Promise<string[]> {
+  try {
+    const rows = await query(`SELECT DISTINCT path FROM "CategoryDefaults" WHERE "spoiler" = true ORDER BY path ASC`);
+    return rows.map((row: any) => row.path);
+  } catch (error) {
+    console.error('Error getting spoiler categories:', error);
+    throw error;
+  }
+}
+
 /**
  * Delete a category default
  * @param path - The path of the category default to delete
+ * @param layerId - The layer of the default to delete; the shared default without it
  */
-export async function deleteCategoryDefault(path: string): Promise<void> {
+export async function deleteCategoryDefault(path: string, layerId?: string | null): Promise<void> {
   try {
     // Normalize path
     if (path && !path.startsWith('/')) {
@@ -334,8 +769,8 @@ export async function deleteCategoryDefault(path: string): Promise<void> {
     
     // Delete the category default
     await query(
-      `DELETE FROM "CategoryDefaults" WHERE path = $1`,
-      [path]
+      `DELETE FROM "CategoryDefaults" WHERE path = $1 AND "layerId" IS NOT DISTINCT FROM $2`,
+      [path, layerId ?? null]
     );
   } catch (error) {
     console.error('Error deleting category default:', error);
@@ -343,12 +778,198 @@ export async function deleteCategoryDefault(path: string): Promise<void> {
   }
 }
 
+/**
+ * Error raised when a category can't be renamed as requested
+ * `code` is "invalid" for bad paths and "conflict" when the target path is already in use.
+ */
+export class CategoryRenameError extends Error {
+  code: 'invalid' | 'conflict';
+
+  constructor(message: string, code: 'invalid' | 'conflict') {
+    super(message);
+    this.name = 'CategoryRenameError';
+    this.code = code;
+  }
+}
+
+/**
+ * Options for renaming a category
+ */
+export interface CategoryRenameOptions {
+  merge?: boolean;
+  dryRun?: boolean;
+}
+
+/**
+ * Outcome of a category rename (or what it would do, for dry runs)
+ */
+export interface CategoryRenameResult {
+  from: string;
+  to: string;
+  dryRun: boolean;
+  locations: number;
+  unpublishedLocations: number;
+  categoryDefaults: number;
+  droppedCategoryDefaults: string[];
+  conflicts: { locations: number; categoryDefaults: string[] };
+}
+
+// Leading slash, no trailing slash, no empty segments
+function normalizeCategoryPath(categoryPath: string): string {
+  return '/' + String(categoryPath).split('/').map(segment => segment.trim()).filter(Boolean).join('/');
+}
+
+/**
+ * Rename or move a category subtree in one transaction
+ * Rewrites Location.type for the category and its subcategories (whatever their status)
+ * and re-keys the matching CategoryDefaults rows. Clients get a single
+ * categories.renamed event instead of one notification per row.
+ * Moving onto a path that is already in use is refused unless `merge` is set; when
+ * merging, defaults already set on the target paths win over the moved ones.
+ * @param from - Current category path, e.g. "/Fable/Quests"
+ * @param to - New category path
+ * @param options - merge into an existing path, dryRun to only count what would change
+ * @param actor - The acting user, recorded in each location's revision history
+ */
+export async function renameCategory(
+  from: string,
+  to: string,
+  options: CategoryRenameOptions = {},
+  actor?: RevisionActor | null
+): Promise<CategoryRenameResult> {
+  const { merge = false, dryRun = false } = options;
+  const source = normalizeCategoryPath(from);
+  const target = normalizeCategoryPath(to);
+
+  if (source === '/' || target === '/') {
+    throw new CategoryRenameError('Category paths must not be empty', 'invalid');
+  }
+  if (source === target) {
+    throw new CategoryRenameError('The new path is the same as the current one', 'invalid');
+  }
+  if (target.startsWith(`${source}/`)) {
+    throw new CategoryRenameError('A category cannot be moved into its own subcategory', 'invalid');
+  }
+
+  const inSubtree = (categoryPath: string, root: string) =>
+    categoryPath === root || categoryPath.startsWith(`${root}/`);
+  const renamePath = (categoryPath: string) => target + categoryPath.slice(source.length);
+
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+    await client.query(`SELECT set_config('soulmap.suppress_notify', 'on', true)`);
+
+    // Rows in a category or its subcategories. Location types may be stored without their
+    // leading slash, and a prefix comparison keeps "_" and "%" in names from matching anything.
+    const inSubtreeSql = (column: string, param: number) =>
+      `(${column} = $${param} OR left(${column}, length($${param}) + 1) = $${param} || '/')`;
+    const locationPath = `'/' || ltrim(type, '/')`;
+
+    const locations = await client.query(
+      `SELECT * FROM "Location" WHERE ${inSubtreeSql(locationPath, 1)} FOR UPDATE`,
+      [source]
+    );
+    const targetLocations = await client.query(
+      `SELECT COUNT(*)::int AS "count" FROM "Location"
+       WHERE ${inSubtreeSql(locationPath, 1)} AND NOT ${inSubtreeSql(locationPath, 2)}`,
+      [target, source]
+    );
+
+    const defaults = await client.query(
+      `SELECT * FROM "CategoryDefaults" WHERE ${inSubtreeSql('path', 1)} FOR UPDATE`,
+      [source]
+    );
+    const targetDefaults = await client.query(
+      `SELECT path, "layerId" FROM "CategoryDefaults" WHERE path = ANY($1::text[])`,
+      [defaults.rows.map((row: any) => renamePath(row.path))]
+    );
+
+    // Defaults are unique per path and layer, so only a row on the same layer is in the way
+    const defaultKey = (categoryPath: string, layerId: string | null) => `${layerId ?? ''}:${categoryPath}`;
+    const takenKeys = new Set<string>(
+      targetDefaults.rows
+        .filter((row: any) => !inSubtree(row.path, source))
+        .map((row: any) => defaultKey(row.path, row.layerId))
+    );
+    const isTaken = (row: any) => takenKeys.has(defaultKey(renamePath(row.path), row.layerId));
+    const takenPaths = [...new Set<string>(defaults.rows.filter(isTaken).map((row: any) => renamePath(row.path)))];
+
+    const result: CategoryRenameResult = {
+      from: source,
+      to: target,
+      dryRun,
+      locations: locations.rows.length,
+      unpublishedLocations: locations.rows.filter((row: any) => row.status !== 'published').length,
+      categoryDefaults: defaults.rows.filter((row: any) => !isTaken(row)).length,
+      droppedCategoryDefaults: merge ? takenPaths : [],
+      conflicts: { locations: targetLocations.rows[0].count, categoryDefaults: takenPaths }
+    };
+
+    const hasConflicts = result.conflicts.locations > 0 || result.conflicts.categoryDefaults.length > 0;
+    if (hasConflicts && !merge && !dryRun) {
+      throw new CategoryRenameError(`${target} is already in use, pass merge to move into it`, 'conflict');
+    }
+
+    if (dryRun) {
+      await client.query('ROLLBACK');
+      return result;
+    }
+
+    for (const location of locations.rows) {
+      const updated = await client.query(
+        `UPDATE "Location" SET type = $2, "lastModified" = CURRENT_TIMESTAMP WHERE id = $1 RETURNING *`,
+        [location.id, renamePath(normalizeCategoryPath(location.type))]
+      );
+      await recordLocationRevision(client, location.id, 'update', location, updated.rows[0], actor);
+    }
+
+    // Parents first: when moving up a level, a renamed path may still be held by its parent
+    const sortedDefaults = [...defaults.rows].sort((a: any, b: any) => a.path.length - b.path.length);
+    for (const categoryDefault of sortedDefaults) {
+      const newPath = renamePath(categoryDefault.path);
+      if (isTaken(categoryDefault)) {
+        await client.query(`DELETE FROM "CategoryDefaults" WHERE id = $1`, [categoryDefault.id]);
+      } else {
+        await client.query(
+          `UPDATE "CategoryDefaults" SET path = $2, "updatedAt" = CURRENT_TIMESTAMP WHERE id = $1`,
+          [categoryDefault.id, newPath]
+        );
+      }
+    }
+
+    const payload = JSON.stringify({
+      event: 'categories.renamed',
+      table: null,
+      data: {
+        from: source,
+        to: target,
+        locations: result.locations,
+        categoryDefaults: result.categoryDefaults
+      }
+    });
+    await client.query(`SELECT pg_notify($1, $2)`, [MAP_CHANGES_CHANNEL, payload]);
+
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    if (!(error instanceof CategoryRenameError)) {
+      console.error('Error renaming category:', error);
+    }
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
 /**
  * Helper function to normalize coordinates format
  * @param coordinates - The coordinates to normalize
  * @returns Normalized coordinates
  */
-export function normalizeCoordinates(coordinates: any): number[] | number[][] {
+export function normalizeCoordinates(coordinates: any): number[] | number[][] | any[] {
   // Log coordinates for debugging
   console.log('Normalizing coordinates:', JSON.stringify(coordinates));
   
@@ -371,6 +992,12 @@ export function normalizeCoordinates(coordinates: any): number[] | number[][] {
       console.log('Multiple coordinates array, returning as is');
       return coordinates;
     }
+
+    // Points with their own properties [{ coordinates: [x,y], ... }, ...]
+    if (coordinates.length > 0 && coordinates.every(entry => Array.isArray(entry?.coordinates))) {
+      console.log('Complex coordinates array, returning as is');
+      return coordinates;
+    }
   }
   
   // Try to convert from string or other format
@@ -388,26 +1015,158 @@ export function normalizeCoordinates(coordinates: any): number[] | number[][] {
   return [0, 0];
 }
 
+/**
+ * User responsible for a location change
+ */
+export interface RevisionActor {
+  id?: string | null;
+  username?: string | null;
+}
+
+/**
+ * Record a location revision using an open transaction client
+ * @param client - Client with an open transaction
+ * @param locationId - ID of the changed location
+ * @param action - "create", "update", "delete" or "restore"
+ * @param before - Row before the change (null on create)
+ * @param after - Row after the change (null on delete)
+ * @param actor - The acting user, usually req.user
+ */
+export async function recordLocationRevision(
+  client: PoolClient,
+  locationId: string,
+  action: string,
+  before: any,
+  after: any,
+  actor?: RevisionActor | null
+): Promise<void> {
+  await client.query(
+    `INSERT INTO "LocationRevision" (
+      "id", "locationId", "action", "before", "after", "userId", "username"
+    ) VALUES (gen_random_uuid()::text, $1, $2, $3::jsonb, $4::jsonb, $5, $6)`,
+    [
+      locationId,
+      action,
+      before ? JSON.stringify(before) : null,
+      after ? JSON.stringify(after) : null,
+      actor?.id ?? null,
+      actor?.username ?? null
+    ]
+  );
+}
+
+/**
+ * Get the points of multi-point locations
+ * @param locationIds - IDs of the locations
+ * @returns LocationPoint rows, ordered by location and position
+ */
+export async function getPointsForLocations(locationIds: string[]): Promise<any[]> {
+  if (locationIds.length === 0) {
+    return [];
+  }
+
+  try {
+    return await query(
+      `SELECT * FROM "LocationPoint"
+       WHERE "locationId" = ANY($1)
+       ORDER BY "locationId", "position", "id"`,
+      [locationIds]
+    );
+  } catch (error) {
+    console.error('Error getting location points:', error);
+    throw error;
+  }
+}
+
+/**
+ * Bring a location's points in line with newly written coordinates
+ * Same rules as syncLocationPoints in src/utils/locationPoints.js, for raw transactions.
+ * @returns true if the location's coordinates now come from its points
+ */
+async function syncLocationPointRows(
+  client: PoolClient,
+  locationId: string,
+  coordinates: any,
+  geometryType: string
+): Promise<boolean> {
+  const existing = await client.query(
+    `SELECT * FROM "LocationPoint" WHERE "locationId" = $1 ORDER BY "position", "id"`,
+    [locationId]
+  );
+
+  if (geometryType !== 'point' && geometryType !== 'multipoint') {
+    await client.query('DELETE FROM "LocationPoint" WHERE "locationId" = $1', [locationId]);
+    return false;
+  }
+  if (existing.rows.length === 0 && !hasPointEntries(coordinates)) {
+    return false;
+  }
+
+  const changes = planPointChanges(existing.rows, coordinates);
+  if (changes.remove.length > 0) {
+    await client.query('DELETE FROM "LocationPoint" WHERE "id" = ANY($1)', [changes.remove]);
+  }
+
+  const jsonValue = (value: any) => (value === null || value === undefined ? null : JSON.stringify(value));
+  for (const { id, data } of changes.update) {
+    const fields = Object.keys(data);
+    await client.query(
+      `UPDATE "LocationPoint"
+       SET ${fields.map((field, index) => `"${field}" = $${index + 2}`).join(', ')}, "updatedAt" = CURRENT_TIMESTAMP
+       WHERE "id" = $1`,
+      [id, ...fields.map(field => (field === 'coordinates' || field === 'mediaUrl' ? jsonValue(data[field]) : data[field]))]
+    );
+  }
+  for (const data of changes.create) {
+    await client.query(
+      `INSERT INTO "LocationPoint" (
+        "id", "locationId", "position", "coordinates",
+        "description", "icon", "iconSize", "iconColor", "radius", "mediaUrl"
+      ) VALUES (gen_random_uuid()::text, $1, $2, $3::jsonb, $4, $5, $6, $7, $8, $9::jsonb)`,
+      [
+        locationId,
+        data.position,
+        jsonValue(data.coordinates),
+        data.description ?? null,
+        data.icon ?? null,
+        data.iconSize ?? null,
+        data.iconColor ?? null,
+        data.radius ?? null,
+        jsonValue(data.mediaUrl)
+      ]
+    );
+  }
+  return true;
+}
+
+// Same check as assertLayerExists in src/utils/mapLayers.js, for pg clients
+async function checkLayerExists(client: PoolClient, layerId: string | undefined): Promise<void> {
+  if (layerId === undefined) {
+    return;
+  }
+
+  const layer = await client.query(`SELECT id FROM "MapLayer" WHERE id = $1`, [layerId]);
+  if (layer.rows.length === 0) {
+    throw new ValidationError([{ field: 'layerId', message: `must be an existing map layer, "${layerId}" was not found` }]);
+  }
+}
+
 /**
  * Save a location
  * @param locationData - The location data to save
+ * @param actor - The user creating the location, recorded in its revision history
  * @returns The saved location
+ * @throws ValidationError if the data doesn't match the location schema or names an unknown layer
  */
-export async function saveLocation(locationData: any): Promise<any> {
+export async function saveLocation(locationData: any, actor?: RevisionActor | null): Promise<any> {
+  // Check and clean the data before taking a connection
+  const data: any = validateLocation(locationData);
+  
   const client = await getClient();
   
   try {
     await client.query('BEGIN');
-    
-    // Clean and normalize the data
-    const data = { ...locationData };
-    
-    // Normalize coordinates if present
-    if (data.coordinates) {
-      data.coordinates = normalizeCoordinates(data.coordinates);
-    } else {
-      data.coordinates = [0, 0]; // Default coordinates
-    }
+    await checkLayerExists(client, data.layerId);
     
     // Convert to JSONB for PostgreSQL
     const coordinatesJson = JSON.stringify(data.coordinates);
@@ -426,9 +1185,10 @@ export async function saveLocation(locationData: any): Promise<any> {
       `INSERT INTO "Location" (
         "name", "description", "type", "coordinates", "icon", "iconSize",
         "iconColor", "radius", "lore", "spoilers", "isCoordinateSearch",
-        "noCluster", "mediaUrl", "exactCoordinates", "submittedBy", "approvedBy"
+        "noCluster", "mediaUrl", "exactCoordinates", "submittedBy", "approvedBy", "status",
+        "geometryType", "layerId"
       ) VALUES (
-        $1, $2, $3, $4::jsonb, $5, $6, $7, $8, $9, $10, $11, $12, $13::jsonb, $14::jsonb, $15, $16
+        $1, $2, $3, $4::jsonb, $5, $6, $7, $8, $9, $10, $11, $12, $13::jsonb, $14::jsonb, $15, $16, $17, $18, $19
       ) RETURNING *`,
       [
         data.name,
@@ -446,13 +1206,25 @@ export async function saveLocation(locationData: any): Promise<any> {
         mediaUrlJson,
         exactCoordinatesJson,
         data.submittedBy,
-        data.approvedBy
+        data.approvedBy,
+        data.status ?? 'published',
+        data.geometryType,
+        data.layerId ?? DEFAULT_LAYER_ID
       ]
     );
     
+    // Inline per-point properties are stored as points, which rewrite the coordinates
+    let location = result.rows[0];
+    if (hasPointEntries(data.coordinates)) {
+      await syncLocationPointRows(client, location.id, data.coordinates, data.geometryType);
+      location = (await client.query('SELECT * FROM "Location" WHERE id = $1', [location.id])).rows[0];
+    }
+    
+    await recordLocationRevision(client, location.id, 'create', null, location, actor);
+    
     await client.query('COMMIT');
     
-    return result.rows[0];
+    return location;
   } catch (error) {
     await client.query('ROLLBACK');
     console.error('Error saving location:', error);
@@ -466,22 +1238,32 @@ export async function saveLocation(locationData: any): Promise<any> {
  * Update a location
  * @param id - The ID of the location to update
  * @param locationData - The location data to update
+ * @param actor - The user making the change, recorded in its revision history
  * @returns The updated location
+ * @throws ValidationError if the data doesn't match the location schema or names an unknown layer
  */
-export async function updateLocation(id: string, locationData: any): Promise<any> {
+export async function updateLocation(id: string, locationData: any, actor?: RevisionActor | null): Promise<any> {
+  // Only the provided fields are checked and changed
+  const data: any = validateLocation(locationData, { partial: true });
+  
   const client = await getClient();
   
   try {
     await client.query('BEGIN');
     
-    // Clone the data to avoid modifying the input
-    const data = { ...locationData };
+    // Lock the current row so the recorded "before" snapshot matches what we overwrite
+    const existing = await client.query('SELECT * FROM "Location" WHERE id = $1 FOR UPDATE', [id]);
     
-    // Normalize coordinates if present
-    if (data.coordinates) {
-      data.coordinates = normalizeCoordinates(data.coordinates);
+    if (existing.rows.length === 0) {
+      throw new Error(`Location with ID ${id} not found`);
     }
     
+    await checkLayerExists(client, data.layerId);
+    
+    // Coordinates of multi-point locations are written through their points
+    const pointsManaged = data.coordinates !== undefined &&
+      await syncLocationPointRows(client, id, data.coordinates, data.geometryType);
+    
     // Build the update query dynamically based on provided fields
     const updates: string[] = [];
     const values: any[] = [id]; // First param is always the ID
@@ -503,7 +1285,7 @@ export async function updateLocation(id: string, locationData: any): Promise<any
       values.push(data.type);
     }
     
-    if (data.coordinates !== undefined) {
+    if (data.coordinates !== undefined && !pointsManaged) {
       updates.push(`"coordinates" = $${paramIndex++}::jsonb`);
       values.push(JSON.stringify(data.coordinates));
     }
@@ -550,7 +1332,7 @@ export async function updateLocation(id: string, locationData: any): Promise<any
     
     if (data.mediaUrl !== undefined) {
       updates.push(`"mediaUrl" = $${paramIndex++}::jsonb`);
-      values.push(JSON.stringify(data.mediaUrl));
+      values.push(data.mediaUrl !== null ? JSON.stringify(data.mediaUrl) : null);
     }
     
     if (data.exactCoordinates !== undefined) {
@@ -568,6 +1350,21 @@ export async function updateLocation(id: string, locationData: any): Promise<any
       values.push(data.approvedBy);
     }
     
+    if (data.status !== undefined) {
+      updates.push(`"status" = $${paramIndex++}`);
+      values.push(data.status);
+    }
+    
+    if (data.geometryType !== undefined && !pointsManaged) {
+      updates.push(`"geometryType" = $${paramIndex++}`);
+      values.push(data.geometryType);
+    }
+    
+    if (data.layerId !== undefined) {
+      updates.push(`"layerId" = $${paramIndex++}`);
+      values.push(data.layerId);
+    }
+    
     // Always update lastModified timestamp
     updates.push(`"lastModified" = CURRENT_TIMESTAMP`);
     
@@ -586,6 +1383,8 @@ export async function updateLocation(id: string, locationData: any): Promise<any
         throw new Error(`Location with ID ${id} not found`);
       }
       
+      await recordLocationRevision(client, id, 'update', existing.rows[0], result.rows[0], actor);
+      
       await client.query('COMMIT');
       return result.rows[0];
     } else {
@@ -616,11 +1415,25 @@ export default {
   getPrismaClient,
   closeConnections,
   setupListener,
+  getAllLocations,
+  getLocationById,
   getLocationsByCategory,
+  countLocationsByCategory,
+  getLocationsInBounds,
+  getLocationsContainingPoint,
+  getPointsForLocations,
+  getLocationChanges,
+  getLocationDataVersion,
+  searchLocations,
+  getMapLayers,
+  getMapLayer,
   getCategoryDefaults,
   saveCategoryDefault,
   deleteCategoryDefault,
+  getSpoilerCategoryPaths,
+  renameCategory,
   normalizeCoordinates,
+  recordLocationRevision,
   saveLocation,
   updateLocation
 };
@@ -2,18 +2,43 @@ import express from 'express';
 import cors from 'cors';
 import { createServer } from 'http';
 import db from '#db';  // Use #db instead of relative import
-import { ensureHeatmapTablesExist } from './src/utils/dbMigration.js';
+import {
+  ensureHeatmapTablesExist,
+  ensureLocationBoundsExist,
+  ensureLocationRevisionsExist,
+  ensureLocationSubmissionsExist,
+  ensureLocationNotificationsEnriched,
+  ensureMapChangeNotificationsExist,
+  ensureLocationChangeFeedExists,
+  ensureLocationSearchExists,
+  ensureSpoilerCategoriesExist,
+  ensureLocationStatusExists,
+  ensureLocationGeometryExists,
+  ensureLocationPointsExist,
+  ensureMapLayersExist,
+  ensureIngestionKeysExist,
+  ensureLocationChangesStampedAtCommit,
+  ensureSpoilerCategoryChangesStamped
+} from './src/utils/dbMigration.js';
 
 // Import routers
 import locationsRouter from './src/routes/locations.js';
 import heatmapRouter from './src/routes/heatmap.js';
+import layersRouter from './src/routes/layers.js';
 import listenRouter, { broadcastToAll } from './src/routes/listen.js';
 import statusRouter from './src/routes/status.js';
 import adminRouter from './src/routes/admin.js';
-import { authenticateAdmin } from './src/middleware/auth.js';
+import authRouter from './src/routes/auth.js';
+import submissionsRouter from './src/routes/submissions.js';
+import geojsonRouter from './src/routes/geojson.js';
+import ingestRouter from './src/routes/ingest.js';
+import { authenticateAdmin, authenticateDiscordUser } from './src/middleware/auth.js';
 
 // Import events router for backward compatibility
-import eventsRouter from './src/routes/events.js';
+import eventsRouter, { broadcastToAll as broadcastToLegacyClients } from './src/routes/events.js';
+import { MAP_CHANGES_CHANNEL, toClientEvent } from './src/utils/mapEvents.js';
+import { invalidateLocationVersion } from './src/middleware/cache.js';
+import { invalidateSpoilerCategories } from './src/utils/spoilers.js';
 
 const app = express();
 const server = createServer(app);
@@ -27,9 +52,11 @@ app.use(cors({
     callback(null, true);
   },
   credentials: true,
-  exposedHeaders: ['Content-Type', 'Cache-Control', 'Connection']
+  exposedHeaders: ['Content-Type', 'Cache-Control', 'Connection', 'ETag']
 }));
 
+// Admin bulk endpoints (YAML import and friends) accept much larger bodies
+app.use('/api/admin', express.json({ limit: process.env.ADMIN_BODY_LIMIT || '20mb' }));
 app.use(express.json());
 
 // Add environment variables for Discord authentication
@@ -43,14 +70,18 @@ app.use((req, res, next) => {
 
 // Mount the routers - all with /api prefix
 app.use('/api/locations', locationsRouter);
+app.use('/api', geojsonRouter);  // /api/locations.geojson export
 app.use('/api/heatmap', heatmapRouter);
+app.use('/api/layers', layersRouter);  // Map layers and layer-scoped locations and heatmaps
 app.use('/api/listen', listenRouter);  // Primary SSE endpoint
 app.use('/api/events', eventsRouter);  // Legacy SSE endpoint for compatibility
 app.use('/api/status', statusRouter);  // Status includes health check
+app.use('/api/submissions', authenticateDiscordUser, submissionsRouter);  // Community submissions (Discord login)
+app.use('/api/ingest', ingestRouter);  // Bulk heatmap ingestion (ingestion keys)
 
 // CRITICAL: Fix the order and mounting of auth routes
-// Public auth endpoint - NO middleware
-app.use('/api/admin/auth', adminRouter);
+// Public auth endpoint - NO middleware, and only the login routes
+app.use('/api/admin/auth', authRouter);
 
 // Protected admin routes WITH authentication middleware
 app.use('/api/admin', authenticateAdmin, adminRouter);
@@ -77,6 +108,9 @@ app.options('/api/listen', cors({
 async function setupDatabaseListener() {
   try {
     await db.setupListener('location_changes', (payload) => {
+      // Cached ETags are stale now
+      invalidateLocationVersion();
+
       // Broadcast to all connected clients
       const data = JSON.stringify({
         type: 'change',
@@ -84,6 +118,8 @@ async function setupDatabaseListener() {
         timestamp: Date.now()
       });
 
+      // Only /api/listen filters out unpublished locations and spoiler categories,
+      // so location changes aren't sent to the legacy /api/events stream
       broadcastToAll(data);
 
       console.log(`Broadcast change to clients:`, payload);
@@ -92,6 +128,36 @@ async function setupDatabaseListener() {
       console.log('Server will continue without database change notifications');
     });
 
+    // Category default and heatmap changes (typed events, see src/utils/mapEvents.js)
+    await db.setupListener(MAP_CHANGES_CHANNEL, (payload) => {
+      try {
+        const event = toClientEvent(payload);
+
+        // Spoiler categories may have changed (deleting a layer deletes its defaults)
+        if (event.type.startsWith('category-default.') || event.type === 'categories.renamed' ||
+            event.type === 'map-layer.deleted') {
+          invalidateSpoilerCategories();
+        }
+
+        // Bulk location changes don't send per-row location_changes notifications
+        const locationEvent = event.type.startsWith('locations.') || event.type === 'categories.renamed';
+        if (locationEvent) {
+          invalidateLocationVersion();
+        }
+
+        // Location events stay on /api/listen, like the per-row changes above
+        broadcastToAll(event);
+        if (!locationEvent) {
+          broadcastToLegacyClients(event);
+        }
+        console.log(`Broadcast map change to clients:`, payload);
+      } catch (error) {
+        console.error('Invalid map change notification:', error.message);
+      }
+    }).catch(error => {
+      console.error('Map change listener setup failed:', error.message);
+    });
+
     console.log('Database change listener setup complete');
   } catch (error) {
     console.error('Error setting up database listener:', error);
@@ -112,6 +178,29 @@ async function ensureDatabaseTablesExist() {
     } else {
       console.warn("Database tables check completed with warnings:", result.message);
     }
+
+    // Apply schema additions that newer features depend on
+    const migrations = [
+      await ensureLocationBoundsExist(),
+      await ensureLocationRevisionsExist(),
+      await ensureLocationSubmissionsExist(),
+      await ensureLocationNotificationsEnriched(),
+      await ensureMapChangeNotificationsExist(),
+      await ensureLocationChangeFeedExists(),
+      await ensureLocationSearchExists(),
+      await ensureSpoilerCategoriesExist(),
+      await ensureLocationStatusExists(),
+      await ensureLocationGeometryExists(),
+      await ensureLocationPointsExist(),
+      await ensureMapLayersExist(),
+      await ensureIngestionKeysExist(),
+      await ensureLocationChangesStampedAtCommit(),
+      await ensureSpoilerCategoryChangesStamped()
+    ];
+
+    migrations
+      .filter(migration => !migration.success)
+      .forEach(migration => console.warn("Schema migration completed with warnings:", migration.message));
   } catch (error) {
     console.error("Failed to ensure database tables exist:", error);
     console.log("Server will continue, but some features may not work correctly");
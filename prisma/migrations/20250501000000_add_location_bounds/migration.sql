@@ -0,0 +1,66 @@
+-- AddColumn: bounding box of every location, derived from its JSON coordinates
+ALTER TABLE "Location" ADD COLUMN IF NOT EXISTS "minX" DOUBLE PRECISION;
+ALTER TABLE "Location" ADD COLUMN IF NOT EXISTS "minY" DOUBLE PRECISION;
+ALTER TABLE "Location" ADD COLUMN IF NOT EXISTS "maxX" DOUBLE PRECISION;
+ALTER TABLE "Location" ADD COLUMN IF NOT EXISTS "maxY" DOUBLE PRECISION;
+
+-- Expand a coordinates value into its [x, y] points. Handles a single [x, y] pair,
+-- a list of pairs and the complex YAML format where each entry is an object
+-- with its own "coordinates" key.
+CREATE OR REPLACE FUNCTION location_coordinate_points(coords jsonb)
+RETURNS TABLE (x DOUBLE PRECISION, y DOUBLE PRECISION) AS $$
+  SELECT (pt.p->>0)::DOUBLE PRECISION, (pt.p->>1)::DOUBLE PRECISION
+  FROM jsonb_array_elements(
+    CASE
+      WHEN jsonb_typeof(coords) <> 'array' THEN '[]'::jsonb
+      WHEN jsonb_typeof(coords->0) = 'number' THEN jsonb_build_array(coords)
+      ELSE coords
+    END
+  ) AS e(item),
+  LATERAL (
+    SELECT CASE WHEN jsonb_typeof(e.item) = 'object' THEN e.item->'coordinates' ELSE e.item END AS p
+  ) AS pt
+  WHERE jsonb_typeof(pt.p) = 'array'
+    AND jsonb_typeof(pt.p->0) = 'number'
+    AND jsonb_typeof(pt.p->1) = 'number'
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Keep the bounding box in sync whenever coordinates are written
+CREATE OR REPLACE FUNCTION location_set_bounds()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT min(x), min(y), max(x), max(y)
+    INTO NEW."minX", NEW."minY", NEW."maxX", NEW."maxY"
+    FROM location_coordinate_points(NEW.coordinates::jsonb);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS location_bounds_trigger ON "Location";
+
+CREATE TRIGGER location_bounds_trigger
+BEFORE INSERT OR UPDATE OF coordinates ON "Location"
+FOR EACH ROW
+EXECUTE FUNCTION location_set_bounds();
+
+-- Backfill existing rows
+UPDATE "Location" l SET
+  "minX" = b.min_x,
+  "minY" = b.min_y,
+  "maxX" = b.max_x,
+  "maxY" = b.max_y
+FROM (
+  SELECT loc.id, min(p.x) AS min_x, min(p.y) AS min_y, max(p.x) AS max_x, max(p.y) AS max_y
+  FROM "Location" loc, location_coordinate_points(loc.coordinates::jsonb) p
+  GROUP BY loc.id
+) b
+WHERE l.id = b.id;
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "Location_bounds_x_idx" ON "Location"("minX", "maxX");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "Location_bounds_y_idx" ON "Location"("minY", "maxY");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "Location_type_idx" ON "Location"("type");
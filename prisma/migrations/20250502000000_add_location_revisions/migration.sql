@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "LocationRevision" (
+  "id" TEXT NOT NULL,
+  "locationId" TEXT NOT NULL,
+  "action" TEXT NOT NULL,
+  "before" JSONB,
+  "after" JSONB,
+  "userId" TEXT,
+  "username" TEXT,
+  "restoredFromId" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "LocationRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "LocationRevision_locationId_createdAt_idx" ON "LocationRevision"("locationId", "createdAt");
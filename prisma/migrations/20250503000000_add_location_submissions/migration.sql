@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "LocationSubmission" (
+  "id" TEXT NOT NULL,
+  "status" TEXT NOT NULL DEFAULT 'pending',
+  "name" TEXT NOT NULL,
+  "coordinates" JSONB NOT NULL,
+  "description" TEXT NOT NULL DEFAULT '',
+  "type" TEXT NOT NULL,
+  "icon" TEXT,
+  "iconSize" DOUBLE PRECISION,
+  "mediaUrl" JSONB,
+  "iconColor" TEXT,
+  "radius" DOUBLE PRECISION,
+  "lore" TEXT,
+  "spoilers" TEXT,
+  "noCluster" BOOLEAN DEFAULT false,
+  "submittedBy" TEXT NOT NULL,
+  "submitterName" TEXT,
+  "reviewedBy" TEXT,
+  "reviewedAt" TIMESTAMP(3),
+  "rejectionReason" TEXT,
+  "locationId" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "LocationSubmission_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "LocationSubmission_status_createdAt_idx" ON "LocationSubmission"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "LocationSubmission_submittedBy_idx" ON "LocationSubmission"("submittedBy");
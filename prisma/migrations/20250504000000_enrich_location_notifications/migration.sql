@@ -0,0 +1,51 @@
+-- Include the row's category and bounding box in location_changes notifications,
+-- so listeners can filter events by category and region (including deletes).
+-- Coordinates themselves are left out to stay well below the 8000 byte NOTIFY limit.
+CREATE OR REPLACE FUNCTION notify_location_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  payload jsonb;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    payload := jsonb_build_object(
+      'operation', TG_OP,
+      'table', TG_TABLE_NAME,
+      'id', OLD.id,
+      'type', OLD.type,
+      'bounds', CASE WHEN OLD."minX" IS NULL THEN NULL ELSE jsonb_build_object(
+        'minX', OLD."minX", 'minY', OLD."minY", 'maxX', OLD."maxX", 'maxY', OLD."maxY"
+      ) END
+    );
+  ELSE
+    payload := jsonb_build_object(
+      'operation', TG_OP,
+      'table', TG_TABLE_NAME,
+      'id', NEW.id,
+      'type', NEW.type,
+      'bounds', CASE WHEN NEW."minX" IS NULL THEN NULL ELSE jsonb_build_object(
+        'minX', NEW."minX", 'minY', NEW."minY", 'maxX', NEW."maxX", 'maxY', NEW."maxY"
+      ) END
+    );
+
+    -- A location moving out of a category or region is a change for those subscribers too
+    IF TG_OP = 'UPDATE' THEN
+      payload := payload || jsonb_build_object(
+        'oldType', OLD.type,
+        'oldBounds', CASE WHEN OLD."minX" IS NULL THEN NULL ELSE jsonb_build_object(
+          'minX', OLD."minX", 'minY', OLD."minY", 'maxX', OLD."maxX", 'maxY', OLD."maxY"
+        ) END
+      );
+    END IF;
+  END IF;
+
+  PERFORM pg_notify('location_changes', payload::text);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS location_changes_trigger ON "Location";
+
+CREATE TRIGGER location_changes_trigger
+AFTER INSERT OR UPDATE OR DELETE ON "Location"
+FOR EACH ROW
+EXECUTE FUNCTION notify_location_changes();
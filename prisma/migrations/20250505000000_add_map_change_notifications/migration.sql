@@ -0,0 +1,142 @@
+-- Notify the "map_changes" channel about edits to category defaults and heatmap tables.
+-- Payloads are documented in src/utils/mapEvents.js.
+--
+-- Bulk operations set the transaction-local "soulmap.suppress_notify" setting to skip
+-- per-row notifications and send a single summary event instead.
+
+-- The table is normally created on first use by db.ts, make sure it exists for the trigger
+CREATE TABLE IF NOT EXISTS "CategoryDefaults" (
+  "id" TEXT PRIMARY KEY DEFAULT gen_random_uuid(),
+  "path" TEXT UNIQUE NOT NULL,
+  "visible" BOOLEAN NOT NULL DEFAULT true,
+  "expanded" BOOLEAN NOT NULL DEFAULT true,
+  "displayName" TEXT,
+  "iconPath" TEXT,
+  "sortOrder" INTEGER NOT NULL DEFAULT 0,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE OR REPLACE FUNCTION notify_map_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  row_data jsonb;
+  entity text;
+  action text;
+  payload jsonb;
+BEGIN
+  IF current_setting('soulmap.suppress_notify', true) = 'on' THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    row_data := to_jsonb(OLD);
+  ELSE
+    row_data := to_jsonb(NEW);
+  END IF;
+
+  action := CASE TG_OP WHEN 'INSERT' THEN 'created' WHEN 'UPDATE' THEN 'updated' ELSE 'deleted' END;
+
+  IF TG_TABLE_NAME = 'CategoryDefaults' THEN
+    entity := 'category-default';
+    payload := jsonb_build_object(
+      'id', row_data->'id',
+      'path', row_data->'path',
+      'visible', row_data->'visible',
+      'expanded', row_data->'expanded'
+    );
+  ELSIF TG_TABLE_NAME = 'HeatmapType' THEN
+    entity := 'heatmap.type';
+    payload := jsonb_build_object('id', row_data->'id', 'name', row_data->'name');
+  ELSIF TG_TABLE_NAME = 'HeatmapDatapoint' THEN
+    entity := 'heatmap.datapoint';
+    payload := jsonb_build_object('id', row_data->'id', 'visible', row_data->'visible');
+  ELSE
+    -- HeatmapDatapointType links a datapoint to a type
+    entity := 'heatmap.datapoint-type';
+    action := CASE TG_OP WHEN 'DELETE' THEN 'deleted' ELSE 'created' END;
+    payload := jsonb_build_object(
+      'datapointId', row_data->'datapointId',
+      'typeId', row_data->'typeId'
+    );
+  END IF;
+
+  PERFORM pg_notify('map_changes', jsonb_build_object(
+    'event', entity || '.' || action,
+    'table', TG_TABLE_NAME,
+    'data', payload
+  )::text);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS category_defaults_changes_trigger ON "CategoryDefaults";
+CREATE TRIGGER category_defaults_changes_trigger
+AFTER INSERT OR UPDATE OR DELETE ON "CategoryDefaults"
+FOR EACH ROW
+EXECUTE FUNCTION notify_map_changes();
+
+DROP TRIGGER IF EXISTS heatmap_type_changes_trigger ON "HeatmapType";
+CREATE TRIGGER heatmap_type_changes_trigger
+AFTER INSERT OR UPDATE OR DELETE ON "HeatmapType"
+FOR EACH ROW
+EXECUTE FUNCTION notify_map_changes();
+
+DROP TRIGGER IF EXISTS heatmap_datapoint_changes_trigger ON "HeatmapDatapoint";
+CREATE TRIGGER heatmap_datapoint_changes_trigger
+AFTER INSERT OR UPDATE OR DELETE ON "HeatmapDatapoint"
+FOR EACH ROW
+EXECUTE FUNCTION notify_map_changes();
+
+DROP TRIGGER IF EXISTS heatmap_datapoint_type_changes_trigger ON "HeatmapDatapointType";
+CREATE TRIGGER heatmap_datapoint_type_changes_trigger
+AFTER INSERT OR UPDATE OR DELETE ON "HeatmapDatapointType"
+FOR EACH ROW
+EXECUTE FUNCTION notify_map_changes();
+
+-- Location notifications honour the same suppression setting
+CREATE OR REPLACE FUNCTION notify_location_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  payload jsonb;
+BEGIN
+  IF current_setting('soulmap.suppress_notify', true) = 'on' THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    payload := jsonb_build_object(
+      'operation', TG_OP,
+      'table', TG_TABLE_NAME,
+      'id', OLD.id,
+      'type', OLD.type,
+      'bounds', CASE WHEN OLD."minX" IS NULL THEN NULL ELSE jsonb_build_object(
+        'minX', OLD."minX", 'minY', OLD."minY", 'maxX', OLD."maxX", 'maxY', OLD."maxY"
+      ) END
+    );
+  ELSE
+    payload := jsonb_build_object(
+      'operation', TG_OP,
+      'table', TG_TABLE_NAME,
+      'id', NEW.id,
+      'type', NEW.type,
+      'bounds', CASE WHEN NEW."minX" IS NULL THEN NULL ELSE jsonb_build_object(
+        'minX', NEW."minX", 'minY', NEW."minY", 'maxX', NEW."maxX", 'maxY', NEW."maxY"
+      ) END
+    );
+
+    -- A location moving out of a category or region is a change for those subscribers too
+    IF TG_OP = 'UPDATE' THEN
+      payload := payload || jsonb_build_object(
+        'oldType', OLD.type,
+        'oldBounds', CASE WHEN OLD."minX" IS NULL THEN NULL ELSE jsonb_build_object(
+          'minX', OLD."minX", 'minY', OLD."minY", 'maxX', OLD."maxX", 'maxY', OLD."maxY"
+        ) END
+      );
+    END IF;
+  END IF;
+
+  PERFORM pg_notify('location_changes', payload::text);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,64 @@
+-- Change feed for incremental sync: every insert or update stamps the row with the next
+-- value of a global sequence, and deletes leave a tombstone with their own sequence value.
+CREATE SEQUENCE IF NOT EXISTS location_change_seq AS INTEGER;
+
+ALTER TABLE "Location" ADD COLUMN IF NOT EXISTS "changeSeq" INTEGER;
+
+-- Backfill without sending a location_changes notification per row
+DO $$
+BEGIN
+  PERFORM set_config('soulmap.suppress_notify', 'on', true);
+  UPDATE "Location" SET "changeSeq" = nextval('location_change_seq') WHERE "changeSeq" IS NULL;
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS "Location_changeSeq_idx" ON "Location"("changeSeq");
+
+CREATE TABLE IF NOT EXISTS "LocationTombstone" (
+  "id" TEXT NOT NULL,
+  "changeSeq" INTEGER NOT NULL,
+  "deletedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "LocationTombstone_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "LocationTombstone_changeSeq_idx" ON "LocationTombstone"("changeSeq");
+
+CREATE OR REPLACE FUNCTION location_stamp_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW."changeSeq" := nextval('location_change_seq');
+
+  -- A location recreated with the same ID (e.g. restored from its history) is alive again
+  IF TG_OP = 'INSERT' THEN
+    DELETE FROM "LocationTombstone" WHERE "id" = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS location_change_seq_trigger ON "Location";
+
+CREATE TRIGGER location_change_seq_trigger
+BEFORE INSERT OR UPDATE ON "Location"
+FOR EACH ROW
+EXECUTE FUNCTION location_stamp_change();
+
+CREATE OR REPLACE FUNCTION location_record_tombstone()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO "LocationTombstone" ("id", "changeSeq", "deletedAt")
+  VALUES (OLD.id, nextval('location_change_seq'), CURRENT_TIMESTAMP)
+  ON CONFLICT ("id") DO UPDATE
+    SET "changeSeq" = EXCLUDED."changeSeq", "deletedAt" = EXCLUDED."deletedAt";
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS location_tombstone_trigger ON "Location";
+
+CREATE TRIGGER location_tombstone_trigger
+AFTER DELETE ON "Location"
+FOR EACH ROW
+EXECUTE FUNCTION location_record_tombstone();
@@ -0,0 +1,26 @@
+-- Full-text and fuzzy search over locations.
+-- The search vectors are expression indexes rather than columns, so SELECT * stays small.
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Weighted document for a location: name ranks above description, description above lore
+CREATE OR REPLACE FUNCTION location_search_vector(name text, description text, lore text)
+RETURNS tsvector AS $$
+  SELECT setweight(to_tsvector('english'::regconfig, coalesce(name, '')), 'A') ||
+         setweight(to_tsvector('english'::regconfig, coalesce(description, '')), 'B') ||
+         setweight(to_tsvector('english'::regconfig, coalesce(lore, '')), 'C');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Spoilers are searched separately so matching them stays opt-in
+CREATE OR REPLACE FUNCTION location_spoiler_vector(spoilers text)
+RETURNS tsvector AS $$
+  SELECT setweight(to_tsvector('english'::regconfig, coalesce(spoilers, '')), 'D');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE INDEX IF NOT EXISTS "Location_search_idx"
+ON "Location" USING GIN (location_search_vector("name", "description", "lore"));
+
+CREATE INDEX IF NOT EXISTS "Location_spoiler_search_idx"
+ON "Location" USING GIN (location_spoiler_vector("spoilers"));
+
+CREATE INDEX IF NOT EXISTS "Location_name_trgm_idx"
+ON "Location" USING GIN ("name" gin_trgm_ops);
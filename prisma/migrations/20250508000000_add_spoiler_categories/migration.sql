@@ -0,0 +1,2 @@
+-- Categories whose locations are hidden from spoiler-safe responses
+ALTER TABLE "CategoryDefaults" ADD COLUMN IF NOT EXISTS "spoiler" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,74 @@
+-- Replace the "![DISABLED]" type marker with a real visibility state.
+-- Only "published" locations are shown publicly; "hidden" and "archived" ones stay in the
+-- admin panel. Hidden rows get their real category back in "type".
+ALTER TABLE "Location" ADD COLUMN IF NOT EXISTS "status" TEXT NOT NULL DEFAULT 'published';
+
+ALTER TABLE "Location" DROP CONSTRAINT IF EXISTS "Location_status_check";
+
+ALTER TABLE "Location" ADD CONSTRAINT "Location_status_check"
+  CHECK ("status" IN ('published', 'hidden', 'archived'));
+
+-- Converted rows are stamped in the change feed, so synced clients refetch them
+DO $$
+BEGIN
+  PERFORM set_config('soulmap.suppress_notify', 'on', true);
+  UPDATE "Location"
+  SET "status" = 'hidden',
+      "type" = btrim(replace("type", '![DISABLED]', ''))
+  WHERE position('![DISABLED]' in "type") > 0;
+END;
+$$;
+
+-- Include the status in location_changes notifications, so listeners can tell clients
+-- about locations being hidden or published again
+CREATE OR REPLACE FUNCTION notify_location_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  payload jsonb;
+BEGIN
+  IF current_setting('soulmap.suppress_notify', true) = 'on' THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    payload := jsonb_build_object(
+      'operation', TG_OP,
+      'table', TG_TABLE_NAME,
+      'id', OLD.id,
+      'type', OLD.type,
+      'status', OLD.status,
+      'bounds', CASE WHEN OLD."minX" IS NULL THEN NULL ELSE jsonb_build_object(
+        'minX', OLD."minX", 'minY', OLD."minY", 'maxX', OLD."maxX", 'maxY', OLD."maxY"
+      ) END
+    );
+  ELSE
+    payload := jsonb_build_object(
+      'operation', TG_OP,
+      'table', TG_TABLE_NAME,
+      'id', NEW.id,
+      'type', NEW.type,
+      'status', NEW.status,
+      'bounds', CASE WHEN NEW."minX" IS NULL THEN NULL ELSE jsonb_build_object(
+        'minX', NEW."minX", 'minY', NEW."minY", 'maxX', NEW."maxX", 'maxY', NEW."maxY"
+      ) END
+    );
+
+    -- A location moving out of a category or region is a change for those subscribers too
+    IF TG_OP = 'UPDATE' THEN
+      payload := payload || jsonb_build_object(
+        'oldType', OLD.type,
+        'oldStatus', OLD.status,
+        'oldBounds', CASE WHEN OLD."minX" IS NULL THEN NULL ELSE jsonb_build_object(
+          'minX', OLD."minX", 'minY', OLD."minY", 'maxX', OLD."maxX", 'maxY', OLD."maxY"
+        ) END
+      );
+    END IF;
+  END IF;
+
+  PERFORM pg_notify('location_changes', payload::text);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Public reads filter on status, usually together with a category
+CREATE INDEX IF NOT EXISTS "Location_status_type_idx" ON "Location"("status", "type");
@@ -0,0 +1,49 @@
+-- Explicit geometry kind for every location: point, multipoint, polyline or polygon.
+-- Polygons store a list of rings ([[[x, y], ...], ...]), outer ring first, then holes.
+ALTER TABLE "Location" ADD COLUMN IF NOT EXISTS "geometryType" TEXT NOT NULL DEFAULT 'point';
+
+ALTER TABLE "Location" DROP CONSTRAINT IF EXISTS "Location_geometryType_check";
+
+ALTER TABLE "Location" ADD CONSTRAINT "Location_geometryType_check"
+  CHECK ("geometryType" IN ('point', 'multipoint', 'polyline', 'polygon'));
+
+-- Existing lists of points are multipoints; nothing was a line or an area before
+DO $$
+BEGIN
+  PERFORM set_config('soulmap.suppress_notify', 'on', true);
+  UPDATE "Location"
+  SET "geometryType" = 'multipoint'
+  WHERE "geometryType" = 'point'
+    AND jsonb_typeof(coordinates::jsonb) = 'array'
+    AND jsonb_typeof(coordinates::jsonb->0) <> 'number';
+END;
+$$;
+
+-- Expand a coordinates value into its [x, y] points. Handles a single [x, y] pair,
+-- a list of pairs, the complex YAML format where each entry is an object with its own
+-- "coordinates" key, and polygons, whose rings are flattened so the bounding box
+-- covers the outer ring.
+CREATE OR REPLACE FUNCTION location_coordinate_points(coords jsonb)
+RETURNS TABLE (x DOUBLE PRECISION, y DOUBLE PRECISION) AS $$
+  SELECT (pt.p->>0)::DOUBLE PRECISION, (pt.p->>1)::DOUBLE PRECISION
+  FROM jsonb_array_elements(
+    CASE
+      WHEN jsonb_typeof(coords) <> 'array' THEN '[]'::jsonb
+      WHEN jsonb_typeof(coords->0) = 'number' THEN jsonb_build_array(coords)
+      WHEN jsonb_typeof(coords->0->0) = 'array' THEN (
+        SELECT COALESCE(jsonb_agg(ring_point), '[]'::jsonb)
+        FROM jsonb_array_elements(coords) AS ring(points),
+          LATERAL jsonb_array_elements(
+            CASE WHEN jsonb_typeof(ring.points) = 'array' THEN ring.points ELSE '[]'::jsonb END
+          ) AS rp(ring_point)
+      )
+      ELSE coords
+    END
+  ) AS e(item),
+  LATERAL (
+    SELECT CASE WHEN jsonb_typeof(e.item) = 'object' THEN e.item->'coordinates' ELSE e.item END AS p
+  ) AS pt
+  WHERE jsonb_typeof(pt.p) = 'array'
+    AND jsonb_typeof(pt.p->0) = 'number'
+    AND jsonb_typeof(pt.p->1) = 'number'
+$$ LANGUAGE sql IMMUTABLE;
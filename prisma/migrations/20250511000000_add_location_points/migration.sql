@@ -0,0 +1,153 @@
+-- Multi-point locations: one logical location with an ordered list of points. Each point
+-- can override the location's description, icon, icon size, color, radius and media; a
+-- NULL override inherits the location's value.
+CREATE TABLE IF NOT EXISTS "LocationPoint" (
+  "id" TEXT NOT NULL,
+  "locationId" TEXT NOT NULL,
+  "position" INTEGER NOT NULL,
+  "coordinates" JSONB NOT NULL,
+  "description" TEXT,
+  "icon" TEXT,
+  "iconSize" DOUBLE PRECISION,
+  "iconColor" TEXT,
+  "radius" DOUBLE PRECISION,
+  "mediaUrl" JSONB,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "LocationPoint_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "LocationPoint_locationId_fkey" FOREIGN KEY ("locationId")
+    REFERENCES "Location"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "LocationPoint_locationId_position_idx" ON "LocationPoint"("locationId", "position");
+
+-- The location's own coordinates mirror its points, so bounds, clustering, the change feed
+-- and notifications keep working on the Location row. Any point change touches the row.
+CREATE OR REPLACE FUNCTION location_points_sync()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_id TEXT;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    target_id := OLD."locationId";
+  ELSE
+    target_id := NEW."locationId";
+  END IF;
+
+  -- The last point of a location keeps its coordinates; the location is being deleted
+  UPDATE "Location" l
+  SET "coordinates" = p.coords,
+      "geometryType" = 'multipoint',
+      "lastModified" = CURRENT_TIMESTAMP,
+      "updatedAt" = CURRENT_TIMESTAMP
+  FROM (
+    SELECT jsonb_agg("coordinates" ORDER BY "position", "id") AS coords
+    FROM "LocationPoint"
+    WHERE "locationId" = target_id
+  ) p
+  WHERE l.id = target_id AND p.coords IS NOT NULL;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS location_points_sync_trigger ON "LocationPoint";
+
+CREATE TRIGGER location_points_sync_trigger
+AFTER INSERT OR UPDATE OR DELETE ON "LocationPoint"
+FOR EACH ROW
+EXECUTE FUNCTION location_points_sync();
+
+-- Regroup the rows utils/seed-database.ts exploded from complex YAML locations: each point
+-- became "<name> - Point N" with the parent's name in "submittedBy". The first row becomes
+-- the location (keeping its ID), values shared by all rows become the location's and the
+-- rest are kept as point overrides.
+DO $$
+DECLARE
+  grp RECORD;
+  shared RECORD;
+  parent_id TEXT;
+BEGIN
+  PERFORM set_config('soulmap.suppress_notify', 'on', true);
+
+  FOR grp IN
+    SELECT "submittedBy" AS parent_name,
+      "type",
+      array_agg(id ORDER BY substring(name FROM ' - Point ([0-9]+)$')::INTEGER) AS ids
+    FROM "Location"
+    WHERE "submittedBy" IS NOT NULL
+      AND name = "submittedBy" || ' - Point ' || substring(name FROM ' - Point ([0-9]+)$')
+    GROUP BY "submittedBy", "type"
+  LOOP
+    parent_id := grp.ids[1];
+
+    SELECT
+      CASE WHEN COUNT(DISTINCT description) = 1 AND COUNT(description) = COUNT(*) THEN MIN(description) END AS description,
+      CASE WHEN COUNT(DISTINCT icon) = 1 AND COUNT(icon) = COUNT(*) THEN MIN(icon) END AS icon,
+      CASE WHEN COUNT(DISTINCT "iconSize") = 1 AND COUNT("iconSize") = COUNT(*) THEN MIN("iconSize") END AS "iconSize",
+      CASE WHEN COUNT(DISTINCT "iconColor") = 1 AND COUNT("iconColor") = COUNT(*) THEN MIN("iconColor") END AS "iconColor",
+      CASE WHEN COUNT(DISTINCT radius) = 1 AND COUNT(radius) = COUNT(*) THEN MIN(radius) END AS radius,
+      CASE WHEN COUNT(DISTINCT "mediaUrl"::text) = 1 AND COUNT("mediaUrl") = COUNT(*) THEN MIN("mediaUrl"::text)::jsonb END AS "mediaUrl"
+    INTO shared
+    FROM "Location"
+    WHERE id = ANY(grp.ids);
+
+    INSERT INTO "LocationPoint" (
+      "id", "locationId", "position", "coordinates",
+      "description", "icon", "iconSize", "iconColor", "radius", "mediaUrl"
+    )
+    SELECT gen_random_uuid()::text, parent_id, child.ord - 1, l.coordinates::jsonb,
+      CASE WHEN l.description IS DISTINCT FROM shared.description THEN l.description END,
+      CASE WHEN l.icon IS DISTINCT FROM shared.icon THEN l.icon END,
+      CASE WHEN l."iconSize" IS DISTINCT FROM shared."iconSize" THEN l."iconSize" END,
+      CASE WHEN l."iconColor" IS DISTINCT FROM shared."iconColor" THEN l."iconColor" END,
+      CASE WHEN l.radius IS DISTINCT FROM shared.radius THEN l.radius END,
+      CASE WHEN l."mediaUrl"::jsonb IS DISTINCT FROM shared."mediaUrl" THEN l."mediaUrl"::jsonb END
+    FROM unnest(grp.ids) WITH ORDINALITY AS child(id, ord)
+    JOIN "Location" l ON l.id = child.id;
+
+    UPDATE "Location"
+    SET name = grp.parent_name,
+        "submittedBy" = NULL,
+        description = COALESCE(shared.description, ''),
+        icon = shared.icon,
+        "iconSize" = shared."iconSize",
+        "iconColor" = shared."iconColor",
+        radius = shared.radius,
+        "mediaUrl" = shared."mediaUrl"
+    WHERE id = parent_id;
+
+    DELETE FROM "Location" WHERE id = ANY(grp.ids[2:]);
+  END LOOP;
+END;
+$$;
+
+-- Locations that kept per-point properties inline ({ coordinates: [x, y], ... } entries,
+-- from YAML or GeoJSON imports) get the same points
+DO $$
+BEGIN
+  PERFORM set_config('soulmap.suppress_notify', 'on', true);
+
+  INSERT INTO "LocationPoint" (
+    "id", "locationId", "position", "coordinates",
+    "description", "icon", "iconSize", "iconColor", "radius", "mediaUrl"
+  )
+  SELECT gen_random_uuid()::text, l.id, e.ord - 1, e.item->'coordinates',
+    e.item->>'description',
+    e.item->>'icon',
+    CASE WHEN jsonb_typeof(e.item->'iconSize') = 'number' THEN (e.item->>'iconSize')::DOUBLE PRECISION END,
+    e.item->>'iconColor',
+    CASE WHEN jsonb_typeof(e.item->'radius') = 'number' THEN (e.item->>'radius')::DOUBLE PRECISION END,
+    CASE jsonb_typeof(e.item->'mediaUrl')
+      WHEN 'array' THEN e.item->'mediaUrl'
+      WHEN 'string' THEN jsonb_build_array(e.item->'mediaUrl')
+    END
+  FROM "Location" l,
+    jsonb_array_elements(l.coordinates::jsonb) WITH ORDINALITY AS e(item, ord)
+  WHERE jsonb_typeof(l.coordinates::jsonb) = 'array'
+    AND jsonb_typeof(l.coordinates::jsonb->0) = 'object'
+    AND jsonb_typeof(e.item->'coordinates') = 'array'
+    AND NOT EXISTS (SELECT 1 FROM "LocationPoint" p WHERE p."locationId" = l.id);
+END;
+$$;
@@ -0,0 +1,172 @@
+-- Map layers: separate maps such as an underground level or an alternate-realm overlay,
+-- each with its own size, tiles and zoom range. Coordinates are in the units of their
+-- layer. Everything that existed before belongs to the "surface" layer.
+CREATE TABLE IF NOT EXISTS "MapLayer" (
+  "id" TEXT NOT NULL,
+  "name" TEXT NOT NULL,
+  "description" TEXT,
+  "width" DOUBLE PRECISION NOT NULL,
+  "height" DOUBLE PRECISION NOT NULL,
+  "minZoom" DOUBLE PRECISION NOT NULL DEFAULT -3,
+  "maxZoom" DOUBLE PRECISION NOT NULL DEFAULT 2,
+  "tileUrl" TEXT,
+  "tileSize" INTEGER NOT NULL DEFAULT 256,
+  "attribution" TEXT,
+  "sortOrder" INTEGER NOT NULL DEFAULT 0,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "MapLayer_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "MapLayer_size_check" CHECK ("width" > 0 AND "height" > 0),
+  CONSTRAINT "MapLayer_zoom_check" CHECK ("minZoom" <= "maxZoom")
+);
+
+INSERT INTO "MapLayer" ("id", "name", "width", "height")
+VALUES ('surface', 'Surface', 7680, 6656)
+ON CONFLICT ("id") DO NOTHING;
+
+-- Layers that still have locations or datapoints can't be deleted
+ALTER TABLE "Location" ADD COLUMN IF NOT EXISTS "layerId" TEXT NOT NULL DEFAULT 'surface';
+ALTER TABLE "Location" DROP CONSTRAINT IF EXISTS "Location_layerId_fkey";
+ALTER TABLE "Location" ADD CONSTRAINT "Location_layerId_fkey" FOREIGN KEY ("layerId")
+  REFERENCES "MapLayer"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+CREATE INDEX IF NOT EXISTS "Location_layerId_status_idx" ON "Location"("layerId", "status");
+
+ALTER TABLE "HeatmapDatapoint" ADD COLUMN IF NOT EXISTS "layerId" TEXT NOT NULL DEFAULT 'surface';
+ALTER TABLE "HeatmapDatapoint" DROP CONSTRAINT IF EXISTS "HeatmapDatapoint_layerId_fkey";
+ALTER TABLE "HeatmapDatapoint" ADD CONSTRAINT "HeatmapDatapoint_layerId_fkey" FOREIGN KEY ("layerId")
+  REFERENCES "MapLayer"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+CREATE INDEX IF NOT EXISTS "HeatmapDatapoint_layerId_idx" ON "HeatmapDatapoint"("layerId");
+
+-- Category defaults without a layer apply to every layer; a layer's own row for the same
+-- path takes precedence there. Defaults go away with their layer.
+ALTER TABLE "CategoryDefaults" ADD COLUMN IF NOT EXISTS "layerId" TEXT;
+ALTER TABLE "CategoryDefaults" DROP CONSTRAINT IF EXISTS "CategoryDefaults_layerId_fkey";
+ALTER TABLE "CategoryDefaults" ADD CONSTRAINT "CategoryDefaults_layerId_fkey" FOREIGN KEY ("layerId")
+  REFERENCES "MapLayer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- One row per path and layer; created by db.ts as a constraint, by Prisma as an index
+ALTER TABLE "CategoryDefaults" DROP CONSTRAINT IF EXISTS "CategoryDefaults_path_key";
+DROP INDEX IF EXISTS "CategoryDefaults_path_key";
+CREATE UNIQUE INDEX IF NOT EXISTS "CategoryDefaults_path_layerId_key"
+  ON "CategoryDefaults"("path", COALESCE("layerId", ''));
+
+-- Tell listeners which layer a change happened on, so clients can skip other layers
+CREATE OR REPLACE FUNCTION notify_location_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  payload jsonb;
+BEGIN
+  IF current_setting('soulmap.suppress_notify', true) = 'on' THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    payload := jsonb_build_object(
+      'operation', TG_OP,
+      'table', TG_TABLE_NAME,
+      'id', OLD.id,
+      'type', OLD.type,
+      'status', OLD.status,
+      'layerId', OLD."layerId",
+      'bounds', CASE WHEN OLD."minX" IS NULL THEN NULL ELSE jsonb_build_object(
+        'minX', OLD."minX", 'minY', OLD."minY", 'maxX', OLD."maxX", 'maxY', OLD."maxY"
+      ) END
+    );
+  ELSE
+    payload := jsonb_build_object(
+      'operation', TG_OP,
+      'table', TG_TABLE_NAME,
+      'id', NEW.id,
+      'type', NEW.type,
+      'status', NEW.status,
+      'layerId', NEW."layerId",
+      'bounds', CASE WHEN NEW."minX" IS NULL THEN NULL ELSE jsonb_build_object(
+        'minX', NEW."minX", 'minY', NEW."minY", 'maxX', NEW."maxX", 'maxY', NEW."maxY"
+      ) END
+    );
+
+    -- A location moving out of a category, region or layer is a change for those subscribers too
+    IF TG_OP = 'UPDATE' THEN
+      payload := payload || jsonb_build_object(
+        'oldType', OLD.type,
+        'oldStatus', OLD.status,
+        'oldLayerId', OLD."layerId",
+        'oldBounds', CASE WHEN OLD."minX" IS NULL THEN NULL ELSE jsonb_build_object(
+          'minX', OLD."minX", 'minY', OLD."minY", 'maxX', OLD."maxX", 'maxY', OLD."maxY"
+        ) END
+      );
+    END IF;
+  END IF;
+
+  PERFORM pg_notify('location_changes', payload::text);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION notify_map_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  row_data jsonb;
+  entity text;
+  action text;
+  payload jsonb;
+BEGIN
+  IF current_setting('soulmap.suppress_notify', true) = 'on' THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    row_data := to_jsonb(OLD);
+  ELSE
+    row_data := to_jsonb(NEW);
+  END IF;
+
+  action := CASE TG_OP WHEN 'INSERT' THEN 'created' WHEN 'UPDATE' THEN 'updated' ELSE 'deleted' END;
+
+  IF TG_TABLE_NAME = 'CategoryDefaults' THEN
+    entity := 'category-default';
+    payload := jsonb_build_object(
+      'id', row_data->'id',
+      'path', row_data->'path',
+      'layerId', row_data->'layerId',
+      'visible', row_data->'visible',
+      'expanded', row_data->'expanded'
+    );
+  ELSIF TG_TABLE_NAME = 'HeatmapType' THEN
+    entity := 'heatmap.type';
+    payload := jsonb_build_object('id', row_data->'id', 'name', row_data->'name');
+  ELSIF TG_TABLE_NAME = 'HeatmapDatapoint' THEN
+    entity := 'heatmap.datapoint';
+    payload := jsonb_build_object(
+      'id', row_data->'id',
+      'layerId', row_data->'layerId',
+      'visible', row_data->'visible'
+    );
+  ELSIF TG_TABLE_NAME = 'MapLayer' THEN
+    entity := 'map-layer';
+    payload := jsonb_build_object('id', row_data->'id', 'name', row_data->'name');
+  ELSE
+    -- HeatmapDatapointType links a datapoint to a type
+    entity := 'heatmap.datapoint-type';
+    action := CASE TG_OP WHEN 'DELETE' THEN 'deleted' ELSE 'created' END;
+    payload := jsonb_build_object(
+      'datapointId', row_data->'datapointId',
+      'typeId', row_data->'typeId'
+    );
+  END IF;
+
+  PERFORM pg_notify('map_changes', jsonb_build_object(
+    'event', entity || '.' || action,
+    'table', TG_TABLE_NAME,
+    'data', payload
+  )::text);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS map_layer_changes_trigger ON "MapLayer";
+CREATE TRIGGER map_layer_changes_trigger
+AFTER INSERT OR UPDATE OR DELETE ON "MapLayer"
+FOR EACH ROW
+EXECUTE FUNCTION notify_map_changes();
@@ -0,0 +1,28 @@
+-- Ingestion keys: credentials for bots and telemetry sources that send heatmap datapoints
+-- to /api/ingest/heatmap. Only a SHA-256 hash of each key is stored; the key itself is
+-- shown once, when it is created. Rate limits are per key.
+CREATE TABLE IF NOT EXISTS "IngestionKey" (
+  "id" SERIAL NOT NULL,
+  "name" TEXT NOT NULL,
+  "keyPrefix" TEXT NOT NULL,
+  "keyHash" TEXT NOT NULL,
+  "layerId" TEXT NOT NULL DEFAULT 'surface',
+  "autoCreateTypes" BOOLEAN NOT NULL DEFAULT false,
+  "requestsPerMinute" INTEGER NOT NULL DEFAULT 60,
+  "datapointsPerMinute" INTEGER NOT NULL DEFAULT 10000,
+  "enabled" BOOLEAN NOT NULL DEFAULT true,
+  "createdBy" TEXT,
+  "lastUsedAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "IngestionKey_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "IngestionKey_limits_check" CHECK ("requestsPerMinute" > 0 AND "datapointsPerMinute" > 0)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "IngestionKey_keyHash_key" ON "IngestionKey"("keyHash");
+
+-- Keys of a deleted layer go with it
+ALTER TABLE "IngestionKey" DROP CONSTRAINT IF EXISTS "IngestionKey_layerId_fkey";
+ALTER TABLE "IngestionKey" ADD CONSTRAINT "IngestionKey_layerId_fkey" FOREIGN KEY ("layerId")
+  REFERENCES "MapLayer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
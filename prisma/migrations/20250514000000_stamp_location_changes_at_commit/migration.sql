@@ -0,0 +1,74 @@
+-- Number change feed entries in commit order. Sequence values taken while a row is written
+-- can commit out of order: a transaction holding seq 10 may commit after another one's
+-- seq 11 is visible, and a client that already synced to 11 would never see 10. Writes now
+-- leave "changeSeq" NULL (pending) and a deferred trigger numbers the transaction's pending
+-- rows at commit, under a lock held until the transaction ends. A later commit can only
+-- take numbers once this one is visible, so no cursor ever skips a committed change.
+ALTER TABLE "LocationTombstone" ALTER COLUMN "changeSeq" DROP NOT NULL;
+
+CREATE OR REPLACE FUNCTION location_stamp_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Pending until commit; location_commit_changes() setting the number itself keeps it
+  IF TG_OP = 'INSERT' OR NEW."changeSeq" IS NOT DISTINCT FROM OLD."changeSeq" THEN
+    NEW."changeSeq" := NULL;
+  END IF;
+
+  -- A location recreated with the same ID (e.g. restored from its history) is alive again
+  IF TG_OP = 'INSERT' THEN
+    DELETE FROM "LocationTombstone" WHERE "id" = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION location_record_tombstone()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO "LocationTombstone" ("id", "changeSeq", "deletedAt")
+  VALUES (OLD.id, NULL, CURRENT_TIMESTAMP)
+  ON CONFLICT ("id") DO UPDATE
+    SET "changeSeq" = NULL, "deletedAt" = EXCLUDED."deletedAt";
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Number every pending row this transaction wrote. Other transactions' pending rows aren't
+-- visible here, and committed rows are never pending.
+CREATE OR REPLACE FUNCTION location_commit_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  suppressed TEXT;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('location_change_seq'));
+
+  -- Numbering isn't a change of its own, listeners were already told about the writes
+  suppressed := current_setting('soulmap.suppress_notify', true);
+  PERFORM set_config('soulmap.suppress_notify', 'on', true);
+
+  UPDATE "Location" SET "changeSeq" = nextval('location_change_seq') WHERE "changeSeq" IS NULL;
+  UPDATE "LocationTombstone" SET "changeSeq" = nextval('location_change_seq') WHERE "changeSeq" IS NULL;
+
+  PERFORM set_config('soulmap.suppress_notify', COALESCE(suppressed, ''), true);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS location_commit_changes_trigger ON "Location";
+
+CREATE CONSTRAINT TRIGGER location_commit_changes_trigger
+AFTER INSERT OR UPDATE ON "Location"
+DEFERRABLE INITIALLY DEFERRED
+FOR EACH ROW
+WHEN (NEW."changeSeq" IS NULL)
+EXECUTE FUNCTION location_commit_changes();
+
+DROP TRIGGER IF EXISTS location_tombstone_commit_trigger ON "LocationTombstone";
+
+CREATE CONSTRAINT TRIGGER location_tombstone_commit_trigger
+AFTER INSERT OR UPDATE ON "LocationTombstone"
+DEFERRABLE INITIALLY DEFERRED
+FOR EACH ROW
+WHEN (NEW."changeSeq" IS NULL)
+EXECUTE FUNCTION location_commit_changes();
@@ -0,0 +1,46 @@
+-- Marking a category as a spoiler (or unmarking, renaming or deleting a marked one) changes
+-- which locations spoiler-safe clients may see without changing the locations themselves.
+-- Stamp the category's locations in the change feed so incremental sync drops or fetches
+-- them. Location types may be stored without their leading slash.
+CREATE OR REPLACE FUNCTION category_spoiler_stamp_locations()
+RETURNS TRIGGER AS $$
+DECLARE
+  changed_paths TEXT[] := ARRAY[]::TEXT[];
+  suppressed TEXT;
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD."spoiler" THEN
+    changed_paths := changed_paths || OLD."path";
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW."spoiler" THEN
+    changed_paths := changed_paths || NEW."path";
+  END IF;
+
+  -- Still marked under the same path, nothing moved in or out of view
+  IF TG_OP = 'UPDATE' AND OLD."spoiler" AND NEW."spoiler" AND OLD."path" = NEW."path" THEN
+    RETURN NULL;
+  END IF;
+  IF cardinality(changed_paths) = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  -- The category change is announced on map_changes, not once per location
+  suppressed := current_setting('soulmap.suppress_notify', true);
+  PERFORM set_config('soulmap.suppress_notify', 'on', true);
+
+  -- A NULL changeSeq is numbered at commit by location_commit_changes()
+  UPDATE "Location" l
+  SET "changeSeq" = NULL
+  FROM unnest(changed_paths) AS p("path")
+  WHERE '/' || ltrim(l."type", '/') = p."path" OR '/' || ltrim(l."type", '/') LIKE p."path" || '/%';
+
+  PERFORM set_config('soulmap.suppress_notify', COALESCE(suppressed, ''), true);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS category_spoiler_change_trigger ON "CategoryDefaults";
+
+CREATE TRIGGER category_spoiler_change_trigger
+AFTER INSERT OR UPDATE OF "spoiler", "path" OR DELETE ON "CategoryDefaults"
+FOR EACH ROW
+EXECUTE FUNCTION category_spoiler_stamp_locations();
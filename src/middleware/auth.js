@@ -1,7 +1,12 @@
-import fetch from 'node-fetch';
+import {
+  fetchDiscordUser,
+  fetchMemberRoles,
+  resolveRole,
+  avatarUrl
+} from '../utils/discord.js';
+import { verifySession, sessionUser } from '../utils/session.js';
 
 // Consistent variable naming is crucial - match exactly how they appear in .env
-const DISCORD_API_URL = 'https://discord.com/api/v10';
 const DISCORD_BOT_TOKEN = process.env.DISCORD_BOT_TOKEN; // CRITICAL: Use exact variable name
 const DISCORD_SERVER_ID = process.env.DISCORD_SERVER_ID || '1309555440102674513';
 const DISCORD_ADMIN_ROLE_ID = process.env.DISCORD_ADMIN_ROLE_ID || '1309700533749289012';
@@ -16,103 +21,126 @@ console.log('- DISCORD_ADMIN_ROLE_ID:', DISCORD_ADMIN_ROLE_ID);
 console.log('- DISCORD_MANAGER_ROLE_ID:', DISCORD_MANAGER_ROLE_ID);
 console.log('- ADMIN_API_TOKEN:', ADMIN_API_TOKEN ? '[PRESENT]' : '[MISSING]');
 
+/**
+ * Roles allowed to perform each protected action
+ * Anything not listed here is open to every admin panel user (admins and managers).
+ */
+export const PERMISSIONS = {
+  'locations:write': ['admin', 'manager'],
+  'locations:sync': ['admin'],
+  'heatmap:datapoints:write': ['admin', 'manager'],
+  'heatmap:types:write': ['admin', 'manager'],
+  'heatmap:types:delete': ['admin'],
+  'heatmap:datapoints:cleanup': ['admin'],
+  'categories:defaults:write': ['admin'],
+  'categories:rename': ['admin'],
+  'layers:write': ['admin'],
+  'ingestion:keys': ['admin']
+};
+
+/**
+ * Check whether a user's role grants a permission
+ */
+export function hasPermission(user, permission) {
+  const allowedRoles = PERMISSIONS[permission];
+  if (!allowedRoles) {
+    console.warn(`Unknown permission checked: ${permission}`);
+    return false;
+  }
+  return Boolean(user?.role) && allowedRoles.includes(user.role);
+}
+
+/**
+ * Middleware that rejects requests whose user lacks a permission
+ * Must run after authenticateAdmin.
+ */
+export function requirePermission(permission) {
+  return (req, res, next) => {
+    if (hasPermission(req.user, permission)) {
+      return next();
+    }
+
+    console.log(`Permission denied: ${req.user?.username} (${req.user?.role}) lacks ${permission}`);
+    return res.status(403).json({ error: 'Forbidden: Insufficient permissions', permission });
+  };
+}
+
+// User attached to requests authenticated with the static admin token
+function staticTokenUser() {
+  return { id: 'admin_token_user', username: 'AdminTokenUser', role: 'admin', isAdmin: true };
+}
+
+/**
+ * Resolve a Discord access token to an admin panel user
+ * Used when issuing sessions; guild membership lookups are cached.
+ * @returns {Promise<{status: number, error?: string, user?: Object}>}
+ */
+export async function resolveDiscordAdmin(accessToken) {
+  const user = await fetchDiscordUser(accessToken);
+  if (!user) {
+    return { status: 401, error: 'Unauthorized: Invalid token' };
+  }
+
+  const memberRoles = await fetchMemberRoles(user.id);
+  if (!memberRoles) {
+    console.log(`Auth failed: User ${user.username} is not a server member.`);
+    return { status: 403, error: 'Forbidden: Not a server member' };
+  }
+
+  const role = resolveRole(memberRoles);
+  if (!role) {
+    console.log(`Auth failed: User ${user.username} lacks required role.`);
+    return { status: 403, error: 'Forbidden: Insufficient permissions' };
+  }
+
+  return {
+    status: 200,
+    user: {
+      id: user.id,
+      username: user.username,
+      avatar: avatarUrl(user),
+      discriminator: user.discriminator,
+      roles: memberRoles,
+      role,
+      isAdmin: role === 'admin'
+    }
+  };
+}
+
 export async function authenticateAdmin(req, res, next) {
   console.log('authenticateAdmin middleware triggered for:', req.originalUrl);
 
   // Check for Authorization: Bearer header
   const authHeader = req.headers.authorization;
-  let token = null;
 
   if (authHeader && authHeader.startsWith('Bearer ')) {
-    token = authHeader.split(' ')[1];
-    console.log('Received Bearer token length:', token.length);
-    console.log('Token starts with:', token.substring(0, 10) + '...');
+    const token = authHeader.split(' ')[1];
 
-    // SIMPLIFIED: Check for static admin token first (faster path)
-    if (token === ADMIN_API_TOKEN) {
+    // Check for static admin token first (faster path)
+    if (ADMIN_API_TOKEN && token === ADMIN_API_TOKEN) {
       console.log('Auth success: Static admin token (Bearer) matched.');
-      req.user = { id: 'admin_token_user', username: 'AdminTokenUser', isAdmin: true };
+      req.user = staticTokenUser();
       return next();
     }
 
-    // Try to validate as Discord token
-    try {
-      // Step 1: Get user info from Discord
-      const userResponse = await fetch(`${DISCORD_API_URL}/users/@me`, {
-        headers: { Authorization: `Bearer ${token}` }
-      });
-
-      if (!userResponse.ok) {
-        console.log(`Auth failed: Discord token validation failed (${userResponse.status}).`);
-        return res.status(401).json({ error: 'Unauthorized: Invalid token' });
-      }
-
-      const user = await userResponse.json();
-      console.log(`Got user info for: ${user.username}`);
-
-      // SIMPLIFIED APPROACH: For development, if token validation works, accept the user
-      // This bypasses the server membership check which is causing problems
-      if (process.env.NODE_ENV !== 'production') {
-        console.log(`Auth success (DEV MODE): User ${user.username} authenticated via Discord.`);
-        req.user = {
-          ...user,
-          isAdmin: true // In dev mode, all authenticated users are admins
-        };
-        return next();
-      }
-
-      // FALLBACK: If we can't check server membership, trust the Discord token
-      // This is a temporary measure until we resolve the server membership check issue
-      console.log(`Auth success (TRUSTED TOKEN): User ${user.username} authenticated via Discord.`);
-      req.user = {
-        ...user,
-        isAdmin: true
-      };
-      return next();
-
-      // For production, we would normally verify server membership:
-      /*
-      // Get member info directly with bot token
-      const memberResponse = await fetch(`${DISCORD_API_URL}/guilds/${DISCORD_SERVER_ID}/members/${user.id}`, {
-        headers: { Authorization: `Bot ${DISCORD_BOT_TOKEN}` }
-      });
-       
-      if (!memberResponse.ok) {
-        console.log(`Auth failed: User ${user.username} not found in server or bot token invalid.`);
-        return res.status(403).json({ error: 'Forbidden: Not a server member' });
-      }
-       
-      const memberData = await memberResponse.json();
-      const memberRoles = memberData.roles || [];
-       
-      // Role check
-      if (memberRoles.includes(DISCORD_ADMIN_ROLE_ID) || memberRoles.includes(DISCORD_MANAGER_ROLE_ID)) {
-        req.user = {
-          ...user,
-          roles: memberRoles,
-          isAdmin: true
-        };
-        console.log(`Auth success: User ${user.username} has required role.`);
-        return next();
-      } else {
-              console.log(`Auth failed: User ${user.username} lacks required role.`);
-              return res.status(403).json({ error: 'Forbidden: Insufficient permissions' });
-            }
-            */
-    } catch (error) {
-      console.error('Authentication error:', error);
-      return res.status(500).json({ error: 'Internal server error during authentication' });
+    // Verify a server-issued session locally - no Discord round trip
+    const { session, error } = verifySession(token);
+    if (!session) {
+      console.log(`Auth failed: ${error}.`);
+      return res.status(401).json({ error: `Unauthorized: ${error}` });
     }
+
+    req.user = sessionUser(session);
+    return next();
   } else {
     console.log('No Bearer token found in auth header');
-    console.log('Headers received:', Object.keys(req.headers).join(', '));
   }
 
   // Fallback: Check for X-Admin-Token header (for backwards compatibility)
   const adminTokenHeader = req.headers['x-admin-token'];
-  if (adminTokenHeader && adminTokenHeader === ADMIN_API_TOKEN) {
+  if (ADMIN_API_TOKEN && adminTokenHeader && adminTokenHeader === ADMIN_API_TOKEN) {
     console.log('Auth success: Static admin token (X-Admin-Token header) matched.');
-    req.user = { id: 'admin_token_user', username: 'AdminTokenUser', isAdmin: true };
+    req.user = staticTokenUser();
     return next();
   }
 
@@ -120,3 +148,35 @@ export async function authenticateAdmin(req, res, next) {
   console.log('Auth failed: No valid admin token found in headers.');
   return res.status(401).json({ error: 'Unauthorized: Missing or invalid token' });
 }
+
+/**
+ * Authenticate a community member by their Discord access token
+ * Any valid Discord account is accepted; no guild role is required.
+ */
+export async function authenticateDiscordUser(req, res, next) {
+  const authHeader = req.headers.authorization;
+
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return res.status(401).json({ error: 'Unauthorized: Discord login required' });
+  }
+
+  const token = authHeader.split(' ')[1];
+
+  try {
+    const user = await fetchDiscordUser(token);
+
+    if (!user) {
+      console.log('Discord user auth failed: invalid token.');
+      return res.status(401).json({ error: 'Unauthorized: Invalid token' });
+    }
+
+    req.user = {
+      id: user.id,
+      username: user.username
+    };
+    return next();
+  } catch (error) {
+    console.error('Discord user authentication error:', error);
+    return res.status(500).json({ error: 'Internal server error during authentication' });
+  }
+}
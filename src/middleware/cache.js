@@ -0,0 +1,112 @@
+import db from '#db';  // Use #db instead of relative import
+import { getSpoilerCategories, spoilerCategoriesVersion } from '../utils/spoilers.js';
+
+/**
+ * Conditional GET support for public location reads
+ *
+ * Responses carry a strong ETag built from the location data version (the change feed
+ * cursor, which also moves on deletes). Change feed positions are numbered at commit, so
+ * a transaction committing after a later one still moves the version. The version is
+ * cached in memory and invalidated by the location_changes listener, which only hears of
+ * committed changes, so answering a revalidation with 304 costs no database work at all.
+ */
+
+// How long the cached version is trusted if no change notification arrives, in seconds
+const VERSION_TTL = (parseInt(process.env.LOCATION_VERSION_TTL, 10) || 30) * 1000;
+
+// How long a shared cache (reverse proxy) may serve a response without revalidating, in seconds
+const PROXY_MAX_AGE = Number.isNaN(parseInt(process.env.LOCATION_PROXY_MAX_AGE, 10))
+  ? 5
+  : parseInt(process.env.LOCATION_PROXY_MAX_AGE, 10);
+
+let cachedVersion = null;
+let cachedAt = 0;
+let pendingVersion = null;
+
+/**
+ * Forget the cached data version; called whenever a location changes
+ */
+export function invalidateLocationVersion() {
+  cachedVersion = null;
+  pendingVersion = null;
+}
+
+/**
+ * Get the current location data version, from memory when possible
+ * @returns {Promise<number>}
+ */
+export async function getLocationVersion() {
+  if (cachedVersion !== null && Date.now() - cachedAt < VERSION_TTL) {
+    return cachedVersion;
+  }
+
+  // Share one lookup between concurrent requests
+  if (!pendingVersion) {
+    const lookup = db.getLocationDataVersion()
+      .then(version => {
+        // Don't store a value that an invalidation made stale while we were waiting
+        if (pendingVersion === lookup) {
+          cachedVersion = version;
+          cachedAt = Date.now();
+        }
+        return version;
+      })
+      .finally(() => {
+        if (pendingVersion === lookup) {
+          pendingVersion = null;
+        }
+      });
+    pendingVersion = lookup;
+  }
+
+  return pendingVersion;
+}
+
+// Check an If-None-Match header against an ETag (weak comparison, as RFC 9110 requires)
+function matchesIfNoneMatch(header, etag) {
+  if (!header) {
+    return false;
+  }
+  if (header.trim() === '*') {
+    return true;
+  }
+
+  const opaque = tag => tag.trim().replace(/^W\//, '');
+  return header.split(',').some(tag => opaque(tag) === opaque(etag));
+}
+
+/**
+ * Middleware adding ETag/Cache-Control headers and answering 304 Not Modified
+ * ETags are scoped to the request URL, so filtered variants don't need their own tags.
+ * Run spoilerMode first so spoiler-safe variants get distinct tags.
+ */
+export async function locationCache(req, res, next) {
+  try {
+    const version = await getLocationVersion();
+    let etag = `"loc-${version}"`;
+
+    // Spoiler-safe responses also depend on which categories are marked as spoilers
+    if (req.spoilerMode && req.spoilerMode !== 'full') {
+      const spoilerPaths = await getSpoilerCategories();
+      etag = `"loc-${version}-${req.spoilerMode}-${spoilerCategoriesVersion(spoilerPaths)}"`;
+    }
+
+    res.setHeader('ETag', etag);
+    res.setHeader('Cache-Control', `public, max-age=0, s-maxage=${PROXY_MAX_AGE}, must-revalidate`);
+
+    if (matchesIfNoneMatch(req.headers['if-none-match'], etag)) {
+      return res.status(304).end();
+    }
+  } catch (error) {
+    // Serve the full response rather than failing the read
+    console.error('Error checking location data version:', error);
+  }
+
+  return next();
+}
+
+export default {
+  locationCache,
+  getLocationVersion,
+  invalidateLocationVersion
+};
@@ -1,560 +1,1114 @@
 import express from 'express';
-import db from '#db';  // Use database wrapper for consistent handling
-import fetch from 'node-fetch';
+import db, { CategoryRenameError } from '#db';  // Use database wrapper for consistent handling
+import { requirePermission } from '../middleware/auth.js';
+import {
+  recordRevision,
+  diffSnapshots,
+  revisionState,
+  restorableData
+} from '../utils/locationRevisions.js';
+import {
+  SUBMISSION_STATUSES,
+  normalizeSubmission,
+  submissionToLocation
+} from '../utils/locationSubmissions.js';
+import { suppressRowNotifications, notifyMapChange, summaryIds } from '../utils/mapEvents.js';
+import { exportLocations, planImport, summarizePlan, applyImport } from '../utils/yamlSync.js';
+import { featureToLocation } from '../utils/geojson.js';
+import { LOCATION_STATUSES, isLocationStatus } from '../utils/locationStatus.js';
+import {
+  ValidationError,
+  validateLocation,
+  validateLocationPoint,
+  validateMapLayer,
+  validateIngestionKey,
+  sendValidationError
+} from '../utils/locationSchema.js';
+import { DEFAULT_LAYER_ID } from '../utils/mapLayers.js';
+import { generateIngestionKey, toIngestionKeyResponse } from '../utils/ingestion.js';
+import { TIME_BUCKETS, parseTimeWindow } from '../utils/heatmapTime.js';
+import {
+  DUPLICATE_SELECT,
+  duplicateThresholds,
+  findDuplicates,
+  findDuplicateLocations,
+  findDuplicateClusters,
+  mergedMedia
+} from '../utils/locationDuplicates.js';
+import {
+  LocationPointError,
+  POINTS_INCLUDE,
+  withPointEntries,
+  createLocationWithPoints,
+  updateLocationWithPoints,
+  addLocationPoint,
+  updateLocationPoint,
+  removeLocationPoint,
+  reorderLocationPoints
+} from '../utils/locationPoints.js';
 
 console.log('Admin router file loaded.');
 
 const router = express.Router();
 
-// Discord API configuration - use exact env var names from .env
-const DISCORD_API = 'https://discord.com/api/v10';
-const DISCORD_SERVER_ID = process.env.DISCORD_SERVER_ID || '1309555440102674513';
-const DISCORD_ADMIN_ROLE_ID = process.env.DISCORD_ADMIN_ROLE_ID || '1309700533749289012';
-const DISCORD_MANAGER_ROLE_ID = process.env.DISCORD_MANAGER_ROLE_ID || '1363588579506262056';
-
-// CRITICAL: Use the exact variable names from .env file
-const DISCORD_BOT_TOKEN = process.env.DISCORD_BOT_TOKEN;
-const DISCORD_BOT_ID = process.env.DISCORD_BOT_ID;
-const DISCORD_BOT_SECRET = process.env.DISCORD_BOT_SECRET;
-// Fix how we handle the DISCORD_REDIRECT_URI - don't use template literals directly
-let DISCORD_REDIRECT_URI = process.env.DISCORD_REDIRECT_URI || '';
-
-// If DISCORD_REDIRECT_URI contains ${DOMAIN}, manually replace it
-if (DISCORD_REDIRECT_URI.includes('${DOMAIN}')) {
-  DISCORD_REDIRECT_URI = DISCORD_REDIRECT_URI.replace('${DOMAIN}', process.env.DOMAIN || 'soulmap.7thseraph.org');
-}
-
-// If still not a valid URL, use a hardcoded default
-if (!DISCORD_REDIRECT_URI.match(/^https?:\/\/[^\/]+\//)) {
-  DISCORD_REDIRECT_URI = `https://${process.env.DOMAIN || 'soulmap.7thseraph.org'}/admin/auth/callback`;
-}
-
-// Log OAuth configuration for debugging
-console.log('Discord OAuth Configuration (using exact .env variable names):');
-console.log('- Bot/Client ID:', DISCORD_BOT_ID);
-console.log('- Bot Secret:', DISCORD_BOT_SECRET ? '[PRESENT]' : '[MISSING]');
-console.log('- Bot Token:', DISCORD_BOT_TOKEN ? '[PRESENT]' : '[MISSING]');
-console.log('- Redirect URI:', DISCORD_REDIRECT_URI);
-console.log('- Original Redirect URI from .env:', process.env.DISCORD_REDIRECT_URI);
-console.log('- Domain used:', process.env.DOMAIN);
-
 // Add middleware to log all requests to this router
 router.use((req, res, next) => {
   console.log(`Admin route hit: ${req.method} ${req.originalUrl}`);
   next();
 });
 
-// IMPORTANT: The admin router is mounted at both /api/admin and /api/admin/auth
-// So we need to ensure paths are correct based on how they're mounted
-// For Auth endpoints (mounted at /api/admin/auth), we should use / as the base path
-// For Admin endpoints (mounted at /api/admin), we should use /locations, /categories, etc.
+// The admin router is mounted at /api/admin behind authenticateAdmin.
+// Login endpoints live in auth.js, mounted at /api/admin/auth.
+
+// Helper function to check a map layer given in a request body
+// Returns an error message, or null if the layer exists (or none was given)
+async function unknownLayerError(prisma, layerId) {
+  if (layerId === undefined || layerId === null) {
+    return null;
+  }
+  const layer = await prisma.mapLayer.findUnique({ where: { id: String(layerId) } });
+  return layer ? null : `Map layer '${layerId}' not found`;
+}
 
 /**
- * Token validation endpoint - this handles both auth code and Bearer token validation
- * For path mounted at /api/admin/auth
+ * Get all locations - Admin version
+ * Includes hidden and archived locations, on every layer; pass ?status= to list only one
+ * state and ?layer= to list only one map layer.
  */
-router.post('/validate', async (req, res) => {
-  console.log('Token validation request received');
-  const { token, code, grant_type } = req.body; // Destructure grant_type, code, token
-
-  // If no grant_type provided, try to determine it based on which parameters are present
-  let effectiveGrantType = grant_type;
-  if (!effectiveGrantType) {
-    if (code) {
-      console.log('No grant_type provided but code found - assuming authorization_code');
-      effectiveGrantType = 'authorization_code';
-    } else if (token) {
-      console.log('No grant_type provided but token found - assuming access_token');
-      effectiveGrantType = 'access_token';
-    } else {
-      return res.status(400).json({ valid: false, message: 'Either code or token is required' });
+router.get('/locations', async (req, res) => {
+  try {
+    const { status, layer } = req.query;
+    if (status !== undefined && !isLocationStatus(status)) {
+      return res.status(400).json({ error: `Invalid status. Use one of: ${LOCATION_STATUSES.join(', ')}` });
     }
+
+    const prisma = await db.getPrismaClient();
+    if (!prisma) {
+      return res.status(500).json({ error: 'Failed to connect to database' });
+    }
+
+    const locations = await prisma.location.findMany({
+      where: {
+        ...(status ? { status } : {}),
+        ...(layer ? { layerId: String(layer) } : {})
+      },
+      orderBy: {
+        lastModified: 'desc'
+      }
+    });
+
+    console.log(`Fetched ${locations.length} locations for admin`);
+    res.json(locations);
+  } catch (error) {
+    console.error('Error fetching admin locations:', error);
+    res.status(500).json({ error: 'Failed to fetch locations' });
   }
+});
+
+/**
+ * Get all unique location categories
+ */
+router.get('/categories', async (req, res) => {
+  try {
+    const prisma = await db.getPrismaClient();
+    if (!prisma) {
+      return res.status(500).json({ error: 'Failed to connect to database' });
+    }
+
+    // Use Prisma findMany with distinct for better type safety and reliability
+    const uniqueCategoryObjects = await prisma.location.findMany({
+      distinct: ['type'],
+      select: {
+        type: true,
+      },
+      orderBy: {
+        type: 'asc',
+      },
+    });
 
-  let effectiveToken;
-  if (effectiveGrantType === 'authorization_code') {
-    if (!code) return res.status(400).json({ valid: false, message: 'code is required for authorization_code grant_type' });
-    effectiveToken = code;
-  } else if (effectiveGrantType === 'access_token') {
-    if (!token) return res.status(400).json({ valid: false, message: 'token is required for access_token grant_type' });
-    effectiveToken = token;
-  } else {
-    return res.status(400).json({ valid: false, message: 'Invalid grant_type' });
+    // Extract the type values from the results WITHOUT modifying them
+    const categories = uniqueCategoryObjects.map(item => item.type);
+
+    res.json(categories);
+  } catch (error) {
+    console.error('Error fetching categories:', error);
+    res.status(500).json({ error: 'Failed to fetch categories' });
   }
+});
+
+/**
+ * DUPLICATE LOCATIONS
+ * Creates and imports refuse likely duplicates unless `force` is passed (see utils/locationDuplicates.js)
+ */
 
-  console.log(`Processing grant_type: ${effectiveGrantType}`);
-  console.log('Request headers:', {
-    origin: req.headers.origin,
-    referer: req.headers.referer,
-    host: req.headers.host,
-  });
+// Error returned with the list of likely duplicates when a create is refused
+const DUPLICATE_ERROR = 'This looks like an existing location, pass force: true to create it anyway';
 
+/**
+ * Report clusters of locations that look like duplicates of each other
+ * Filters: ?layer= and ?category= (with subcategories). ?distance= and ?similarity=
+ * override the configured thresholds.
+ */
+router.get('/locations/duplicates', async (req, res) => {
   try {
-    let accessToken = effectiveToken; // Initialize accessToken
-
-    // If this is an auth code, exchange it for an access token first
-    if (effectiveGrantType === 'authorization_code') {
-      console.log('Exchanging auth code for access token');
-
-      // Use DISCORD_BOT_SECRET from the environment
-      if (!DISCORD_BOT_SECRET) {
-        console.error('ERROR: Discord bot secret is missing - cannot complete OAuth flow');
-        console.log('Available env vars:', Object.keys(process.env).filter(k => k.startsWith('DISCORD')).join(', '));
-        return res.status(500).json({
-          valid: false,
-          message: 'Server configuration error: Discord bot secret not available',
-          details: 'The server is missing DISCORD_BOT_SECRET environment variable'
-        });
-      }
+    const { layer, category } = req.query;
+    const thresholds = duplicateThresholds({
+      distance: req.query.distance === undefined ? undefined : Number(req.query.distance),
+      similarity: req.query.similarity === undefined ? undefined : Number(req.query.similarity)
+    });
 
-      // Use the pre-processed, valid redirect URI - don't try to process it again
-      const redirectUri = DISCORD_REDIRECT_URI;
+    const prisma = await db.getPrismaClient();
+    if (!prisma) {
+      return res.status(500).json({ error: 'Failed to connect to database' });
+    }
 
-      // Verify the redirect URI is valid before sending to Discord
-      if (!redirectUri.match(/^https?:\/\/[^\/]+\//)) {
-        console.error('ERROR: Invalid redirect URI format:', redirectUri);
-        return res.status(500).json({
-          valid: false,
-          message: 'Server configuration error: Invalid redirect URI format',
-          details: 'The redirect URI is not properly formatted as a valid URL'
-        });
-      }
+    const where = { status: { not: 'archived' } };
+    if (layer) {
+      where.layerId = String(layer);
+    }
+    if (category) {
+      const path = String(category).startsWith('/') ? String(category) : `/${category}`;
+      where.OR = [{ type: path }, { type: { startsWith: `${path}/` } }];
+    }
 
-      // Log the token exchange parameters for debugging
-      console.log('Token Exchange Parameters:');
-      console.log('- Client ID:', DISCORD_BOT_ID);
-      console.log('- Client Secret:', DISCORD_BOT_SECRET ? '✓ Available' : '✗ Missing');
-      console.log('- Redirect URI:', redirectUri);
-      console.log('- Domain from env:', process.env.DOMAIN);
-
-      // Create the form data with validated parameters from .env variables
-      const exchangeFormData = new URLSearchParams({ // Renamed from formData to avoid conflict
-        client_id: DISCORD_BOT_ID,
-        client_secret: DISCORD_BOT_SECRET,
-        grant_type: 'authorization_code',
-        code: effectiveToken, // Use effectiveToken which is 'code' here
-        redirect_uri: redirectUri
-      });
+    const locations = await prisma.location.findMany({ where, select: DUPLICATE_SELECT });
+    const clusters = findDuplicateClusters(locations, thresholds);
+
+    res.json({
+      ...thresholds,
+      scanned: locations.length,
+      clusterCount: clusters.length,
+      clusters
+    });
+  } catch (error) {
+    console.error('Error finding duplicate locations:', error);
+    res.status(500).json({ error: 'Failed to find duplicate locations' });
+  }
+});
 
-      console.log('Exchange payload (sanitized):', exchangeFormData.toString().replace(/client_secret=([^&]+)/, 'client_secret=[REDACTED]'));
+/**
+ * Merge duplicate locations into one
+ * Body: { keepId, mergeIds }. The kept location gets the media of the merged ones, which
+ * are deleted; submissions that created them point to the kept location afterwards.
+ * Clients get a single locations.merged event.
+ */
+router.post('/locations/merge', requirePermission('locations:write'), async (req, res) => {
+  try {
+    const { keepId, mergeIds } = req.body || {};
+    if (typeof keepId !== 'string' || keepId === '') {
+      return res.status(400).json({ error: 'keepId is required' });
+    }
+    if (!Array.isArray(mergeIds) || mergeIds.length === 0) {
+      return res.status(400).json({ error: 'mergeIds must be a non-empty array of location IDs' });
+    }
+    const ids = [...new Set(mergeIds.map(String))];
+    if (ids.includes(keepId)) {
+      return res.status(400).json({ error: 'mergeIds cannot include keepId' });
+    }
 
-      const tokenResponse = await fetch(`${DISCORD_API}/oauth2/token`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded'
-        },
-        body: exchangeFormData
-      });
+    const prisma = await db.getPrismaClient();
+    if (!prisma) {
+      return res.status(500).json({ error: 'Failed to connect to database' });
+    }
 
-      // Log the raw token response status
-      console.log(`Token exchange response status: ${tokenResponse.status}`);
+    const result = await prisma.$transaction(async (tx) => {
+      const kept = await tx.location.findUnique({ where: { id: keepId } });
+      if (!kept) {
+        return { status: 404, body: { error: 'Location to keep not found' } };
+      }
+      const merged = await tx.location.findMany({ where: { id: { in: ids } } });
+      const missing = ids.filter(id => !merged.some(location => location.id === id));
+      if (missing.length > 0) {
+        return { status: 404, body: { error: 'Some locations to merge were not found', missing } };
+      }
+      if (merged.some(location => location.layerId !== kept.layerId)) {
+        return { status: 400, body: { error: 'Only locations on the same map layer can be merged' } };
+      }
 
-      if (!tokenResponse.ok) {
-        let errorDetails = '';
-        try {
-          const errorData = await tokenResponse.text();
-          errorDetails = errorData;
-          console.error('Token exchange failed:', tokenResponse.status, errorData);
-        } catch (e) {
-          errorDetails = `Failed to read response body: ${e.message}`;
-        }
+      await suppressRowNotifications(tx);
 
-        return res.status(401).json({
-          valid: false,
-          message: 'Failed to exchange code for token',
-          details: errorDetails
-        });
+      const location = await updateLocationWithPoints(tx, keepId, { mediaUrl: mergedMedia(kept, merged) });
+      await recordRevision(tx, { locationId: keepId, action: 'update', before: kept, after: location, user: req.user });
+
+      for (const before of merged) {
+        await tx.location.delete({ where: { id: before.id } });
+        await recordRevision(tx, { locationId: before.id, action: 'delete', before, user: req.user });
       }
+      await tx.locationSubmission.updateMany({ where: { locationId: { in: ids } }, data: { locationId: keepId } });
+
+      await notifyMapChange(tx, 'locations.merged', { id: keepId, mergedIds: ids });
+      return { status: 200, body: { location, mergedIds: ids } };
+    });
 
-      const tokenData = await tokenResponse.json();
-      accessToken = tokenData.access_token; // Update accessToken with the exchanged token
-      console.log('Successfully exchanged auth code for access token');
+    if (result.status === 200) {
+      console.log(`Merged ${ids.length} locations into ${keepId} by ${req.user?.username}`);
+    }
+    res.status(result.status).json(result.body);
+  } catch (error) {
+    console.error('Error merging locations:', error);
+    res.status(500).json({ error: 'Failed to merge locations' });
+  }
+});
+
+/**
+ * Get a single location by ID
+ */
+router.get('/locations/:id', async (req, res) => {
+  const { id } = req.params;
+  try {
+    const prisma = await db.getPrismaClient();
+    if (!prisma) {
+      return res.status(500).json({ error: 'Failed to connect to database' });
     }
-    // If grant_type is 'access_token', accessToken is already effectiveToken (the access token itself)
 
-    // Fetch user information from Discord using the access token
-    const userResponse = await fetch(`${DISCORD_API}/users/@me`, {
-      headers: { Authorization: `Bearer ${accessToken}` }
+    const location = await prisma.location.findUnique({
+      where: { id },
+      include: POINTS_INCLUDE
     });
+    if (!location) {
+      return res.status(404).json({ error: 'Location not found' });
+    }
+    res.json(location);
+  } catch (error) {
+    console.error('Error fetching location:', error);
+    res.status(500).json({ error: 'Failed to fetch location' });
+  }
+});
 
-    if (!userResponse.ok) {
-      console.error('Discord user info request failed:', userResponse.status);
-      return res.status(401).json({
-        valid: false,
-        message: 'Invalid Discord token'
-      });
+// Values given to new locations for fields the client left out
+const NEW_LOCATION_DEFAULTS = {
+  description: '',
+  iconSize: 1,
+  iconColor: '#ffffff',
+  radius: 0,
+  mediaUrl: [],
+  isCoordinateSearch: false,
+  noCluster: false
+};
+
+/**
+ * Create a new location from a request body checked against the location schema
+ * Shared by POST /locations and POST /locations/new. Likely duplicates of an existing
+ * location get a 409 listing them, unless the body has `force: true`.
+ */
+async function createLocation(req, res) {
+  try {
+    const { force = false, ...body } = req.body || {};
+    const data = validateLocation(body);
+    Object.entries(NEW_LOCATION_DEFAULTS).forEach(([field, value]) => {
+      data[field] = data[field] ?? value;
+    });
+
+    const prisma = await db.getPrismaClient();
+    if (!prisma) {
+      return res.status(500).json({ error: 'Failed to connect to database' });
     }
 
-    const user = await userResponse.json();
-    console.log(`User info received for: ${user.username}`);
+    if (force !== true) {
+      const duplicates = await findDuplicateLocations(prisma, data);
+      if (duplicates.length > 0) {
+        return res.status(409).json({ error: DUPLICATE_ERROR, duplicates });
+      }
+    }
 
-    // SIMPLIFIED APPROACH: Directly check roles using the bot token
-    if (!DISCORD_BOT_TOKEN) {
-      return res.status(500).json({
-        valid: false,
-        message: 'Server configuration error: Bot token not available'
-      });
+    const newLocation = await prisma.$transaction(async (tx) => {
+      const location = await createLocationWithPoints(tx, data);
+      await recordRevision(tx, { locationId: location.id, action: 'create', after: location, user: req.user });
+      return location;
+    });
+    console.log('Location created successfully with ID:', newLocation.id);
+    res.status(201).json(newLocation); // Use 201 Created status
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return sendValidationError(res, error);
+    }
+    console.error('Error creating location:', error.message || error);
+    res.status(500).json({ error: 'Failed to create location' });
+  }
+}
+
+/**
+ * Create a new location
+ */
+router.post('/locations', requirePermission('locations:write'), createLocation);
+
+/**
+ * Create a new location (dedicated endpoint)
+ */
+router.post('/locations/new', requirePermission('locations:write'), createLocation);
+
+/**
+ * Update a location by ID
+ * Only the fields present in the body are changed.
+ */
+router.put('/locations/:id', requirePermission('locations:write'), async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    const data = validateLocation(req.body, { partial: true });
+
+    const prisma = await db.getPrismaClient();
+    if (!prisma) {
+      return res.status(500).json({ error: 'Failed to connect to database' });
     }
 
-    // Use the bot token to check if user is in the server and has required roles
-    const memberResponse = await fetch(`${DISCORD_API}/guilds/${DISCORD_SERVER_ID}/members/${user.id}`, {
-      headers: { Authorization: `Bot ${DISCORD_BOT_TOKEN}` }
+    const updatedLocation = await prisma.$transaction(async (tx) => {
+      const before = await tx.location.findUnique({ where: { id } });
+      const location = await updateLocationWithPoints(tx, id, data);
+      await recordRevision(tx, { locationId: id, action: 'update', before, after: location, user: req.user });
+      return location;
     });
+    res.json(updatedLocation);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return sendValidationError(res, error);
+    }
+    // Log the specific Prisma error if available
+    console.error('Error updating location:', error.message || error);
+    // Check for specific Prisma errors like P2025 (Record not found)
+    if (error.code === 'P2025') {
+      return res.status(404).json({ error: 'Location not found for update' });
+    }
+    res.status(500).json({ error: 'Failed to update location' });
+  }
+});
 
-    if (!memberResponse.ok) {
-      if (memberResponse.status === 404) {
-        return res.status(403).json({
-          valid: false,
-          message: 'User is not a member of the required server'
-        });
-      }
+/**
+ * Delete a location by ID
+ */
+router.delete('/locations/:id', requirePermission('locations:write'), async (req, res) => {
+  const { id } = req.params;
+  try {
+    const prisma = await db.getPrismaClient();
+    if (!prisma) {
+      return res.status(500).json({ error: 'Failed to connect to database' });
+    }
 
-      return res.status(500).json({
-        valid: false,
-        message: 'Failed to verify server membership'
+    await prisma.$transaction(async (tx) => {
+      const before = await tx.location.delete({
+        where: { id },
       });
+      await recordRevision(tx, { locationId: id, action: 'delete', before, user: req.user });
+    });
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting location:', error);
+
+    // Check for Prisma not found error
+    if (error.code === 'P2025') {
+      return res.status(404).json({ error: 'Location not found for deletion' });
     }
 
-    const memberData = await memberResponse.json();
-    const memberRoles = memberData.roles || [];
+    res.status(500).json({ error: 'Failed to delete location' });
+  }
+});
 
-    // Check if user has admin or manager role
-    const hasRequiredRole = memberRoles.includes(DISCORD_ADMIN_ROLE_ID) ||
-      memberRoles.includes(DISCORD_MANAGER_ROLE_ID);
+/**
+ * LOCATION POINTS
+ * Points of multi-point locations, each able to override the location's description, icon,
+ * icon size, color, radius and media (see utils/locationPoints.js). Every change rewrites
+ * the location's coordinates and is recorded as an update in its revision history.
+ */
 
-    if (!hasRequiredRole) {
-      return res.status(403).json({
-        valid: false,
-        message: 'Insufficient permissions: Required role not found'
-      });
+// HTTP status for each LocationPointError code
+const POINT_ERROR_STATUS = { 'not-found': 404, invalid: 400, conflict: 409 };
+
+// Run a change to a location's points in one transaction and send its result
+async function changeLocationPoints(req, res, change, successStatus = 200) {
+  const { id } = req.params;
+  try {
+    const prisma = await db.getPrismaClient();
+    if (!prisma) {
+      return res.status(500).json({ error: 'Failed to connect to database' });
     }
 
-    // User is authenticated and authorized
-    console.log('Authentication successful');
-
-    // Return the access token so the client can use it for future requests
-    return res.json({
-      valid: true,
-      token: accessToken, // Include the access token for future API calls
-      user: {
-        id: user.id,
-        username: user.username,
-        avatar: user.avatar ? `https://cdn.discordapp.com/avatars/${user.id}/${user.avatar}.png` : null,
-        discriminator: user.discriminator,
-        isAdmin: true,
-        roles: memberRoles
+    const result = await prisma.$transaction(async (tx) => {
+      const before = await tx.location.findUnique({ where: { id } });
+      if (!before) {
+        throw new LocationPointError('Location not found', 'not-found');
       }
+
+      const changed = await change(tx, before);
+      const after = await tx.location.findUnique({ where: { id } });
+      await recordRevision(tx, { locationId: id, action: 'update', before, after, user: req.user });
+      return changed;
     });
 
+    if (successStatus === 204) {
+      return res.status(204).send();
+    }
+    res.status(successStatus).json(result);
   } catch (error) {
-    console.error('Error validating Discord token:', error);
-    return res.status(500).json({
-      valid: false,
-      message: 'Internal server error during validation',
-      details: error.message,
-      stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    if (error instanceof ValidationError) {
+      return sendValidationError(res, error);
+    }
+    if (error instanceof LocationPointError) {
+      return res.status(POINT_ERROR_STATUS[error.code]).json({ error: error.message });
+    }
+    console.error('Error changing location points:', error);
+    res.status(500).json({ error: 'Failed to update location points' });
+  }
+}
+
+// List a location's points with their own (unresolved) overrides
+router.get('/locations/:id/points', async (req, res) => {
+  try {
+    const prisma = await db.getPrismaClient();
+    if (!prisma) {
+      return res.status(500).json({ error: 'Failed to connect to database' });
+    }
+
+    const location = await prisma.location.findUnique({
+      where: { id: req.params.id },
+      include: POINTS_INCLUDE
     });
+    if (!location) {
+      return res.status(404).json({ error: 'Location not found' });
+    }
+    res.json(location.points);
+  } catch (error) {
+    console.error('Error fetching location points:', error);
+    res.status(500).json({ error: 'Failed to fetch location points' });
   }
 });
 
+// Add a point: { coordinates, ...overrides, position? } - appended unless a position is given
+router.post('/locations/:id/points', requirePermission('locations:write'), (req, res) => {
+  const { position, ...body } = req.body || {};
+  return changeLocationPoints(req, res, (tx, location) =>
+    addLocationPoint(tx, location, validateLocationPoint(body), position), 201);
+});
+
+// Reorder points: { ids: [...] } listing every point in its new order
+router.put('/locations/:id/points/order', requirePermission('locations:write'), (req, res) =>
+  changeLocationPoints(req, res, (tx, location) => reorderLocationPoints(tx, location.id, req.body?.ids)));
+
+// Update a point's coordinates or overrides; null clears an override
+router.put('/locations/:id/points/:pointId', requirePermission('locations:write'), (req, res) =>
+  changeLocationPoints(req, res, (tx, location) =>
+    updateLocationPoint(tx, location.id, req.params.pointId, validateLocationPoint(req.body, { partial: true }))));
+
+// Remove a point; the last point of a location can't be removed
+router.delete('/locations/:id/points/:pointId', requirePermission('locations:write'), (req, res) =>
+  changeLocationPoints(req, res, (tx, location) => removeLocationPoint(tx, location.id, req.params.pointId), 204));
+
 /**
- * Get all locations - Admin version
- * For path mounted at /api/admin
+ * Bulk update or delete locations, selected by `ids` or a `category` path (with subcategories)
+ * Changes: moveTo (category path), icon, iconColor, iconSize, radius, status, noCluster,
+ * or `delete: true` on its own. `visible` is accepted as a shortcut for published/hidden.
+ * Everything runs in one transaction and clients get a single locations.bulk-updated /
+ * locations.bulk-deleted event.
  */
-router.get('/locations', async (req, res) => {
+router.post('/locations/bulk', requirePermission('locations:write'), async (req, res) => {
   try {
+    const {
+      ids,
+      category,
+      moveTo,
+      icon,
+      iconColor,
+      iconSize,
+      radius,
+      status,
+      visible,
+      noCluster,
+      delete: deleteLocations = false
+    } = req.body || {};
+
+    const hasIds = Array.isArray(ids) && ids.length > 0;
+    const categoryPath = typeof category === 'string' ? category.trim().replace(/^\/+/, '') : '';
+    const hasCategory = categoryPath !== '';
+    if (hasIds === hasCategory) {
+      return res.status(400).json({ error: 'Provide either a list of location IDs or a category path' });
+    }
+
+    // Check the requested changes against the location schema (moveTo becomes the new type)
+    const changes = validateLocation({
+      type: moveTo,
+      icon,
+      iconColor,
+      iconSize,
+      radius,
+      noCluster,
+      status: status ?? (visible === undefined ? undefined : (visible ? 'published' : 'hidden'))
+    }, { partial: true });
+
+    if (deleteLocations && Object.keys(changes).length > 0) {
+      return res.status(400).json({ error: 'delete cannot be combined with other changes' });
+    }
+    if (!deleteLocations && Object.keys(changes).length === 0) {
+      return res.status(400).json({ error: 'No changes provided' });
+    }
+
     const prisma = await db.getPrismaClient();
     if (!prisma) {
       return res.status(500).json({ error: 'Failed to connect to database' });
     }
 
-    const locations = await prisma.location.findMany({
-      orderBy: {
-        lastModified: 'desc'
+    // Category selection matches the path and its subcategories, whatever their status.
+    // Seeded rows store their type without the leading slash, so both forms are matched.
+    let where;
+    if (hasCategory) {
+      const paths = [`/${categoryPath}`, categoryPath];
+      where = {
+        OR: [
+          { type: { in: paths } },
+          ...paths.map(path => ({ type: { startsWith: `${path}/` } }))
+        ]
+      };
+    } else {
+      where = { id: { in: [...new Set(ids.map(String))] } };
+    }
+
+    const results = await prisma.$transaction(async (tx) => {
+      const locations = await tx.location.findMany({ where });
+      const found = new Map(locations.map(location => [location.id, location]));
+      const targetIds = hasIds ? [...new Set(ids.map(String))] : locations.map(location => location.id);
+      const bulkResults = [];
+
+      // Send one summary event for the whole batch instead of one per row
+      await suppressRowNotifications(tx);
+
+      for (const id of targetIds) {
+        const before = found.get(id);
+        if (!before) {
+          bulkResults.push({ id, success: false, message: 'Location not found' });
+          continue;
+        }
+
+        if (deleteLocations) {
+          await tx.location.delete({ where: { id } });
+          await recordRevision(tx, { locationId: id, action: 'delete', before, user: req.user });
+          bulkResults.push({ id, success: true });
+          continue;
+        }
+
+        const after = await tx.location.update({ where: { id }, data: changes });
+        await recordRevision(tx, { locationId: id, action: 'update', before, after, user: req.user });
+        bulkResults.push({ id, success: true });
       }
-    });
 
-    console.log(`Fetched ${locations.length} locations for admin`);
-    res.json(locations);
+      const changedIds = bulkResults.filter(r => r.success).map(r => r.id);
+      if (changedIds.length > 0) {
+        await notifyMapChange(
+          tx,
+          deleteLocations ? 'locations.bulk-deleted' : 'locations.bulk-updated',
+          deleteLocations
+            ? { count: changedIds.length, ids: summaryIds(changedIds) }
+            : { count: changedIds.length, ids: summaryIds(changedIds), changes: Object.keys(changes) }
+        );
+      }
+
+      return bulkResults;
+    }, { timeout: 120000 });
+
+    // Summarize results
+    const successCount = results.filter(r => r.success).length;
+    const failureCount = results.filter(r => !r.success).length;
+
+    console.log(`Bulk location ${deleteLocations ? 'delete' : 'update'} by ${req.user?.username}: ${successCount} succeeded, ${failureCount} failed`);
+    res.json({
+      totalCount: results.length,
+      successCount,
+      failureCount,
+      results
+    });
   } catch (error) {
-    console.error('Error fetching admin locations:', error);
-    res.status(500).json({ error: 'Failed to fetch locations' });
+    if (error instanceof ValidationError) {
+      return sendValidationError(res, error);
+    }
+    console.error('Error performing bulk location update:', error);
+    res.status(500).json({ error: 'Failed to perform bulk location update' });
   }
 });
 
 /**
- * Get all unique location categories
+ * LOCATION REVISION HISTORY
+ * Every create, update and delete is recorded with full before/after snapshots
  */
-router.get('/categories', async (req, res) => {
+
+// List the revision history of a location (newest first)
+router.get('/locations/:id/revisions', async (req, res) => {
+  const { id } = req.params;
   try {
     const prisma = await db.getPrismaClient();
     if (!prisma) {
       return res.status(500).json({ error: 'Failed to connect to database' });
     }
 
-    // Use Prisma findMany with distinct for better type safety and reliability
-    const uniqueCategoryObjects = await prisma.location.findMany({
-      distinct: ['type'],
-      select: {
-        type: true,
-      },
-      orderBy: {
-        type: 'asc',
-      },
+    const revisions = await prisma.locationRevision.findMany({
+      where: { locationId: id },
+      orderBy: { createdAt: 'desc' }
     });
 
-    // Extract the type values from the results WITHOUT modifying them
-    const categories = uniqueCategoryObjects.map(item => item.type);
-
-    res.json(categories);
+    res.json(revisions.map(revision => ({
+      ...revision,
+      changedFields: diffSnapshots(revision.before, revision.after).map(change => change.field)
+    })));
   } catch (error) {
-    console.error('Error fetching categories:', error);
-    res.status(500).json({ error: 'Failed to fetch categories' });
+    console.error('Error fetching location revisions:', error);
+    res.status(500).json({ error: 'Failed to fetch location revisions' });
   }
 });
 
-/**
- * Get a single location by ID
- */
-router.get('/locations/:id', async (req, res) => {
+// Field-level diff between the states left by two revisions
+// Use to=current to compare against the live location
+router.get('/locations/:id/revisions/diff', async (req, res) => {
   const { id } = req.params;
+  const { from, to = 'current' } = req.query;
+
+  if (!from) {
+    return res.status(400).json({ error: 'The from revision ID is required' });
+  }
+
   try {
     const prisma = await db.getPrismaClient();
     if (!prisma) {
       return res.status(500).json({ error: 'Failed to connect to database' });
     }
 
-    const location = await prisma.location.findUnique({
-      where: { id },
+    const fromRevision = await prisma.locationRevision.findFirst({
+      where: { id: from, locationId: id }
     });
-    if (!location) {
-      return res.status(404).json({ error: 'Location not found' });
+    if (!fromRevision) {
+      return res.status(404).json({ error: 'Revision not found' });
     }
-    res.json(location);
+
+    let toState;
+    if (to === 'current') {
+      toState = await prisma.location.findUnique({ where: { id } });
+      toState = toState ? JSON.parse(JSON.stringify(toState)) : null;
+    } else {
+      const toRevision = await prisma.locationRevision.findFirst({
+        where: { id: to, locationId: id }
+      });
+      if (!toRevision) {
+        return res.status(404).json({ error: 'Revision not found' });
+      }
+      toState = toRevision.action === 'delete' ? null : revisionState(toRevision);
+    }
+
+    const fromState = fromRevision.action === 'delete' ? null : revisionState(fromRevision);
+
+    res.json({
+      locationId: id,
+      from,
+      to,
+      changes: diffSnapshots(fromState, toState)
+    });
   } catch (error) {
-    console.error('Error fetching location:', error);
-    res.status(500).json({ error: 'Failed to fetch location' });
+    console.error('Error diffing location revisions:', error);
+    res.status(500).json({ error: 'Failed to diff location revisions' });
+  }
+});
+
+// Restore a location to the state recorded by a revision
+// For delete revisions this brings back the location as it was before deletion.
+// The write fires the location_changes trigger, so connected clients are notified.
+router.post('/locations/:id/revisions/:revisionId/restore', requirePermission('locations:write'), async (req, res) => {
+  const { id, revisionId } = req.params;
+  try {
+    const prisma = await db.getPrismaClient();
+    if (!prisma) {
+      return res.status(500).json({ error: 'Failed to connect to database' });
+    }
+
+    const revision = await prisma.locationRevision.findFirst({
+      where: { id: revisionId, locationId: id }
+    });
+    if (!revision) {
+      return res.status(404).json({ error: 'Revision not found' });
+    }
+
+    const snapshot = revisionState(revision);
+    if (!snapshot) {
+      return res.status(400).json({ error: 'Revision has no snapshot to restore' });
+    }
+
+    const data = { ...restorableData(snapshot), lastModified: new Date() };
+
+    const restoredLocation = await prisma.$transaction(async (tx) => {
+      const before = await tx.location.findUnique({ where: { id } });
+
+      const location = before
+        ? await updateLocationWithPoints(tx, id, data)
+        : await createLocationWithPoints(tx, { ...data, id });
+
+      await recordRevision(tx, {
+        locationId: id,
+        action: 'restore',
+        before,
+        after: location,
+        user: req.user,
+        restoredFromId: revision.id
+      });
+
+      return location;
+    });
+
+    console.log(`Location ${id} restored from revision ${revisionId}`);
+    res.json(restoredLocation);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return sendValidationError(res, error);
+    }
+    console.error('Error restoring location revision:', error);
+    res.status(500).json({ error: 'Failed to restore location revision' });
   }
 });
 
 /**
- * Create a new location
+ * YAML SYNC
+ * Round-trips the Location table with the src/locations/<category>/*.yml layout
  */
-router.post('/locations', async (req, res) => {
-  console.log('POST /locations handler reached.'); // Add this log
-  // Ensure coordinates are handled correctly
-  const { coordinates, id, ...restData } = req.body; // Remove id field explicitly
-
-  const data = { ...restData };
-
-  // Handle coordinates based on your schema (assuming JSON for flexibility)
-  if (coordinates) {
-    // Log the raw coordinates for debugging
-    console.log('Raw coordinates received:', JSON.stringify(coordinates));
-
-    if (Array.isArray(coordinates)) {
-      // Check if we have a single coordinate pair [x, y] vs multiple coordinates [[x,y], [x,y]]
-      if (coordinates.length === 2 && typeof coordinates[0] === 'number' && typeof coordinates[1] === 'number') {
-        // Single coordinate pair - store as [x, y] directly
-        console.log('Detected single coordinate pair - storing as flat array:', coordinates);
-        data.coordinates = coordinates;
-      } else {
-        // Multiple coordinates or other format - store as received
-        console.log('Detected multiple coordinates or complex format - storing as is');
-        data.coordinates = coordinates;
-      }
-    } else {
-      console.log('Coordinates not in expected array format, using default');
-      data.coordinates = [0, 0]; // Default if not in expected format
+
+// Export every location as YAML files ({ path, content } pairs)
+router.get('/locations/export/yaml', requirePermission('locations:sync'), async (req, res) => {
+  try {
+    const prisma = await db.getPrismaClient();
+    if (!prisma) {
+      return res.status(500).json({ error: 'Failed to connect to database' });
     }
-  } else {
-    // Provide a default if coordinates are missing
-    console.log('No coordinates provided, using default');
-    data.coordinates = [0, 0];
-  }
 
-  // Add default values or handle missing optional fields if necessary
-  data.iconSize = data.iconSize ?? 1;
-  data.iconColor = data.iconColor ?? '#ffffff';
-  data.radius = data.radius ?? 0;
-  data.mediaUrl = data.mediaUrl ?? [];
-  data.isCoordinateSearch = data.isCoordinateSearch ?? false;
-  data.noCluster = data.noCluster ?? false;
-  data.exactCoordinates = data.exactCoordinates ?? null;
-  // You might want to set submittedBy/approvedBy based on the authenticated user here
+    // Multi-point locations are written with their per-point properties inline
+    const locations = await prisma.location.findMany({ include: POINTS_INCLUDE });
+    const files = exportLocations(locations.map(withPointEntries));
+
+    console.log(`Exported ${files.length} locations to YAML`);
+    res.json({ files });
+  } catch (error) {
+    console.error('Error exporting locations to YAML:', error);
+    res.status(500).json({ error: 'Failed to export locations' });
+  }
+});
 
+// Import YAML files; only reports the diff unless dryRun is false
+// Locations without a matching file are deleted, so send the whole tree.
+// New files that look like other locations are refused unless force is true.
+router.post('/locations/import/yaml', requirePermission('locations:sync'), async (req, res) => {
   try {
+    const { files, dryRun = true, force = false } = req.body || {};
+    if (!Array.isArray(files) || files.some(file => typeof file?.path !== 'string' || typeof file?.content !== 'string')) {
+      return res.status(400).json({ error: 'files must be an array of { path, content } objects' });
+    }
+
     const prisma = await db.getPrismaClient();
     if (!prisma) {
       return res.status(500).json({ error: 'Failed to connect to database' });
     }
 
-    console.log('Creating location with data:', JSON.stringify(data, null, 2)); // Print formatted data
+    const existing = await prisma.location.findMany({ include: POINTS_INCLUDE });
+    const plan = planImport(existing.map(withPointEntries), files);
+    const summary = summarizePlan(plan);
+
+    if (dryRun !== false) {
+      return res.json({ dryRun: true, ...summary });
+    }
+
+    if (plan.errors.length > 0) {
+      return res.status(400).json({ error: 'Some files could not be imported, nothing was changed', ...summary });
+    }
+
+    if (plan.duplicates.length > 0 && force !== true) {
+      return res.status(409).json({ error: 'Some files look like existing locations, nothing was changed; pass force: true to import them anyway', ...summary });
+    }
+
+    const result = await applyImport(prisma, plan, req.user);
+    console.log(`YAML import by ${req.user?.username}: ${result.added} added, ${result.updated} updated, ${result.deleted} deleted`);
+    res.json({ dryRun: false, ...summary, result });
+  } catch (error) {
+    console.error('Error importing locations from YAML:', error);
+    res.status(500).json({ error: 'Failed to import locations' });
+  }
+});
+
+// Import a GeoJSON FeatureCollection (or a single Feature)
+// Features whose id matches a location update it, all others create new locations; a new
+// location keeps its feature's id, so importing the same file again updates it.
+// Every feature is validated first; nothing is written if any of them is invalid, or if a
+// new one looks like an existing location (or an earlier feature) and force isn't true.
+// All writes happen in one transaction, so a failure leaves nothing half imported.
+router.post('/locations/import/geojson', requirePermission('locations:write'), async (req, res) => {
+  try {
+    const { dryRun = false, force = false, ...geojson } = req.body || {};
+    let features;
+    if (geojson.type === 'FeatureCollection' && Array.isArray(geojson.features)) {
+      features = geojson.features;
+    } else if (geojson.type === 'Feature') {
+      features = [geojson];
+    } else {
+      return res.status(400).json({ error: 'Expected a GeoJSON FeatureCollection or Feature' });
+    }
 
-    const newLocation = await prisma.location.create({
-      data,
+    // Features must also pass the location schema, so no write fails halfway through
+    const parsed = features.map(feature => {
+      const result = featureToLocation(feature);
+      if (result.errors.length === 0) {
+        try {
+          result.data = validateLocation(result.data);
+        } catch (error) {
+          if (!(error instanceof ValidationError)) {
+            throw error;
+          }
+          result.errors = error.details.map(detail => `properties.${detail.field} ${detail.message}`);
+        }
+      }
+      return result;
     });
-    console.log('Location created successfully with ID:', newLocation.id); // Add success log with ID
-    res.status(201).json(newLocation); // Use 201 Created status
+    const errors = parsed
+      .map((result, index) => ({ index, id: result.id, errors: result.errors }))
+      .filter(result => result.errors.length > 0);
+    const seenIds = new Set();
+    parsed.forEach((result, index) => {
+      if (result.id !== null && seenIds.has(result.id)) {
+        errors.push({ index, id: result.id, errors: ['id is used by an earlier feature'] });
+      }
+      seenIds.add(result.id);
+    });
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Some features are invalid, nothing was imported', errors });
+    }
+
+    const prisma = await db.getPrismaClient();
+    if (!prisma) {
+      return res.status(500).json({ error: 'Failed to connect to database' });
+    }
+
+    const ids = parsed.map(result => result.id).filter(id => id !== null);
+    const existingIds = new Set(
+      (await prisma.location.findMany({ where: { id: { in: ids } }, select: { id: true } })).map(location => location.id)
+    );
+    const plan = parsed.map(({ id, data }) => ({ id, exists: existingIds.has(id), data }));
+
+    // New features are compared with the stored locations and the new features before them
+    const duplicates = [];
+    const additions = [];
+    for (const [index, entry] of plan.entries()) {
+      if (entry.exists) {
+        continue;
+      }
+      const matches = [
+        ...await findDuplicateLocations(prisma, entry.data),
+        ...findDuplicates(entry.data, additions)
+      ];
+      if (matches.length > 0) {
+        duplicates.push({ index, name: entry.data.name, duplicates: matches });
+      }
+      additions.push(entry.data);
+    }
+
+    if (dryRun) {
+      return res.json({
+        dryRun: true,
+        created: additions.length,
+        updated: plan.filter(entry => entry.exists).length,
+        duplicates
+      });
+    }
+
+    if (duplicates.length > 0 && force !== true) {
+      return res.status(409).json({ error: 'Some features look like existing locations, nothing was imported; pass force: true to import them anyway', duplicates });
+    }
+
+    const { created, updated } = await prisma.$transaction(async (tx) => {
+      await suppressRowNotifications(tx);
+      const result = { created: [], updated: [] };
+
+      for (const entry of plan) {
+        if (entry.exists) {
+          const before = await tx.location.findUnique({ where: { id: entry.id } });
+          const location = await updateLocationWithPoints(tx, entry.id, entry.data);
+          await recordRevision(tx, { locationId: entry.id, action: 'update', before, after: location, user: req.user });
+          result.updated.push(entry.id);
+        } else {
+          const data = { ...entry.data, ...(entry.id !== null ? { id: entry.id } : {}) };
+          Object.entries(NEW_LOCATION_DEFAULTS).forEach(([field, value]) => {
+            data[field] = data[field] ?? value;
+          });
+          const location = await createLocationWithPoints(tx, data);
+          await recordRevision(tx, { locationId: location.id, action: 'create', after: location, user: req.user });
+          result.created.push(location.id);
+        }
+      }
+
+      await notifyMapChange(tx, 'locations.imported', {
+        added: result.created.length,
+        updated: result.updated.length,
+        deleted: 0
+      });
+      return result;
+    }, { timeout: 120000 });
+
+    console.log(`GeoJSON import by ${req.user?.username}: ${created.length} created, ${updated.length} updated`);
+    res.json({ dryRun: false, created, updated });
   } catch (error) {
-    console.error('Error creating location:', error.message || error);
+    if (error instanceof ValidationError) {
+      return sendValidationError(res, error);
+    }
+    console.error('Error importing locations from GeoJSON:', error);
+    res.status(500).json({ error: 'Failed to import locations' });
+  }
+});
+
+/**
+ * LOCATION SUBMISSION REVIEW
+ * Community submissions stay out of the Location table until approved
+ */
 
-    // Add more detailed error information for debugging
-    if (error.code) {
-      console.error(`Prisma error code: ${error.code}`);
+// List submissions, pending ones by default
+router.get('/submissions', async (req, res) => {
+  try {
+    const { status = 'pending' } = req.query;
+    const prisma = await db.getPrismaClient();
+    if (!prisma) {
+      return res.status(500).json({ error: 'Failed to connect to database' });
     }
 
-    // Provide more useful error message to client
-    let errorMessage = 'Failed to create location';
-    if (error.message && error.message.includes('Argument `id` must not be null')) {
-      errorMessage += ': ID field should not be included for new locations';
+    if (status !== 'all' && !SUBMISSION_STATUSES.includes(status)) {
+      return res.status(400).json({ error: `Invalid status. Use one of: all, ${SUBMISSION_STATUSES.join(', ')}` });
     }
 
-    res.status(500).json({ error: errorMessage });
+    const submissions = await prisma.locationSubmission.findMany({
+      where: status === 'all' ? {} : { status },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    res.json(submissions);
+  } catch (error) {
+    console.error('Error fetching location submissions:', error);
+    res.status(500).json({ error: 'Failed to fetch location submissions' });
   }
 });
 
-/**
- * Create a new location (dedicated endpoint)
- */
-router.post('/locations/new', async (req, res) => {
-  console.log('POST /locations/new handler reached.'); // Log for debugging
-
-  // Ensure coordinates are handled correctly
-  const { coordinates, id, ...restData } = req.body; // Remove id field explicitly
-
-  const data = { ...restData };
-
-  // Handle coordinates based on your schema
-  if (coordinates) {
-    // Log the raw coordinates for debugging
-    console.log('Raw coordinates received:', JSON.stringify(coordinates));
-
-    if (Array.isArray(coordinates)) {
-      // Check if we have a single coordinate pair [x, y] vs multiple coordinates [[x,y], [x,y]]
-      if (coordinates.length === 2 && typeof coordinates[0] === 'number' && typeof coordinates[1] === 'number') {
-        // Single coordinate pair - store as [x, y] directly
-        console.log('Detected single coordinate pair - storing as flat array:', coordinates);
-        data.coordinates = coordinates;
-      } else {
-        // Multiple coordinates or other format - store as received
-        console.log('Detected multiple coordinates or complex format - storing as is');
-        data.coordinates = coordinates;
-      }
-    } else {
-      console.log('Coordinates not in expected array format, using default');
-      data.coordinates = [0, 0]; // Default if not in expected format
+// Edit a pending submission before approving it
+router.put('/submissions/:id', requirePermission('locations:write'), async (req, res) => {
+  const { id } = req.params;
+  try {
+    const { data, errors } = normalizeSubmission(req.body || {}, { partial: true });
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid submission', details: errors });
     }
-  } else {
-    // Provide a default if coordinates are missing
-    console.log('No coordinates provided, using default');
-    data.coordinates = [0, 0];
-  }
-
-  // Add default values or handle missing optional fields
-  data.iconSize = data.iconSize ?? 1;
-  data.iconColor = data.iconColor ?? '#ffffff';
-  data.radius = data.radius ?? 0;
-  data.mediaUrl = data.mediaUrl ?? [];
-  data.isCoordinateSearch = data.isCoordinateSearch ?? false;
-  data.noCluster = data.noCluster ?? false;
-  data.exactCoordinates = data.exactCoordinates ?? null;
 
-  try {
-    console.log('Creating new location with data:', JSON.stringify(data, null, 2));
     const prisma = await db.getPrismaClient();
     if (!prisma) {
       return res.status(500).json({ error: 'Failed to connect to database' });
     }
 
-    const newLocation = await prisma.location.create({
-      data,
+    const submission = await prisma.locationSubmission.findUnique({ where: { id } });
+    if (!submission) {
+      return res.status(404).json({ error: 'Submission not found' });
+    }
+    if (submission.status !== 'pending') {
+      return res.status(409).json({ error: `Submission has already been ${submission.status}` });
+    }
+
+    const updatedSubmission = await prisma.locationSubmission.update({
+      where: { id },
+      data
     });
-    console.log('Location created successfully:', newLocation.id);
-    res.status(201).json(newLocation);
+
+    res.json(updatedSubmission);
   } catch (error) {
-    console.error('Error creating location:', error);
-    // Add better error message with details
-    let errorMessage = 'Failed to create location';
-    if (error.message) {
-      errorMessage += `: ${error.message}`;
-    }
-    res.status(500).json({ error: errorMessage });
+    console.error('Error updating location submission:', error);
+    res.status(500).json({ error: 'Failed to update location submission' });
   }
 });
 
-/**
- * Update a location by ID
- */
-router.put('/locations/:id', async (req, res) => {
+// Approve a submission: creates the live location, which notifies connected clients
+// Submissions that look like an existing location get a 409 unless the body has force: true.
+router.post('/submissions/:id/approve', requirePermission('locations:write'), async (req, res) => {
   const { id } = req.params;
-  // Ensure coordinates are handled correctly if they are part of the update
-  const { coordinates, ...restData } = req.body;
-
-  const data = { ...restData };
-
-  // Handle coordinates if provided in the update
-  if (coordinates) {
-    // Log the raw coordinates for debugging
-    console.log('Raw coordinates received in update:', JSON.stringify(coordinates));
-
-    if (Array.isArray(coordinates)) {
-      // Check if we have a single coordinate pair [x, y] vs multiple coordinates [[x,y], [x,y]]
-      if (coordinates.length === 2 && typeof coordinates[0] === 'number' && typeof coordinates[1] === 'number') {
-        // Single coordinate pair - store as [x, y] directly
-        console.log('Detected single coordinate pair in update - storing as flat array:', coordinates);
-        data.coordinates = coordinates;
-      } else {
-        // Multiple coordinates or other format - store as received
-        console.log('Detected multiple coordinates or complex format in update - storing as is');
-        data.coordinates = coordinates;
-      }
-    } else {
-      console.log('Coordinates in update not in expected array format, ignoring');
-      // In updates, we don't set a default, just ignore invalid coordinates
-    }
-  }
-
+  const { force = false } = req.body || {};
   try {
     const prisma = await db.getPrismaClient();
     if (!prisma) {
       return res.status(500).json({ error: 'Failed to connect to database' });
     }
 
-    const updatedLocation = await prisma.location.update({
-      where: { id },
-      data,
+    const result = await prisma.$transaction(async (tx) => {
+      const submission = await tx.locationSubmission.findUnique({ where: { id } });
+      if (!submission) {
+        return { status: 404, body: { error: 'Submission not found' } };
+      }
+      if (submission.status !== 'pending') {
+        return { status: 409, body: { error: `Submission has already been ${submission.status}` } };
+      }
+
+      // Submissions are checked loosely, so the admin gets field errors to fix here
+      const data = validateLocation(submissionToLocation(submission, req.user));
+      if (force !== true) {
+        const duplicates = await findDuplicateLocations(tx, data);
+        if (duplicates.length > 0) {
+          return { status: 409, body: { error: DUPLICATE_ERROR, duplicates } };
+        }
+      }
+
+      const location = await createLocationWithPoints(tx, data);
+      await recordRevision(tx, { locationId: location.id, action: 'create', after: location, user: req.user });
+
+      const reviewed = await tx.locationSubmission.update({
+        where: { id },
+        data: {
+          status: 'approved',
+          reviewedBy: req.user?.id ?? null,
+          reviewedAt: new Date(),
+          locationId: location.id
+        }
+      });
+
+      return { status: 200, body: { submission: reviewed, location } };
     });
-    res.json(updatedLocation);
+
+    if (result.status === 200) {
+      console.log(`Submission ${id} approved by ${req.user?.username}, created location ${result.body.location.id}`);
+    }
+    res.status(result.status).json(result.body);
   } catch (error) {
-    // Log the specific Prisma error if available
-    console.error('Error updating location:', error.message || error);
-    // Check for specific Prisma errors like P2025 (Record not found)
-    if (error.code === 'P2025') {
-      return res.status(404).json({ error: 'Location not found for update' });
+    if (error instanceof ValidationError) {
+      return sendValidationError(res, error);
     }
-    res.status(500).json({ error: 'Failed to update location' });
+    console.error('Error approving location submission:', error);
+    res.status(500).json({ error: 'Failed to approve location submission' });
   }
 });
 
-/**
- * Delete a location by ID
- */
-router.delete('/locations/:id', async (req, res) => {
+// Reject a submission with a reason shown to the submitter
+router.post('/submissions/:id/reject', requirePermission('locations:write'), async (req, res) => {
   const { id } = req.params;
+  const { reason } = req.body;
+
+  if (!reason || typeof reason !== 'string' || reason.trim() === '') {
+    return res.status(400).json({ error: 'A rejection reason is required' });
+  }
+
   try {
     const prisma = await db.getPrismaClient();
     if (!prisma) {
       return res.status(500).json({ error: 'Failed to connect to database' });
     }
 
-    await prisma.location.delete({
+    const submission = await prisma.locationSubmission.findUnique({ where: { id } });
+    if (!submission) {
+      return res.status(404).json({ error: 'Submission not found' });
+    }
+    if (submission.status !== 'pending') {
+      return res.status(409).json({ error: `Submission has already been ${submission.status}` });
+    }
+
+    const rejected = await prisma.locationSubmission.update({
       where: { id },
+      data: {
+        status: 'rejected',
+        rejectionReason: reason.trim(),
+        reviewedBy: req.user?.id ?? null,
+        reviewedAt: new Date()
+      }
     });
-    res.status(204).send();
+
+    res.json(rejected);
   } catch (error) {
-    console.error('Error deleting location:', error);
-    res.status(500).json({ error: 'Failed to delete location' });
+    console.error('Error rejecting location submission:', error);
+    res.status(500).json({ error: 'Failed to reject location submission' });
   }
 });
 
@@ -585,7 +1139,7 @@ router.get('/heatmap/types', async (req, res) => {
 });
 
 // Create a new heatmap type
-router.post('/heatmap/types', async (req, res) => {
+router.post('/heatmap/types', requirePermission('heatmap:types:write'), async (req, res) => {
   try {
     const { name, intensity, colorBindings } = req.body;
     const prisma = await db.getPrismaClient();
@@ -621,7 +1175,7 @@ router.post('/heatmap/types', async (req, res) => {
 });
 
 // Update a heatmap type
-router.put('/heatmap/types/:id', async (req, res) => {
+router.put('/heatmap/types/:id', requirePermission('heatmap:types:write'), async (req, res) => {
   try {
     const { id } = req.params;
     const { name, intensity, colorBindings } = req.body;
@@ -659,7 +1213,7 @@ router.put('/heatmap/types/:id', async (req, res) => {
 });
 
 // Delete a heatmap type
-router.delete('/heatmap/types/:id', async (req, res) => {
+router.delete('/heatmap/types/:id', requirePermission('heatmap:types:delete'), async (req, res) => {
   try {
     const { id } = req.params;
     const typeId = parseInt(id, 10);
@@ -695,6 +1249,9 @@ router.delete('/heatmap/types/:id', async (req, res) => {
 
     // Start a transaction to ensure everything gets deleted or nothing does
     await prisma.$transaction(async (tx) => {
+      // Clients get one summary event instead of one per cascaded row
+      await suppressRowNotifications(tx);
+
       // First, delete the orphaned datapoints (those with only this type)
       if (orphanedDatapointIds.length > 0) {
         await tx.heatmapDatapoint.deleteMany({
@@ -707,9 +1264,15 @@ router.delete('/heatmap/types/:id', async (req, res) => {
       }
 
       // Then delete the type (this will cascade delete the junction records)
-      await tx.heatmapType.delete({
+      const deletedType = await tx.heatmapType.delete({
         where: { id: typeId }
       });
+
+      await notifyMapChange(tx, 'heatmap.type.deleted', {
+        id: deletedType.id,
+        name: deletedType.name,
+        deletedDatapoints: orphanedDatapointIds.length
+      });
     });
 
     res.status(200).json({
@@ -731,7 +1294,7 @@ router.delete('/heatmap/types/:id', async (req, res) => {
 // Get all heatmap datapoints
 router.get('/heatmap/datapoints', async (req, res) => {
   try {
-    const { typeId, visible, orphaned } = req.query;
+    const { typeId, visible, orphaned, layer } = req.query;
     const prisma = await db.getPrismaClient();
 
     if (!prisma) {
@@ -776,6 +1339,10 @@ router.get('/heatmap/datapoints', async (req, res) => {
       where.visible = visible === 'true';
     }
 
+    if (layer) {
+      where.layerId = String(layer);
+    }
+
     const datapoints = await prisma.heatmapDatapoint.findMany({
       where,
       include: {
@@ -800,6 +1367,7 @@ router.get('/heatmap/datapoints', async (req, res) => {
       timestamp: dp.timestamp,
       lastModified: dp.lastModified,
       visible: dp.visible,
+      layerId: dp.layerId,
       orphaned: dp.types.length === 0,
       types: dp.types.map(t => ({
         id: t.type.id,
@@ -816,9 +1384,21 @@ router.get('/heatmap/datapoints', async (req, res) => {
   }
 });
 
-// Get a summary of orphaned datapoints count
+// Get a summary of orphaned datapoints count, and counts per time bucket
+// The breakdown uses ?bucket= (day by default, week or month) over an optional time window
+// (?from=, ?to=, ?last=, see utils/heatmapTime.js); the other counts cover all datapoints.
 router.get('/heatmap/stats', async (req, res) => {
   try {
+    const bucket = req.query.bucket ?? 'day';
+    if (!TIME_BUCKETS.includes(bucket)) {
+      return res.status(400).json({ error: `bucket must be one of: ${TIME_BUCKETS.join(', ')}` });
+    }
+    const window = parseTimeWindow(req.query);
+    if (window.error) {
+      return res.status(400).json({ error: window.error });
+    }
+    const { from, to } = window.value;
+
     const prisma = await db.getPrismaClient();
 
     if (!prisma) {
@@ -854,10 +1434,44 @@ router.get('/heatmap/stats', async (req, res) => {
       datapointCount: type._count.datapoints
     }));
 
+    // Datapoints per time bucket, in total and per type (empty buckets are left out)
+    const [bucketTotals, bucketTypes] = await Promise.all([
+      prisma.$queryRaw`
+        SELECT date_trunc(${bucket}, d."timestamp") AS "start", COUNT(*)::int AS "count"
+        FROM "HeatmapDatapoint" d
+        WHERE (${from}::timestamp IS NULL OR d."timestamp" >= ${from}::timestamp)
+          AND (${to}::timestamp IS NULL OR d."timestamp" <= ${to}::timestamp)
+        GROUP BY 1
+        ORDER BY 1
+      `,
+      prisma.$queryRaw`
+        SELECT date_trunc(${bucket}, d."timestamp") AS "start", t."typeId", COUNT(*)::int AS "count"
+        FROM "HeatmapDatapoint" d
+        JOIN "HeatmapDatapointType" t ON t."datapointId" = d."id"
+        WHERE (${from}::timestamp IS NULL OR d."timestamp" >= ${from}::timestamp)
+          AND (${to}::timestamp IS NULL OR d."timestamp" <= ${to}::timestamp)
+        GROUP BY 1, 2
+      `
+    ]);
+
+    const timeline = bucketTotals.map(({ start, count }) => ({
+      start: start.toISOString(),
+      count,
+      types: bucketTypes
+        .filter(row => row.start.getTime() === start.getTime())
+        .map(row => ({ id: row.typeId, count: row.count }))
+    }));
+
     res.json({
       total: totalDatapoints,
       orphanedCount: orphanedDatapoints,
-      types: typeStats
+      types: typeStats,
+      timeline: {
+        bucket,
+        from: from ? from.toISOString() : null,
+        to: to ? to.toISOString() : null,
+        buckets: timeline
+      }
     });
   } catch (error) {
     console.error('Error fetching heatmap stats:', error);
@@ -866,9 +1480,9 @@ router.get('/heatmap/stats', async (req, res) => {
 });
 
 // Create a new heatmap datapoint
-router.post('/heatmap/datapoints', async (req, res) => {
+router.post('/heatmap/datapoints', requirePermission('heatmap:datapoints:write'), async (req, res) => {
   try {
-    const { lat, intensity, weight, radius, visible, typeIds } = req.body;
+    const { lat, intensity, weight, radius, visible, typeIds, layerId } = req.body;
     const prisma = await db.getPrismaClient();
 
     if (!prisma) {
@@ -882,6 +1496,11 @@ router.post('/heatmap/datapoints', async (req, res) => {
       });
     }
 
+    const layerError = await unknownLayerError(prisma, layerId);
+    if (layerError) {
+      return res.status(400).json({ error: layerError });
+    }
+
     // Create datapoint with type connections
     const newDatapoint = await prisma.heatmapDatapoint.create({
       data: {
@@ -890,6 +1509,7 @@ router.post('/heatmap/datapoints', async (req, res) => {
         weight,
         radius: radius ?? 25,
         visible: visible ?? true,
+        ...(layerId ? { layerId: String(layerId) } : {}),
         types: {
           create: typeIds.map(typeId => ({
             type: {
@@ -917,6 +1537,7 @@ router.post('/heatmap/datapoints', async (req, res) => {
       timestamp: newDatapoint.timestamp,
       lastModified: newDatapoint.lastModified,
       visible: newDatapoint.visible,
+      layerId: newDatapoint.layerId,
       types: newDatapoint.types.map(t => ({
         id: t.type.id,
         name: t.type.name,
@@ -933,16 +1554,21 @@ router.post('/heatmap/datapoints', async (req, res) => {
 });
 
 // Update a heatmap datapoint
-router.put('/heatmap/datapoints/:id', async (req, res) => {
+router.put('/heatmap/datapoints/:id', requirePermission('heatmap:datapoints:write'), async (req, res) => {
   try {
     const { id } = req.params;
-    const { lat, intensity, weight, radius, visible, typeIds } = req.body;
+    const { lat, intensity, weight, radius, visible, typeIds, layerId } = req.body;
     const prisma = await db.getPrismaClient();
 
     if (!prisma) {
       return res.status(500).json({ error: 'Failed to connect to database' });
     }
 
+    const layerError = await unknownLayerError(prisma, layerId);
+    if (layerError) {
+      return res.status(400).json({ error: layerError });
+    }
+
     const datapointId = parseInt(id, 10);
 
     // Start a transaction to handle updating the many-to-many relationship
@@ -963,6 +1589,7 @@ router.put('/heatmap/datapoints/:id', async (req, res) => {
           ...(weight !== undefined && { weight }),
           ...(radius !== undefined && { radius }),
           ...(visible !== undefined && { visible }),
+          ...(layerId !== undefined && layerId !== null && { layerId: String(layerId) }),
           // Create new relationships if typeIds is provided
           ...(typeIds && Array.isArray(typeIds) && {
             types: {
@@ -996,6 +1623,7 @@ router.put('/heatmap/datapoints/:id', async (req, res) => {
       timestamp: updatedDatapoint.timestamp,
       lastModified: updatedDatapoint.lastModified,
       visible: updatedDatapoint.visible,
+      layerId: updatedDatapoint.layerId,
       types: updatedDatapoint.types.map(t => ({
         id: t.type.id,
         name: t.type.name,
@@ -1018,7 +1646,7 @@ router.put('/heatmap/datapoints/:id', async (req, res) => {
 });
 
 // Delete a heatmap datapoint
-router.delete('/heatmap/datapoints/:id', async (req, res) => {
+router.delete('/heatmap/datapoints/:id', requirePermission('heatmap:datapoints:write'), async (req, res) => {
   try {
     const { id } = req.params;
     const prisma = await db.getPrismaClient();
@@ -1047,7 +1675,7 @@ router.delete('/heatmap/datapoints/:id', async (req, res) => {
 // Add this endpoint after the existing heatmap endpoints
 
 // Bulk update datapoints
-router.post('/heatmap/datapoints/bulk', async (req, res) => {
+router.post('/heatmap/datapoints/bulk', requirePermission('heatmap:datapoints:write'), async (req, res) => {
   try {
     const {
       ids,
@@ -1074,6 +1702,9 @@ router.post('/heatmap/datapoints/bulk', async (req, res) => {
     const results = await prisma.$transaction(async (tx) => {
       const updateResults = [];
 
+      // Send one summary event for the whole batch instead of one per row
+      await suppressRowNotifications(tx);
+
       for (const id of ids) {
         try {
           const datapointId = parseInt(id, 10);
@@ -1167,6 +1798,15 @@ router.post('/heatmap/datapoints/bulk', async (req, res) => {
         }
       }
 
+      const updatedIds = updateResults.filter(r => r.success).map(r => parseInt(r.id, 10));
+      if (updatedIds.length > 0) {
+        await notifyMapChange(tx, 'heatmap.datapoints.bulk-updated', {
+          count: updatedIds.length,
+          ids: summaryIds(updatedIds),
+          typeIds: typeIds ? typeIds.map(typeId => parseInt(typeId, 10)) : null
+        });
+      }
+
       return updateResults;
     });
 
@@ -1187,7 +1827,7 @@ router.post('/heatmap/datapoints/bulk', async (req, res) => {
 });
 
 // Clean up orphaned datapoints
-router.post('/heatmap/datapoints/cleanup', async (req, res) => {
+router.post('/heatmap/datapoints/cleanup', requirePermission('heatmap:datapoints:cleanup'), async (req, res) => {
   try {
     const { action, typeId } = req.body;
     const prisma = await db.getPrismaClient();
@@ -1218,13 +1858,22 @@ router.post('/heatmap/datapoints/cleanup', async (req, res) => {
     }
 
     if (action === 'delete') {
-      // Delete all orphaned datapoints
-      await prisma.heatmapDatapoint.deleteMany({
-        where: {
-          id: {
-            in: orphanedIds
+      // Delete all orphaned datapoints, announcing them in a single event
+      await prisma.$transaction(async (tx) => {
+        await suppressRowNotifications(tx);
+
+        await tx.heatmapDatapoint.deleteMany({
+          where: {
+            id: {
+              in: orphanedIds
+            }
           }
-        }
+        });
+
+        await notifyMapChange(tx, 'heatmap.datapoints.bulk-deleted', {
+          count: orphanedIds.length,
+          ids: summaryIds(orphanedIds)
+        });
       });
 
       return res.json({
@@ -1245,19 +1894,29 @@ router.post('/heatmap/datapoints/cleanup', async (req, res) => {
         return res.status(404).json({ error: 'Specified type not found' });
       }
 
-      // Assign to each orphaned datapoint
-      for (const datapointId of orphanedIds) {
-        await prisma.heatmapDatapointType.create({
-          data: {
-            datapoint: {
-              connect: { id: datapointId }
-            },
-            type: {
-              connect: { id: typeIdInt }
+      // Assign to each orphaned datapoint, announcing them in a single event
+      await prisma.$transaction(async (tx) => {
+        await suppressRowNotifications(tx);
+
+        for (const datapointId of orphanedIds) {
+          await tx.heatmapDatapointType.create({
+            data: {
+              datapoint: {
+                connect: { id: datapointId }
+              },
+              type: {
+                connect: { id: typeIdInt }
+              }
             }
-          }
+          });
+        }
+
+        await notifyMapChange(tx, 'heatmap.datapoints.bulk-updated', {
+          count: orphanedIds.length,
+          ids: summaryIds(orphanedIds),
+          typeIds: [typeIdInt]
         });
-      }
+      });
 
       return res.json({
         message: 'Orphaned datapoints assigned to type successfully',
@@ -1274,11 +1933,251 @@ router.post('/heatmap/datapoints/cleanup', async (req, res) => {
   }
 });
 
+/**
+ * MAP LAYERS
+ * Separate maps with their own size, tiles and zoom range (see utils/mapLayers.js).
+ * A layer's ID is fixed once created, since clients use it in URLs.
+ */
+
+// Get all map layers with how many locations and datapoints are on each
+router.get('/layers', async (req, res) => {
+  try {
+    const prisma = await db.getPrismaClient();
+    if (!prisma) {
+      return res.status(500).json({ error: 'Failed to connect to database' });
+    }
+
+    const layers = await prisma.mapLayer.findMany({
+      orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+      include: {
+        _count: {
+          select: { locations: true, heatmapDatapoints: true }
+        }
+      }
+    });
+
+    res.json(layers.map(({ _count, ...layer }) => ({
+      ...layer,
+      locationCount: _count.locations,
+      datapointCount: _count.heatmapDatapoints
+    })));
+  } catch (error) {
+    console.error('Error fetching map layers:', error);
+    res.status(500).json({ error: 'Failed to fetch map layers' });
+  }
+});
+
+// Create a map layer
+router.post('/layers', requirePermission('layers:write'), async (req, res) => {
+  try {
+    const data = validateMapLayer(req.body);
+
+    const prisma = await db.getPrismaClient();
+    if (!prisma) {
+      return res.status(500).json({ error: 'Failed to connect to database' });
+    }
+
+    const layer = await prisma.mapLayer.create({ data });
+    res.status(201).json(layer);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return sendValidationError(res, error);
+    }
+    if (error.code === 'P2002') {
+      return res.status(409).json({ error: 'A map layer with this ID already exists' });
+    }
+    console.error('Error creating map layer:', error);
+    res.status(500).json({ error: 'Failed to create map layer' });
+  }
+});
+
+// Update a map layer; only the fields present in the body are changed
+router.put('/layers/:id', requirePermission('layers:write'), async (req, res) => {
+  try {
+    const data = validateMapLayer(req.body, { partial: true });
+
+    const prisma = await db.getPrismaClient();
+    if (!prisma) {
+      return res.status(500).json({ error: 'Failed to connect to database' });
+    }
+
+    const existing = await prisma.mapLayer.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Map layer not found' });
+    }
+
+    // Only one end of the zoom range may be changing
+    if ((data.minZoom ?? existing.minZoom) > (data.maxZoom ?? existing.maxZoom)) {
+      return sendValidationError(res, new ValidationError(
+        [{ field: data.minZoom !== undefined ? 'minZoom' : 'maxZoom', message: 'must keep minZoom at most maxZoom' }],
+        'map layer'
+      ));
+    }
+
+    const layer = await prisma.mapLayer.update({ where: { id: req.params.id }, data });
+    res.json(layer);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return sendValidationError(res, error);
+    }
+    console.error('Error updating map layer:', error);
+    if (error.code === 'P2025') {
+      return res.status(404).json({ error: 'Map layer not found' });
+    }
+    res.status(500).json({ error: 'Failed to update map layer' });
+  }
+});
+
+// Delete a map layer along with its category defaults
+// Refused for the default layer and for layers that still have locations or datapoints.
+router.delete('/layers/:id', requirePermission('layers:write'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    if (id === DEFAULT_LAYER_ID) {
+      return res.status(409).json({ error: 'The default map layer cannot be deleted' });
+    }
+
+    const prisma = await db.getPrismaClient();
+    if (!prisma) {
+      return res.status(500).json({ error: 'Failed to connect to database' });
+    }
+
+    const [locations, datapoints] = await Promise.all([
+      prisma.location.count({ where: { layerId: id } }),
+      prisma.heatmapDatapoint.count({ where: { layerId: id } })
+    ]);
+    if (locations > 0 || datapoints > 0) {
+      return res.status(409).json({
+        error: 'Move or delete the locations and heatmap datapoints on this layer first',
+        locations,
+        datapoints
+      });
+    }
+
+    await prisma.mapLayer.delete({ where: { id } });
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting map layer:', error);
+    if (error.code === 'P2025') {
+      return res.status(404).json({ error: 'Map layer not found' });
+    }
+    // Something was added to the layer in the meantime
+    if (error.code === 'P2003') {
+      return res.status(409).json({ error: 'Move or delete the locations and heatmap datapoints on this layer first' });
+    }
+    res.status(500).json({ error: 'Failed to delete map layer' });
+  }
+});
+
+/**
+ * INGESTION KEYS
+ * Credentials for bots and telemetry sources posting to /api/ingest/heatmap (see utils/ingestion.js)
+ */
+
+// List ingestion keys; the keys themselves are never shown again after creation
+router.get('/ingestion-keys', requirePermission('ingestion:keys'), async (req, res) => {
+  try {
+    const prisma = await db.getPrismaClient();
+    if (!prisma) {
+      return res.status(500).json({ error: 'Failed to connect to database' });
+    }
+
+    const keys = await prisma.ingestionKey.findMany({ orderBy: { createdAt: 'asc' } });
+    res.json(keys.map(toIngestionKeyResponse));
+  } catch (error) {
+    console.error('Error fetching ingestion keys:', error);
+    res.status(500).json({ error: 'Failed to fetch ingestion keys' });
+  }
+});
+
+// Create an ingestion key; the response has the only copy of `key`
+router.post('/ingestion-keys', requirePermission('ingestion:keys'), async (req, res) => {
+  try {
+    const data = validateIngestionKey(req.body);
+
+    const prisma = await db.getPrismaClient();
+    if (!prisma) {
+      return res.status(500).json({ error: 'Failed to connect to database' });
+    }
+
+    const layerError = await unknownLayerError(prisma, data.layerId);
+    if (layerError) {
+      return res.status(400).json({ error: layerError });
+    }
+
+    const { key, keyPrefix, keyHash } = generateIngestionKey();
+    const ingestionKey = await prisma.ingestionKey.create({
+      data: { ...data, keyPrefix, keyHash, createdBy: req.user?.username ?? null }
+    });
+
+    console.log(`Ingestion key ${ingestionKey.id} (${ingestionKey.name}) created by ${req.user?.username}`);
+    res.status(201).json({ ...toIngestionKeyResponse(ingestionKey), key });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return sendValidationError(res, error);
+    }
+    console.error('Error creating ingestion key:', error);
+    res.status(500).json({ error: 'Failed to create ingestion key' });
+  }
+});
+
+// Update an ingestion key's settings; only the fields present in the body are changed
+router.put('/ingestion-keys/:id', requirePermission('ingestion:keys'), async (req, res) => {
+  try {
+    const data = validateIngestionKey(req.body, { partial: true });
+
+    const prisma = await db.getPrismaClient();
+    if (!prisma) {
+      return res.status(500).json({ error: 'Failed to connect to database' });
+    }
+
+    const layerError = await unknownLayerError(prisma, data.layerId);
+    if (layerError) {
+      return res.status(400).json({ error: layerError });
+    }
+
+    const ingestionKey = await prisma.ingestionKey.update({
+      where: { id: parseInt(req.params.id, 10) },
+      data
+    });
+    res.json(toIngestionKeyResponse(ingestionKey));
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return sendValidationError(res, error);
+    }
+    console.error('Error updating ingestion key:', error);
+    if (error.code === 'P2025') {
+      return res.status(404).json({ error: 'Ingestion key not found' });
+    }
+    res.status(500).json({ error: 'Failed to update ingestion key' });
+  }
+});
+
+// Revoke an ingestion key
+router.delete('/ingestion-keys/:id', requirePermission('ingestion:keys'), async (req, res) => {
+  try {
+    const prisma = await db.getPrismaClient();
+    if (!prisma) {
+      return res.status(500).json({ error: 'Failed to connect to database' });
+    }
+
+    const ingestionKey = await prisma.ingestionKey.delete({ where: { id: parseInt(req.params.id, 10) } });
+    console.log(`Ingestion key ${ingestionKey.id} (${ingestionKey.name}) revoked by ${req.user?.username}`);
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error revoking ingestion key:', error);
+    if (error.code === 'P2025') {
+      return res.status(404).json({ error: 'Ingestion key not found' });
+    }
+    res.status(500).json({ error: 'Failed to revoke ingestion key' });
+  }
+});
+
 /**
  * Category management endpoints
  */
 
-// Get all category defaults
+// Get all category defaults, for every layer (layerId is null for shared defaults)
 router.get('/categories/defaults', async (req, res) => {
   try {
     console.log('Fetching category defaults');
@@ -1324,7 +2223,8 @@ router.get('/categories/defaults', async (req, res) => {
 });
 
 // Save category default
-router.post('/categories/defaults', async (req, res) => {
+// Pass layerId to set the defaults of one layer; without it they apply to every layer
+router.post('/categories/defaults', requirePermission('categories:defaults:write'), async (req, res) => {
   try {
     const categoryDefault = req.body;
 
@@ -1332,6 +2232,16 @@ router.post('/categories/defaults', async (req, res) => {
       return res.status(400).json({ error: 'Category path is required' });
     }
 
+    const prisma = await db.getPrismaClient();
+    if (!prisma) {
+      return res.status(500).json({ error: 'Failed to connect to database' });
+    }
+
+    const layerError = await unknownLayerError(prisma, categoryDefault.layerId);
+    if (layerError) {
+      return res.status(400).json({ error: layerError });
+    }
+
     const result = await db.saveCategoryDefault(categoryDefault);
     res.json(result);
   } catch (error) {
@@ -1341,15 +2251,15 @@ router.post('/categories/defaults', async (req, res) => {
 });
 
 // Delete category default
-router.delete('/categories/defaults', async (req, res) => {
+router.delete('/categories/defaults', requirePermission('categories:defaults:write'), async (req, res) => {
   try {
-    const { path } = req.body;
+    const { path, layerId } = req.body;
 
     if (!path) {
       return res.status(400).json({ error: 'Category path is required' });
     }
 
-    await db.deleteCategoryDefault(path);
+    await db.deleteCategoryDefault(path, layerId ?? null);
     res.json({ success: true });
   } catch (error) {
     console.error('Error deleting category default:', error);
@@ -1357,6 +2267,30 @@ router.delete('/categories/defaults', async (req, res) => {
   }
 });
 
+// Rename or move a category subtree, along with its locations and category defaults
+// Refuses to move onto a path already in use unless merge is true; dryRun only reports counts.
+router.post('/categories/rename', requirePermission('categories:rename'), async (req, res) => {
+  try {
+    const { from, to, merge = false, dryRun = false } = req.body || {};
+
+    if (typeof from !== 'string' || typeof to !== 'string' || !from.trim() || !to.trim()) {
+      return res.status(400).json({ error: 'Both from and to category paths are required' });
+    }
+
+    const result = await db.renameCategory(from, to, { merge: merge === true, dryRun: dryRun === true }, req.user);
+    if (!result.dryRun) {
+      console.log(`Category ${result.from} renamed to ${result.to} by ${req.user?.username}: ${result.locations} locations, ${result.categoryDefaults} defaults`);
+    }
+    res.json(result);
+  } catch (error) {
+    if (error instanceof CategoryRenameError) {
+      return res.status(error.code === 'conflict' ? 409 : 400).json({ error: error.message });
+    }
+    console.error('Error renaming category:', error);
+    res.status(500).json({ error: 'Failed to rename category' });
+  }
+});
+
 // Get unique categories from locations
 router.get('/categories/unique', async (req, res) => {
   try {
@@ -1405,15 +2339,20 @@ router.get('/categories/unique', async (req, res) => {
   }
 });
 
-// Toggle location visibility (by adding/removing DISABLED marker)
-router.put('/locations/:id/visibility', async (req, res) => {
+// Set a location's visibility status
+// Accepts { status } (published, hidden or archived) or the older { visible } flag.
+router.put('/locations/:id/visibility', requirePermission('locations:write'), async (req, res) => {
   try {
     const { id } = req.params;
-    const { visible } = req.body;
+    const { visible, status: requestedStatus } = req.body;
 
-    if (visible === undefined) {
+    if (visible === undefined && requestedStatus === undefined) {
       return res.status(400).json({ error: 'Visibility parameter is required' });
     }
+    if (requestedStatus !== undefined && !isLocationStatus(requestedStatus)) {
+      return res.status(400).json({ error: `Invalid status. Use one of: ${LOCATION_STATUSES.join(', ')}` });
+    }
+    const status = requestedStatus ?? (visible ? 'published' : 'hidden');
 
     const prisma = await db.getPrismaClient();
     if (!prisma) {
@@ -1429,31 +2368,24 @@ router.put('/locations/:id/visibility', async (req, res) => {
       return res.status(404).json({ error: 'Location not found' });
     }
 
-    // Update the type field based on visibility
-    // Define the DISABLED marker
-    const DISABLED_MARKER = '![DISABLED]';
-
-    let updatedType = location.type;
-    if (visible && updatedType.includes(DISABLED_MARKER)) {
-      // Remove the disabled marker
-      updatedType = updatedType.replace(DISABLED_MARKER, '').trim();
-    } else if (!visible && !updatedType.includes(DISABLED_MARKER)) {
-      // Add the disabled marker
-      updatedType = `${DISABLED_MARKER} ${updatedType}`;
-    }
-
     // Update the location
-    const updatedLocation = await prisma.location.update({
-      where: { id },
-      data: {
-        type: updatedType
-      }
-    });
+    let updatedLocation = location;
+    if (location.status !== status) {
+      updatedLocation = await prisma.$transaction(async (tx) => {
+        const result = await tx.location.update({
+          where: { id },
+          data: { status }
+        });
+        await recordRevision(tx, { locationId: id, action: 'update', before: location, after: result, user: req.user });
+        return result;
+      });
+    }
 
     res.json({
       id: updatedLocation.id,
       type: updatedLocation.type,
-      visible: !updatedLocation.type.includes(DISABLED_MARKER)
+      status: updatedLocation.status,
+      visible: updatedLocation.status === 'published'
     });
   } catch (error) {
     console.error('Error toggling location visibility:', error);
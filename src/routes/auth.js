@@ -0,0 +1,215 @@
+import express from 'express';
+import { DiscordApiError, exchangeAuthorizationCode, fetchMemberRoles, resolveRole } from '../utils/discord.js';
+import { createSession, verifySession, revokeSession } from '../utils/session.js';
+import { resolveDiscordAdmin } from '../middleware/auth.js';
+
+console.log('Auth router file loaded.');
+
+const router = express.Router();
+
+// CRITICAL: Use the exact variable names from .env file
+const DISCORD_BOT_TOKEN = process.env.DISCORD_BOT_TOKEN;
+const DISCORD_BOT_ID = process.env.DISCORD_BOT_ID;
+const DISCORD_BOT_SECRET = process.env.DISCORD_BOT_SECRET;
+// Fix how we handle the DISCORD_REDIRECT_URI - don't use template literals directly
+let DISCORD_REDIRECT_URI = process.env.DISCORD_REDIRECT_URI || '';
+
+// If DISCORD_REDIRECT_URI contains ${DOMAIN}, manually replace it
+if (DISCORD_REDIRECT_URI.includes('${DOMAIN}')) {
+  DISCORD_REDIRECT_URI = DISCORD_REDIRECT_URI.replace('${DOMAIN}', process.env.DOMAIN || 'soulmap.7thseraph.org');
+}
+
+// If still not a valid URL, use a hardcoded default
+if (!DISCORD_REDIRECT_URI.match(/^https?:\/\/[^\/]+\//)) {
+  DISCORD_REDIRECT_URI = `https://${process.env.DOMAIN || 'soulmap.7thseraph.org'}/admin/auth/callback`;
+}
+
+// Log OAuth configuration for debugging
+console.log('Discord OAuth Configuration (using exact .env variable names):');
+console.log('- Bot/Client ID:', DISCORD_BOT_ID);
+console.log('- Bot Secret:', DISCORD_BOT_SECRET ? '[PRESENT]' : '[MISSING]');
+console.log('- Bot Token:', DISCORD_BOT_TOKEN ? '[PRESENT]' : '[MISSING]');
+console.log('- Redirect URI:', DISCORD_REDIRECT_URI);
+console.log('- Original Redirect URI from .env:', process.env.DISCORD_REDIRECT_URI);
+console.log('- Domain used:', process.env.DOMAIN);
+
+// Add middleware to log all requests to this router
+router.use((req, res, next) => {
+  console.log(`Auth route hit: ${req.method} ${req.originalUrl}`);
+  next();
+});
+
+/**
+ * Token validation endpoint - this handles both auth code and Bearer token validation
+ * Mounted at /api/admin/auth, without the admin authentication middleware
+ */
+router.post('/validate', async (req, res) => {
+  console.log('Token validation request received');
+  const { token, code, grant_type } = req.body; // Destructure grant_type, code, token
+
+  // If no grant_type provided, try to determine it based on which parameters are present
+  let effectiveGrantType = grant_type;
+  if (!effectiveGrantType) {
+    if (code) {
+      console.log('No grant_type provided but code found - assuming authorization_code');
+      effectiveGrantType = 'authorization_code';
+    } else if (token) {
+      console.log('No grant_type provided but token found - assuming access_token');
+      effectiveGrantType = 'access_token';
+    } else {
+      return res.status(400).json({ valid: false, message: 'Either code or token is required' });
+    }
+  }
+
+  let effectiveToken;
+  if (effectiveGrantType === 'authorization_code') {
+    if (!code) return res.status(400).json({ valid: false, message: 'code is required for authorization_code grant_type' });
+    effectiveToken = code;
+  } else if (effectiveGrantType === 'access_token') {
+    if (!token) return res.status(400).json({ valid: false, message: 'token is required for access_token grant_type' });
+    effectiveToken = token;
+  } else {
+    return res.status(400).json({ valid: false, message: 'Invalid grant_type' });
+  }
+
+  console.log(`Processing grant_type: ${effectiveGrantType}`);
+
+  try {
+    let accessToken = effectiveToken; // Initialize accessToken
+
+    // If this is an auth code, exchange it for an access token first
+    if (effectiveGrantType === 'authorization_code') {
+      console.log('Exchanging auth code for access token');
+
+      // Use DISCORD_BOT_SECRET from the environment
+      if (!DISCORD_BOT_SECRET) {
+        console.error('ERROR: Discord bot secret is missing - cannot complete OAuth flow');
+        return res.status(500).json({
+          valid: false,
+          message: 'Server configuration error: Discord bot secret not available',
+          details: 'The server is missing DISCORD_BOT_SECRET environment variable'
+        });
+      }
+
+      try {
+        const tokenData = await exchangeAuthorizationCode({
+          clientId: DISCORD_BOT_ID,
+          clientSecret: DISCORD_BOT_SECRET,
+          code: effectiveToken,
+          redirectUri: DISCORD_REDIRECT_URI
+        });
+        accessToken = tokenData.access_token; // Update accessToken with the exchanged token
+        console.log('Successfully exchanged auth code for access token');
+      } catch (error) {
+        if (error instanceof DiscordApiError) {
+          console.error('Token exchange failed:', error.status, error.message);
+          return res.status(401).json({
+            valid: false,
+            message: 'Failed to exchange code for token',
+            details: error.message
+          });
+        }
+        throw error;
+      }
+    }
+
+    // Check the user's guild membership and roles
+    const result = await resolveDiscordAdmin(accessToken);
+    if (!result.user) {
+      return res.status(result.status).json({
+        valid: false,
+        message: result.error
+      });
+    }
+
+    // User is authenticated and authorized
+    console.log(`Authentication successful for ${result.user.username} (${result.user.role})`);
+
+    // Issue a signed session instead of handing the Discord token back to the browser
+    const { token: sessionToken, expiresAt } = createSession(result.user);
+
+    return res.json({
+      valid: true,
+      token: sessionToken, // Session token for future API calls
+      expiresAt,
+      user: result.user
+    });
+  } catch (error) {
+    console.error('Error validating Discord token:', error);
+    return res.status(500).json({
+      valid: false,
+      message: 'Internal server error during validation',
+      details: error.message,
+      stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+});
+
+// Read the session token from the Authorization header or the request body
+function getSessionToken(req) {
+  const authHeader = req.headers.authorization;
+  if (authHeader && authHeader.startsWith('Bearer ')) {
+    return authHeader.split(' ')[1];
+  }
+  return req.body?.token;
+}
+
+/**
+ * Exchange a session (valid or recently expired) for a fresh one
+ * The user's guild role is looked up again so demoted users lose access.
+ */
+router.post('/refresh', async (req, res) => {
+  const { session, error } = verifySession(getSessionToken(req), { allowExpired: true });
+  if (!session) {
+    return res.status(401).json({ valid: false, message: error });
+  }
+
+  try {
+    const role = resolveRole(await fetchMemberRoles(session.sub));
+    if (!role) {
+      revokeSession(session);
+      return res.status(403).json({ valid: false, message: 'Insufficient permissions: Required role not found' });
+    }
+
+    // The old token can't be used again once it has been refreshed
+    revokeSession(session);
+    const { token, expiresAt } = createSession(
+      { id: session.sub, username: session.username, role },
+      session.authTime
+    );
+
+    return res.json({
+      valid: true,
+      token,
+      expiresAt,
+      user: {
+        id: session.sub,
+        username: session.username,
+        role,
+        isAdmin: role === 'admin'
+      }
+    });
+  } catch (error) {
+    console.error('Error refreshing session:', error);
+    if (error instanceof DiscordApiError && error.status === 429) {
+      return res.status(503).json({ valid: false, message: 'Discord is rate limiting requests, try again shortly' });
+    }
+    return res.status(500).json({ valid: false, message: 'Internal server error during refresh' });
+  }
+});
+
+/**
+ * Log out by revoking the current session
+ */
+router.post('/logout', (req, res) => {
+  const { session } = verifySession(getSessionToken(req), { allowExpired: true });
+  if (session) {
+    revokeSession(session);
+    console.log(`Session ${session.jti} for ${session.username} revoked`);
+  }
+
+  // Logging out an unknown or expired session is not an error
+  res.json({ success: true });
+});
+
+export default router;
@@ -0,0 +1,35 @@
+import express from 'express';
+import db from '#db';  // Use #db instead of relative import
+import { locationCache } from '../middleware/cache.js';
+import { spoilerMode, applySpoilerMode } from '../utils/spoilers.js';
+import { locationsToFeatureCollection } from '../utils/geojson.js';
+import { inlineLocationPoints } from '../utils/locationPoints.js';
+import { DEFAULT_LAYER_ID } from '../utils/mapLayers.js';
+
+const router = express.Router();
+console.log('GeoJSON router file loaded.');
+
+// Export locations as a GeoJSON FeatureCollection, optionally limited to a category path
+// Only published locations are exported. Per-point overrides of multi-point locations
+// end up in properties.pointProperties. Layers don't share coordinates, so one layer is
+// exported at a time: ?layer=<layerId>, the default layer without it.
+router.get('/locations.geojson', spoilerMode, locationCache, async (req, res) => {
+  try {
+    const { category } = req.query;
+    const layerId = typeof req.query.layer === 'string' && req.query.layer !== '' ? req.query.layer : DEFAULT_LAYER_ID;
+
+    const locations = category
+      ? await db.getLocationsByCategory(String(category), undefined, undefined, layerId)
+      : await db.getAllLocations(layerId);
+    const visible = await applySpoilerMode(locations, req.spoilerMode);
+    const points = await db.getPointsForLocations(visible.map(location => location.id));
+
+    res.type('application/geo+json');
+    res.send(JSON.stringify(locationsToFeatureCollection(inlineLocationPoints(visible, points))));
+  } catch (error) {
+    console.error('Error exporting locations as GeoJSON:', error);
+    res.status(500).json({ error: 'Failed to export locations' });
+  }
+});
+
+export default router;
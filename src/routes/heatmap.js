@@ -1,60 +1,228 @@
 const express = require('express');
 const { PrismaClient } = require('@prisma/client');
+const { authenticateAdmin, requirePermission } = require('../middleware/auth.js');
+const { suppressRowNotifications, notifyMapChange } = require('../utils/mapEvents.js');
+const { requestLayerId } = require('../utils/mapLayers.js');
+const {
+  TIME_BUCKETS,
+  parseTimeWindow,
+  timeWindowFilter,
+  parseDecay,
+  decayFactor,
+  bucketRange,
+  countBuckets
+} = require('../utils/heatmapTime.js');
 const router = express.Router();
 const prisma = new PrismaClient();
 
 /**
  * Heatmap API endpoints
+ * Also mounted at /api/layers/:layerId/heatmap (see layers.js). Datapoints are read from
+ * that layer, or from the default layer on the unscoped /api/heatmap routes. Heatmap
+ * types are shared by all layers.
+ * Reads take ?from=, ?to= and ?last= time windows, and /:type also ?decay= (see utils/heatmapTime.js).
  */
 
-// Helper function to generate demo data
-function generateDemoData(type, count = 1000) {
-  const data = [];
-  const width = 7680;
-  const height = 6656;
+// Name of the virtual type that combines every heatmap type
+const AGGREGATED_TYPE = 'aggregated';
 
-  // Generate random hotspots
-  const hotspots = [];
-  const numHotspots = 5;
+// Upper bound on grid resolution to keep matrices reasonably small
+const MAX_GRID_CELLS = 512 * 512;
 
-  for (let i = 0; i < numHotspots; i++) {
-    hotspots.push([
-      Math.floor(Math.random() * width),
-      Math.floor(Math.random() * height)
+// Upper bounds for time series: buckets per request, and grid cells over all buckets
+const MAX_SERIES_BUCKETS = 366;
+const MAX_SERIES_CELLS = 4 * MAX_GRID_CELLS;
+
+// Window of a time series when the request gives no start
+const DEFAULT_SERIES_WINDOW = { day: '30d', week: '12w', month: '52w' };
+
+// Helper function to read [x, y] from a datapoint's lat JSON
+function getDatapointPosition(lat) {
+  if (Array.isArray(lat) && lat.length >= 2) {
+    return [Number(lat[0]), Number(lat[1])];
+  }
+
+  // Tolerate object formats written by older clients
+  if (lat && typeof lat === 'object') {
+    const x = lat.x ?? lat.lng;
+    const y = lat.y ?? lat.lat;
+    if (x !== undefined && y !== undefined) {
+      return [Number(x), Number(y)];
+    }
+  }
+
+  return null;
+}
+
+// Helper function to turn datapoints into [x, y, value, radius] tuples
+// The value is the datapoint intensity scaled by its weight, and by its age when a
+// decay ({ halfLife, reference }) is given
+function toHeatmapPoints(datapoints, decay = null) {
+  const points = [];
+
+  datapoints.forEach(datapoint => {
+    const position = getDatapointPosition(datapoint.lat);
+    if (!position || !Number.isFinite(position[0]) || !Number.isFinite(position[1])) {
+      return;
+    }
+
+    points.push([
+      position[0],
+      position[1],
+      datapoint.intensity * datapoint.weight *
+        (decay ? decayFactor(datapoint.timestamp, decay.reference, decay.halfLife) : 1),
+      datapoint.radius
     ]);
+  });
+
+  return points;
+}
+
+// Helper function to compute intensity statistics over datapoints
+function computeStatistics(datapoints) {
+  if (datapoints.length === 0) {
+    return {
+      count: 0,
+      totalWeight: 0,
+      avgIntensity: 0,
+      maxIntensity: 0,
+      minIntensity: 0
+    };
   }
 
-  // Generate points around hotspots
-  for (let i = 0; i < count; i++) {
-    // Pick a random hotspot
-    const hotspot = hotspots[Math.floor(Math.random() * hotspots.length)];
+  let totalIntensity = 0;
+  let totalWeight = 0;
+  let maxIntensity = -Infinity;
+  let minIntensity = Infinity;
+
+  datapoints.forEach(datapoint => {
+    totalIntensity += datapoint.intensity;
+    totalWeight += datapoint.weight;
+    maxIntensity = Math.max(maxIntensity, datapoint.intensity);
+    minIntensity = Math.min(minIntensity, datapoint.intensity);
+  });
+
+  return {
+    count: datapoints.length,
+    totalWeight,
+    avgIntensity: totalIntensity / datapoints.length,
+    maxIntensity,
+    minIntensity
+  };
+}
 
-    // Create a point near the hotspot with random deviation
-    const stdDev = 500; // Standard deviation (spread)
-    const x = Math.max(0, Math.min(width, hotspot[0] + (Math.random() - 0.5) * stdDev * 2));
-    const y = Math.max(0, Math.min(height, hotspot[1] + (Math.random() - 0.5) * stdDev * 2));
+// Helper function to bin heatmap points into a density matrix covering a map layer
+// values[row][column] holds the summed point values of that cell
+function binPoints(points, cellSize, layer) {
+  const columns = Math.ceil(layer.width / cellSize);
+  const rows = Math.ceil(layer.height / cellSize);
+  const values = Array.from({ length: rows }, () => new Array(columns).fill(0));
+  let max = 0;
+
+  points.forEach(([x, y, value]) => {
+    const column = Math.min(columns - 1, Math.max(0, Math.floor(x / cellSize)));
+    const row = Math.min(rows - 1, Math.max(0, Math.floor(y / cellSize)));
+    values[row][column] += value;
+    max = Math.max(max, values[row][column]);
+  });
+
+  return {
+    cellSize,
+    columns,
+    rows,
+    width: layer.width,
+    height: layer.height,
+    max,
+    values
+  };
+}
 
-    // Random intensity between 0.1 and 1
-    const intensity = 0.1 + Math.random() * 0.9;
+// Helper function to read the ?grid= cell size for a layer
+// Returns { value } (null without a grid) or { error }
+function parseCellSize(query, layer) {
+  if (query.grid === undefined) {
+    return { value: null };
+  }
+  const cellSize = parseFloat(query.grid);
+  const cellCount = Math.ceil(layer.width / cellSize) * Math.ceil(layer.height / cellSize);
+  if (!Number.isFinite(cellSize) || cellSize <= 0 || cellCount > MAX_GRID_CELLS) {
+    return { error: 'Invalid grid cell size' };
+  }
+  return { value: cellSize };
+}
+
+// Helper function to describe a time window in responses
+function windowResponse({ from, to }) {
+  return {
+    from: from ? from.toISOString() : null,
+    to: to ? to.toISOString() : null
+  };
+}
 
-    data.push([x, y, intensity]);
+// Helper function to get the map layer a request reads from
+async function findRequestLayer(req) {
+  return req.mapLayer ?? prisma.mapLayer.findUnique({ where: { id: requestLayerId(req) } });
+}
+
+// Helper function to check the layer a datapoint is written to
+// Returns an error message, or null if the layer exists (or none was given)
+async function checkDatapointLayer(layerId) {
+  if (layerId === undefined) {
+    return null;
   }
+  const layer = await prisma.mapLayer.findUnique({ where: { id: String(layerId) } });
+  return layer ? null : `Map layer '${layerId}' not found.`;
+}
+
+// Helper function to find a heatmap type by name or numeric ID
+async function findHeatmapType(identifier) {
+  const byName = await prisma.heatmapType.findFirst({
+    where: { name: { equals: identifier, mode: 'insensitive' } }
+  });
 
-  return data;
+  if (byName || !/^\d+$/.test(identifier)) {
+    return byName;
+  }
+
+  return prisma.heatmapType.findUnique({
+    where: { id: parseInt(identifier, 10) }
+  });
 }
 
 /**
  * @route GET /api/heatmap
- * @description Get available heatmap data types
+ * @description Get available heatmap data types, with their datapoint counts on the layer
  * @access Public
  */
 router.get('/', async (req, res) => {
   try {
-    // In a real implementation, we would query the database for available types
-    const types = ['aggregated', 'deaths', 'rare', 'resources', 'enemies', 'player'];
+    const window = parseTimeWindow(req.query);
+    if (window.error) {
+      return res.status(400).json({ error: window.error });
+    }
+
+    const heatmapTypes = await prisma.heatmapType.findMany({
+      orderBy: { name: 'asc' },
+      include: {
+        _count: {
+          select: {
+            datapoints: { where: { datapoint: { layerId: requestLayerId(req), ...timeWindowFilter(window.value) } } }
+          }
+        }
+      }
+    });
 
     res.json({
-      types,
+      types: [AGGREGATED_TYPE, ...heatmapTypes.map(type => type.name)],
+      layer: requestLayerId(req),
+      window: windowResponse(window.value),
+      details: heatmapTypes.map(type => ({
+        id: type.id,
+        name: type.name,
+        intensity: type.intensity,
+        colorBindings: type.colorBindings,
+        datapointCount: type._count.datapoints
+      })),
       timestamp: new Date().toISOString()
     });
   } catch (error) {
@@ -64,49 +232,17 @@ router.get('/', async (req, res) => {
 });
 
 /**
- * @route GET /api/heatmap/:type
- * @description Get heatmap data for a specific type
- * @access Public
- */
-router.get('/:type', async (req, res) => {
-  try {
-    const { type } = req.params;
-
-    // In a real implementation, we would query the database
-    let data, statistics;
-
-    // For now, generate demo data
-    const pointCount = type === 'aggregated' ? 2000 : 1000;
-    data = generateDemoData(type, pointCount);
-
-    // Generate demo statistics
-    statistics = {
-      count: data.length,
-      avgIntensity: 0.5,
-      maxIntensity: 1.0,
-      minIntensity: 0.1
-    };
-
-    // Return the data with metadata
-    res.json({
-      data,
-      type,
-      timestamp: new Date().toISOString(),
-      types: ['aggregated', 'deaths', 'rare', 'resources', 'enemies', 'player'],
-      statistics
-    });
-  } catch (error) {
-    console.error(`Error fetching ${req.params.type} heatmap data:`, error);
-    res.status(500).json({ error: `Failed to fetch ${req.params.type} heatmap data` });
-  }
-});
-
-/**
- * Get all heatmap datapoints with their associated types
+ * Get all heatmap datapoints of the layer with their associated types
  */
 router.get('/datapoints', async (req, res) => {
   try {
+    const window = parseTimeWindow(req.query);
+    if (window.error) {
+      return res.status(400).json({ error: window.error });
+    }
+
     const datapoints = await prisma.heatmapDatapoint.findMany({
+      where: { layerId: requestLayerId(req), ...timeWindowFilter(window.value) },
       include: {
         types: {
           include: {
@@ -125,6 +261,7 @@ router.get('/datapoints', async (req, res) => {
       radius: datapoint.radius,
       visible: datapoint.visible,
       timestamp: datapoint.timestamp,
+      layerId: datapoint.layerId,
       // Transform the types array to be more usable
       types: datapoint.types.map(t => ({
         id: t.type.id,
@@ -154,12 +291,204 @@ router.get('/types', async (req, res) => {
   }
 });
 
+/**
+ * @route GET /api/heatmap/:type
+ * @description Get heatmap data for a specific type ("aggregated" combines all types)
+ * Only visible datapoints are included. Pass ?grid=<cellSize> to receive a
+ * pre-binned density matrix covering the layer instead of raw points, a time window
+ * (?from=, ?to=, ?last=) to include only the datapoints recorded in it, and
+ * ?decay=<half-life> to weigh recent datapoints more.
+ * @access Public
+ */
+router.get('/:type', async (req, res) => {
+  try {
+    const { type } = req.params;
+
+    const layer = await findRequestLayer(req);
+    if (!layer) {
+      return res.status(404).json({ error: `Map layer '${requestLayerId(req)}' not found` });
+    }
+
+    const cellSize = parseCellSize(req.query, layer);
+    if (cellSize.error) {
+      return res.status(400).json({ error: cellSize.error });
+    }
+
+    const now = new Date();
+    const window = parseTimeWindow(req.query, now);
+    if (window.error) {
+      return res.status(400).json({ error: window.error });
+    }
+    const decay = parseDecay(req.query);
+    if (decay.error) {
+      return res.status(400).json({ error: decay.error });
+    }
+
+    const where = { visible: true, layerId: layer.id, ...timeWindowFilter(window.value) };
+    let heatmapType = null;
+
+    if (type !== AGGREGATED_TYPE) {
+      heatmapType = await findHeatmapType(type);
+      if (!heatmapType) {
+        return res.status(404).json({ error: `Heatmap type '${type}' not found` });
+      }
+      where.types = { some: { typeId: heatmapType.id } };
+    }
+
+    const [datapoints, heatmapTypes] = await Promise.all([
+      prisma.heatmapDatapoint.findMany({
+        where,
+        select: {
+          lat: true,
+          intensity: true,
+          weight: true,
+          radius: true,
+          timestamp: true
+        }
+      }),
+      prisma.heatmapType.findMany({
+        select: { name: true },
+        orderBy: { name: 'asc' }
+      })
+    ]);
+
+    // Ages are measured from the end of the window
+    const points = toHeatmapPoints(
+      datapoints,
+      decay.value ? { halfLife: decay.value, reference: window.value.to ?? now } : null
+    );
+
+    // Return the data with metadata
+    res.json({
+      ...(cellSize.value ? { grid: binPoints(points, cellSize.value, layer) } : { data: points }),
+      type,
+      layer: layer.id,
+      window: windowResponse(window.value),
+      decay: decay.value ? String(req.query.decay) : null,
+      typeId: heatmapType?.id ?? null,
+      intensity: heatmapType?.intensity ?? null,
+      colorBindings: heatmapType?.colorBindings ?? null,
+      timestamp: new Date().toISOString(),
+      types: [AGGREGATED_TYPE, ...heatmapTypes.map(t => t.name)],
+      statistics: computeStatistics(datapoints)
+    });
+  } catch (error) {
+    console.error(`Error fetching ${req.params.type} heatmap data:`, error);
+    res.status(500).json({ error: `Failed to fetch ${req.params.type} heatmap data` });
+  }
+});
+
+/**
+ * @route GET /api/heatmap/:type/series
+ * @description Heatmap data for a type split into time buckets, for animated playback
+ * ?bucket= is day (default), week or month. The window is given as for /:type and
+ * defaults to the last 30 days, 12 weeks or 52 weeks. Each bucket has raw points, or
+ * a density matrix with ?grid=<cellSize>. Decay doesn't apply to series.
+ * @access Public
+ */
+router.get('/:type/series', async (req, res) => {
+  try {
+    const { type } = req.params;
+    const bucket = req.query.bucket ?? 'day';
+    if (!TIME_BUCKETS.includes(bucket)) {
+      return res.status(400).json({ error: `bucket must be one of: ${TIME_BUCKETS.join(', ')}` });
+    }
+
+    const layer = await findRequestLayer(req);
+    if (!layer) {
+      return res.status(404).json({ error: `Map layer '${requestLayerId(req)}' not found` });
+    }
+
+    const cellSize = parseCellSize(req.query, layer);
+    if (cellSize.error) {
+      return res.status(400).json({ error: cellSize.error });
+    }
+
+    const now = new Date();
+    const hasStart = req.query.from !== undefined || req.query.last !== undefined;
+    const window = parseTimeWindow(hasStart ? req.query : { ...req.query, last: DEFAULT_SERIES_WINDOW[bucket] }, now);
+    if (window.error) {
+      return res.status(400).json({ error: window.error });
+    }
+    const from = window.value.from;
+    const to = window.value.to ?? now;
+
+    const bucketCount = countBuckets(from, to, bucket);
+    if (bucketCount > MAX_SERIES_BUCKETS) {
+      return res.status(400).json({ error: `A series can have at most ${MAX_SERIES_BUCKETS} buckets, use a shorter window or larger buckets` });
+    }
+    if (cellSize.value) {
+      const cellCount = Math.ceil(layer.width / cellSize.value) * Math.ceil(layer.height / cellSize.value);
+      if (cellCount * bucketCount > MAX_SERIES_CELLS) {
+        return res.status(400).json({ error: 'Too many grid cells for this many buckets, use a larger grid cell size' });
+      }
+    }
+
+    const where = { visible: true, layerId: layer.id, ...timeWindowFilter({ from, to }) };
+    let heatmapType = null;
+
+    if (type !== AGGREGATED_TYPE) {
+      heatmapType = await findHeatmapType(type);
+      if (!heatmapType) {
+        return res.status(404).json({ error: `Heatmap type '${type}' not found` });
+      }
+      where.types = { some: { typeId: heatmapType.id } };
+    }
+
+    const datapoints = await prisma.heatmapDatapoint.findMany({
+      where,
+      select: {
+        lat: true,
+        intensity: true,
+        weight: true,
+        radius: true,
+        timestamp: true
+      },
+      orderBy: { timestamp: 'asc' }
+    });
+
+    // Datapoints are sorted by time, so each bucket takes the next run of them
+    let next = 0;
+    const buckets = bucketRange(from, to, bucket).map(({ start, end }) => {
+      const inBucket = [];
+      while (next < datapoints.length && datapoints[next].timestamp < end) {
+        inBucket.push(datapoints[next]);
+        next++;
+      }
+      const points = toHeatmapPoints(inBucket);
+      return {
+        start: start.toISOString(),
+        end: end.toISOString(),
+        count: inBucket.length,
+        ...(cellSize.value ? { grid: binPoints(points, cellSize.value, layer) } : { data: points })
+      };
+    });
+
+    res.json({
+      type,
+      layer: layer.id,
+      typeId: heatmapType?.id ?? null,
+      intensity: heatmapType?.intensity ?? null,
+      colorBindings: heatmapType?.colorBindings ?? null,
+      bucket,
+      window: windowResponse({ from, to }),
+      buckets,
+      timestamp: now.toISOString()
+    });
+  } catch (error) {
+    console.error(`Error fetching ${req.params.type} heatmap series:`, error);
+    res.status(500).json({ error: `Failed to fetch ${req.params.type} heatmap series` });
+  }
+});
+
 /**
  * Create a new heatmap datapoint
+ * It goes on the layer in the URL, or the body's layerId on the unscoped route.
  */
-router.post('/datapoints', async (req, res) => {
+router.post('/datapoints', authenticateAdmin, requirePermission('heatmap:datapoints:write'), async (req, res) => {
   try {
     const { lat, intensity, weight, radius, typeIds } = req.body;
+    const layerId = req.mapLayer?.id ?? req.body.layerId;
 
     // Validate required fields
     if (!lat || lat.length !== 2 || !Array.isArray(lat)) {
@@ -170,6 +499,11 @@ router.post('/datapoints', async (req, res) => {
       return res.status(400).json({ error: 'Weight is required and must be a number.' });
     }
 
+    const layerError = await checkDatapointLayer(layerId);
+    if (layerError) {
+      return res.status(400).json({ error: layerError });
+    }
+
     // Create the datapoint
     const datapoint = await prisma.heatmapDatapoint.create({
       data: {
@@ -177,6 +511,7 @@ router.post('/datapoints', async (req, res) => {
         intensity: intensity || 0.75,
         weight: parseInt(weight),
         radius: radius || 25,
+        ...(layerId !== undefined ? { layerId: String(layerId) } : {}),
         // Connect to any specified types
         ...(typeIds && typeIds.length > 0 ? {
           types: {
@@ -205,7 +540,7 @@ router.post('/datapoints', async (req, res) => {
 /**
  * Create a new heatmap type
  */
-router.post('/types', async (req, res) => {
+router.post('/types', authenticateAdmin, requirePermission('heatmap:types:write'), async (req, res) => {
   try {
     const { name, intensity, colorBindings } = req.body;
 
@@ -260,14 +595,22 @@ router.post('/types', async (req, res) => {
 /**
  * Update a heatmap datapoint
  */
-router.put('/datapoints/:id', async (req, res) => {
+router.put('/datapoints/:id', authenticateAdmin, requirePermission('heatmap:datapoints:write'), async (req, res) => {
   try {
     const { id } = req.params;
-    const { lat, intensity, weight, radius, visible, typeIds } = req.body;
+    const { lat, intensity, weight, radius, visible, typeIds, layerId } = req.body;
 
     // Build the update data object
     const updateData = {};
 
+    if (layerId !== undefined) {
+      const layerError = await checkDatapointLayer(layerId);
+      if (layerError) {
+        return res.status(400).json({ error: layerError });
+      }
+      updateData.layerId = String(layerId);
+    }
+
     if (lat && Array.isArray(lat) && lat.length === 2) {
       updateData.lat = lat;
     }
@@ -324,7 +667,7 @@ router.put('/datapoints/:id', async (req, res) => {
 /**
  * Update a heatmap type
  */
-router.put('/types/:id', async (req, res) => {
+router.put('/types/:id', authenticateAdmin, requirePermission('heatmap:types:write'), async (req, res) => {
   try {
     const { id } = req.params;
     const { name, intensity, colorBindings } = req.body;
@@ -392,7 +735,7 @@ router.put('/types/:id', async (req, res) => {
 /**
  * Delete a heatmap datapoint
  */
-router.delete('/datapoints/:id', async (req, res) => {
+router.delete('/datapoints/:id', authenticateAdmin, requirePermission('heatmap:datapoints:write'), async (req, res) => {
   try {
     const { id } = req.params;
 
@@ -410,17 +753,31 @@ router.delete('/datapoints/:id', async (req, res) => {
 /**
  * Delete a heatmap type
  */
-router.delete('/types/:id', async (req, res) => {
+router.delete('/types/:id', authenticateAdmin, requirePermission('heatmap:types:delete'), async (req, res) => {
   try {
     const { id } = req.params;
 
-    await prisma.heatmapType.delete({
-      where: { id: parseInt(id) }
+    // Deleting a type cascades to its datapoint links; send one event for all of it
+    await prisma.$transaction(async (tx) => {
+      await suppressRowNotifications(tx);
+
+      const deletedType = await tx.heatmapType.delete({
+        where: { id: parseInt(id) }
+      });
+
+      await notifyMapChange(tx, 'heatmap.type.deleted', {
+        id: deletedType.id,
+        name: deletedType.name,
+        deletedDatapoints: 0
+      });
     });
 
     res.json({ success: true });
   } catch (error) {
     console.error('Error deleting heatmap type:', error);
+    if (error.code === 'P2025') {
+      return res.status(404).json({ error: 'Heatmap type not found' });
+    }
     res.status(500).json({ error: 'Failed to delete heatmap type' });
   }
 });
@@ -0,0 +1,239 @@
+import express from 'express';
+import db from '#db';  // Use #db instead of relative import
+import { suppressRowNotifications, notifyMapChange, summaryIds } from '../utils/mapEvents.js';
+import {
+  INGEST_MAX_LINES,
+  INGEST_CHUNK_SIZE,
+  INGEST_CONTENT_TYPES,
+  IngestionError,
+  hashIngestionKey,
+  requestIngestionKey,
+  ingestionFormat,
+  parseIngestionBody,
+  validateIngestionRecord,
+  takeRateLimit
+} from '../utils/ingestion.js';
+
+/**
+ * Bulk ingestion for bots and telemetry (see utils/ingestion.js)
+ *
+ *   POST /api/ingest/heatmap   add a batch of heatmap datapoints (NDJSON or CSV) to the
+ *                              key's map layer; ?layer= naming another layer is refused
+ *
+ * Requests authenticate with an ingestion key, not an admin session. Rate limits are kept
+ * in memory per server process (see takeRateLimit).
+ */
+
+const router = express.Router();
+
+console.log('Ingest router file loaded.');
+
+// Rejected lines listed in a response; the count covers all of them
+const MAX_REPORTED_ERRORS = 100;
+
+router.use(express.text({
+  type: Object.values(INGEST_CONTENT_TYPES).flat(),
+  limit: process.env.INGEST_BODY_LIMIT || '10mb'
+}));
+
+// Authenticate with an ingestion key and count the request against its rate limit
+async function authenticateIngestionKey(req, res, next) {
+  const key = requestIngestionKey(req);
+  if (!key) {
+    return res.status(401).json({ error: 'Unauthorized: Missing ingestion key' });
+  }
+
+  try {
+    const prisma = await db.getPrismaClient();
+    if (!prisma) {
+      return res.status(500).json({ error: 'Failed to connect to database' });
+    }
+
+    const ingestionKey = await prisma.ingestionKey.findUnique({ where: { keyHash: hashIngestionKey(key) } });
+    if (!ingestionKey || !ingestionKey.enabled) {
+      console.log('Ingestion auth failed: unknown or disabled key.');
+      return res.status(401).json({ error: 'Unauthorized: Invalid ingestion key' });
+    }
+
+    const limited = takeRateLimit(ingestionKey, { requests: 1 });
+    if (limited) {
+      res.set('Retry-After', String(limited.retryAfter));
+      return res.status(429).json({ error: limited.error, retryAfter: limited.retryAfter });
+    }
+
+    req.ingestionKey = ingestionKey;
+    next();
+  } catch (error) {
+    console.error('Ingestion key authentication error:', error);
+    res.status(500).json({ error: 'Internal server error during authentication' });
+  }
+}
+
+// Find the heatmap types named in a batch, creating missing ones if the key allows it
+// Returns name -> type ID and the names of the types that were created
+async function resolveTypes(prisma, names, autoCreate) {
+  let types = await prisma.heatmapType.findMany({ where: { name: { in: names } } });
+  const missing = names.filter(name => !types.some(type => type.name === name));
+  let created = [];
+
+  if (missing.length > 0 && autoCreate) {
+    await prisma.heatmapType.createMany({ data: missing.map(name => ({ name })), skipDuplicates: true });
+    types = await prisma.heatmapType.findMany({ where: { name: { in: names } } });
+    created = missing;
+  }
+
+  return { typeIds: new Map(types.map(type => [type.name, type.id])), created };
+}
+
+// Add a batch of heatmap datapoints
+router.post('/heatmap', authenticateIngestionKey, async (req, res) => {
+  const key = req.ingestionKey;
+  try {
+    const format = ingestionFormat(req.get('content-type'));
+    if (!format) {
+      return res.status(415).json({ error: 'Send NDJSON (application/x-ndjson) or CSV (text/csv)' });
+    }
+    if (typeof req.body !== 'string' || req.body.trim() === '') {
+      return res.status(400).json({ error: 'No datapoints in request' });
+    }
+
+    const { records, errors } = parseIngestionBody(req.body, format);
+    const received = records.length + errors.length;
+    if (received > INGEST_MAX_LINES) {
+      return res.status(413).json({ error: `At most ${INGEST_MAX_LINES} lines can be sent in one request` });
+    }
+    if (received > key.datapointsPerMinute) {
+      return res.status(413).json({ error: `This key accepts at most ${key.datapointsPerMinute} datapoints per minute, send smaller batches` });
+    }
+
+    const limited = takeRateLimit(key, { datapoints: received });
+    if (limited) {
+      res.set('Retry-After', String(limited.retryAfter));
+      return res.status(429).json({ error: limited.error, retryAfter: limited.retryAfter });
+    }
+
+    const prisma = await db.getPrismaClient();
+    if (!prisma) {
+      return res.status(500).json({ error: 'Failed to connect to database' });
+    }
+
+    // A key only writes to its own layer
+    if (req.query.layer !== undefined && String(req.query.layer) !== key.layerId) {
+      return res.status(403).json({ error: `This key can only add datapoints to map layer '${key.layerId}'` });
+    }
+    const layer = await prisma.mapLayer.findUnique({ where: { id: key.layerId } });
+    if (!layer) {
+      return res.status(400).json({ error: `Map layer '${key.layerId}' not found` });
+    }
+
+    const now = new Date();
+    const valid = [];
+    records.forEach(({ line, fields }) => {
+      const result = validateIngestionRecord(fields, layer, now);
+      if (result.error) {
+        errors.push({ line, error: result.error });
+      } else {
+        valid.push({ line, ...result.value });
+      }
+    });
+
+    const { typeIds, created } = await resolveTypes(
+      prisma,
+      [...new Set(valid.map(record => record.type))],
+      key.autoCreateTypes
+    );
+    const accepted = valid.filter(record => {
+      if (typeIds.has(record.type)) {
+        return true;
+      }
+      errors.push({ line: record.line, error: `unknown heatmap type "${record.type}"` });
+      return false;
+    });
+
+    // Chunks are separate transactions; each type's rows are inserted together so the
+    // returned IDs can be linked to it without relying on row order
+    const insertedIds = [];
+    let insertError = null;
+    try {
+      for (let start = 0; start < accepted.length; start += INGEST_CHUNK_SIZE) {
+        const byType = new Map();
+        accepted.slice(start, start + INGEST_CHUNK_SIZE).forEach(record => {
+          const typeId = typeIds.get(record.type);
+          if (!byType.has(typeId)) {
+            byType.set(typeId, []);
+          }
+          byType.get(typeId).push(record);
+        });
+
+        const chunkIds = await prisma.$transaction(async (tx) => {
+          await suppressRowNotifications(tx);
+          const ids = [];
+
+          for (const [typeId, rows] of byType) {
+            const datapoints = await tx.heatmapDatapoint.createManyAndReturn({
+              data: rows.map(record => ({
+                lat: [record.x, record.y],
+                weight: record.weight,
+                intensity: record.intensity,
+                timestamp: record.timestamp,
+                layerId: layer.id
+              })),
+              select: { id: true }
+            });
+            await tx.heatmapDatapointType.createMany({
+              data: datapoints.map(datapoint => ({ datapointId: datapoint.id, typeId }))
+            });
+            ids.push(...datapoints.map(datapoint => datapoint.id));
+          }
+          return ids;
+        });
+        insertedIds.push(...chunkIds);
+      }
+    } catch (error) {
+      insertError = error;
+    }
+
+    // One event for the whole batch, covering whatever was committed
+    if (insertedIds.length > 0) {
+      await notifyMapChange(prisma, 'heatmap.datapoints.ingested', {
+        count: insertedIds.length,
+        ids: summaryIds(insertedIds),
+        layerId: layer.id,
+        typeIds: [...new Set(accepted.map(record => typeIds.get(record.type)))],
+        source: key.name
+      });
+    }
+
+    if (insertError) {
+      if (insertedIds.length === 0) {
+        throw insertError;
+      }
+      // Earlier chunks are committed, tell the source what made it in
+      console.error(`Error inserting ingested datapoints from ${key.name}:`, insertError);
+      return res.status(500).json({ error: 'Failed to insert all datapoints', inserted: insertedIds.length });
+    }
+
+    await prisma.ingestionKey.update({ where: { id: key.id }, data: { lastUsedAt: now } });
+
+    errors.sort((a, b) => a.line - b.line);
+    console.log(`Ingested ${insertedIds.length} heatmap datapoints from ${key.name}, rejected ${errors.length} lines`);
+
+    // Nothing usable at all is a client error; partial batches still succeed
+    res.status(insertedIds.length === 0 && errors.length > 0 ? 422 : 200).json({
+      layerId: layer.id,
+      received,
+      inserted: insertedIds.length,
+      rejected: errors.length,
+      createdTypes: created,
+      errors: errors.slice(0, MAX_REPORTED_ERRORS)
+    });
+  } catch (error) {
+    if (error instanceof IngestionError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error ingesting heatmap datapoints:', error);
+    res.status(500).json({ error: 'Failed to ingest heatmap datapoints' });
+  }
+});
+
+export default router;
@@ -0,0 +1,55 @@
+import express from 'express';
+import db from '#db';  // Use #db instead of relative import
+import locationsRouter from './locations.js';
+import heatmapRouter from './heatmap.js';
+
+/**
+ * Map layers (see utils/mapLayers.js)
+ *
+ *   GET /api/layers                       every layer, in display order
+ *   GET /api/layers/:layerId              one layer: size, tile source and zoom range
+ *   /api/layers/:layerId/locations/...    the /api/locations endpoints for that layer
+ *   /api/layers/:layerId/heatmap/...      the /api/heatmap endpoints for that layer
+ *
+ * The unscoped /api/locations and /api/heatmap endpoints serve the default layer.
+ */
+
+const router = express.Router();
+
+console.log('Layers router file loaded.');
+
+// Get all map layers
+router.get('/', async (req, res) => {
+  try {
+    res.json(await db.getMapLayers());
+  } catch (error) {
+    console.error('Error fetching map layers:', error);
+    res.status(500).json({ error: 'Failed to fetch map layers' });
+  }
+});
+
+// Load the layer named in the URL for everything below it; unknown layers don't exist
+router.use('/:layerId', async (req, res, next) => {
+  try {
+    const layer = await db.getMapLayer(req.params.layerId);
+    if (!layer) {
+      return res.status(404).json({ error: 'Map layer not found' });
+    }
+
+    req.mapLayer = layer;
+    next();
+  } catch (error) {
+    console.error('Error fetching map layer:', error);
+    res.status(500).json({ error: 'Failed to fetch map layer' });
+  }
+});
+
+// Get a single map layer
+router.get('/:layerId', (req, res) => {
+  res.json(req.mapLayer);
+});
+
+router.use('/:layerId/locations', locationsRouter);
+router.use('/:layerId/heatmap', heatmapRouter);
+
+export default router;
@@ -1,4 +1,7 @@
 import express from 'express';
+import { appendEvent, eventsSince, parseEventId, getLastEventId } from '../utils/eventLog.js';
+import { parseBoundingBox, parseCategoryList } from '../utils/viewport.js';
+import { resolveSpoilerMode, getSpoilerCategories, currentSpoilerCategories, isSpoilerType } from '../utils/spoilers.js';
 
 const router = express.Router();
 console.log('SSE Listener router file loaded.');
@@ -11,40 +14,188 @@ export function getClients() {
   return clients;
 }
 
+/**
+ * Build a subscription filter from ?categories=, ?bbox=, ?spoilerMode= and ?layer= query parameters
+ * @returns {{filter?: {categories: string[], bounds: Object|null, hideSpoilers: boolean, layer: string|null}, error?: string}}
+ */
+function parseSubscriptionFilter(req) {
+  const { query } = req;
+  const bounds = query.bbox !== undefined ? parseBoundingBox(query.bbox) : null;
+  if (query.bbox !== undefined && !bounds) {
+    return { error: 'Invalid bbox, expected minX,minY,maxX,maxY' };
+  }
+
+  const mode = resolveSpoilerMode(req);
+  if (!mode) {
+    return { error: 'Invalid spoilerMode' };
+  }
+
+  if (query.layer !== undefined && (typeof query.layer !== 'string' || query.layer === '')) {
+    return { error: 'Invalid layer' };
+  }
+
+  return {
+    filter: {
+      categories: parseCategoryList(query.categories),
+      bounds,
+      hideSpoilers: mode !== 'full',
+      layer: query.layer ?? null
+    }
+  };
+}
+
+// Check whether an event concerns a map layer
+// Location changes match on their new or old layer; other events carry `layerId` when they
+// belong to one layer (null or missing means every layer).
+function eventOnLayer(data, layer) {
+  const payload = data?.data;
+  if (!payload || typeof payload !== 'object') {
+    return true;
+  }
+
+  if (data.type === 'change') {
+    // Notifications sent before layers existed don't say
+    if (!('layerId' in payload)) {
+      return true;
+    }
+    return payload.layerId === layer || ('oldLayerId' in payload && payload.oldLayerId === layer);
+  }
+
+  return payload.layerId === undefined || payload.layerId === null || payload.layerId === layer;
+}
+
+// Category path of a location type, with a leading slash
+function normalizeType(type) {
+  return type.startsWith('/') ? type : `/${type}`;
+}
+
+// Check one state (new or old) of a changed location against a filter
+function stateMatches(type, bounds, filter) {
+  if (filter.categories.length > 0) {
+    if (typeof type !== 'string') {
+      return false;
+    }
+    const path = normalizeType(type);
+    const inCategory = filter.categories.some(category => path === category || path.startsWith(`${category}/`));
+    if (!inCategory) {
+      return false;
+    }
+  }
+
+  if (filter.bounds) {
+    // Locations without coordinates can't be inside any region
+    if (!bounds) {
+      return false;
+    }
+    return bounds.maxX >= filter.bounds.minX && bounds.minX <= filter.bounds.maxX &&
+      bounds.maxY >= filter.bounds.minY && bounds.minY <= filter.bounds.maxY;
+  }
+
+  return true;
+}
+
+/**
+ * Check whether a client with a filter should receive an event
+ * Location changes match if either the new or (for updates and deletes) the old state
+ * matches, so clients also hear about locations leaving their categories, region or layer.
+ * Events that aren't about a single location are delivered to everybody subscribed to their
+ * layer; changes to locations that stay unpublished to nobody.
+ */
+function eventMatchesFilter(data, filter) {
+  const change = data?.type === 'change' ? data.data : null;
+
+  // Changes to locations that weren't and aren't published are of no interest to the public map
+  if (change && 'status' in change && change.status !== 'published' &&
+      (!('oldStatus' in change) || change.oldStatus !== 'published')) {
+    return false;
+  }
+
+  if (filter?.layer && !eventOnLayer(data, filter.layer)) {
+    return false;
+  }
+
+  if (!filter || (filter.categories.length === 0 && !filter.bounds && !filter.hideSpoilers)) {
+    return true;
+  }
+
+  if (!change || !('type' in change)) {
+    return true;
+  }
+
+  // Spoiler-safe clients only hear about locations that are (or were) outside spoiler
+  // categories - a location moving into one is still announced so the client drops it
+  if (filter.hideSpoilers) {
+    const spoilerPaths = currentSpoilerCategories();
+    const hidden = isSpoilerType(change.type, spoilerPaths) &&
+      (!('oldType' in change) || isSpoilerType(change.oldType, spoilerPaths));
+    if (hidden) {
+      return false;
+    }
+  }
+
+  return stateMatches(change.type, change.bounds, filter) ||
+    ('oldType' in change && stateMatches(change.oldType, change.oldBounds, filter));
+}
+
+// Format an event from the log as an SSE frame
+function formatEvent(event) {
+  return `id: ${event.id}\ndata: ${event.json}\n\n`;
+}
+
 // Helper to broadcast to all clients
+// Every broadcast is recorded in the event log so reconnecting clients can catch up
 export function broadcastToAll(data) {
-  const jsonData = typeof data === 'string' ? data : JSON.stringify(data);
+  const event = appendEvent(data);
   
   // Skip broadcasting if no clients are connected
   if (clients.length === 0) {
-    console.log('No clients connected, skipping broadcast');
+    console.log(`No clients connected, event ${event.id} logged only`);
     return;
   }
   
-  console.log(`Broadcasting to ${clients.length} clients`);
+  const recipients = clients.filter(client => eventMatchesFilter(event.data, client.filter));
+  console.log(`Broadcasting event ${event.id} to ${recipients.length} of ${clients.length} clients`);
   
   // Track clients that failed to receive the message
   const failedClients = [];
   
-  clients.forEach((client, index) => {
+  recipients.forEach(client => {
     try {
-      client.res.write(`data: ${jsonData}\n\n`);
+      client.res.write(formatEvent(event));
     } catch (error) {
       console.warn(`Error broadcasting to client ${client.id}:`, error.message);
-      failedClients.push(index);
+      failedClients.push(client);
     }
   });
   
-  // Remove failed clients (in reverse order to avoid index shifting issues)
-  failedClients.reverse().forEach(index => {
-    const client = clients[index];
-    console.log(`Removing failed client ${client.id} from clients list`);
-    clients.splice(index, 1);
+  // Remove failed clients
+  failedClients.forEach(client => {
+    const index = clients.indexOf(client);
+    if (index !== -1) {
+      console.log(`Removing failed client ${client.id} from clients list`);
+      clients.splice(index, 1);
+    }
   });
 }
 
 // SSE endpoint
-router.get('/', (req, res) => {
+// Optional ?categories=/Fable/Quests,/Resources and ?bbox=minX,minY,maxX,maxY
+// limit location change events to those categories and that region,
+// ?spoilerMode=safe|strict leaves out changes in spoiler categories, and
+// ?layer=<layerId> leaves out events about other map layers
+router.get('/', async (req, res) => {
+  const { filter, error } = parseSubscriptionFilter(req);
+  if (error) {
+    return res.status(400).json({ error });
+  }
+
+  // Make sure the spoiler categories are loaded before events are filtered with them
+  if (filter.hideSpoilers) {
+    await getSpoilerCategories().catch(loadError => {
+      console.error('Error loading spoiler categories:', loadError);
+    });
+  }
+
   // Set up SSE connection with proper CORS headers
   res.writeHead(200, {
     'Content-Type': 'text/event-stream',
@@ -53,20 +204,44 @@ router.get('/', (req, res) => {
     'Access-Control-Allow-Origin': '*'
   });
   
-  // Send initial connection message
-  res.write(`data: ${JSON.stringify({ type: 'connected', message: 'Connected to SSE stream' })}\n\n`);
+  // Replay anything a reconnecting client missed. Browsers send Last-Event-ID
+  // automatically; ?lastEventId is for clients that can't set headers.
+  const lastEventId = parseEventId(req.headers['last-event-id'] ?? req.query.lastEventId);
+  
+  // Send initial connection message. New clients get the current event ID so that
+  // a reconnect right after connecting can still resume.
+  const connectedId = lastEventId === null ? `id: ${getLastEventId()}\n` : '';
+  res.write(`${connectedId}data: ${JSON.stringify({ type: 'connected', message: 'Connected to SSE stream' })}\n\n`);
+  
+  if (lastEventId !== null) {
+    const missed = eventsSince(lastEventId);
+    if (missed.resync) {
+      console.log(`Client asked to resume from ${lastEventId}, too old to replay - sending resync`);
+      res.write(`id: ${missed.lastEventId}\ndata: ${JSON.stringify({
+        type: 'resync',
+        message: 'Missed events are no longer available, reload all data',
+        timestamp: Date.now()
+      })}\n\n`);
+    } else {
+      console.log(`Replaying ${missed.events.length} missed events since ${lastEventId}`);
+      missed.events
+        .filter(event => eventMatchesFilter(event.data, filter))
+        .forEach(event => res.write(formatEvent(event)));
+    }
+  }
   
   // Generate client ID
   const clientId = Date.now().toString();
   
   // Store client connection
-  clients.push({ id: clientId, res });
+  clients.push({ id: clientId, res, filter });
   console.log(`Client ${clientId} connected to SSE, total clients: ${clients.length}`);
   
   // Set up heartbeat to prevent connection timeout
   const heartbeatInterval = setInterval(() => {
     try {
-      res.write(`data: ${JSON.stringify({ type: 'ping', timestamp: Date.now() })}\n\n`);
+      // Carry the latest event ID so filtered clients don't fall behind the replay window
+      res.write(`id: ${getLastEventId()}\ndata: ${JSON.stringify({ type: 'ping', timestamp: Date.now() })}\n\n`);
     } catch (error) {
       // If we can't write to the response, clean up
       console.warn(`Heartbeat failed for client ${clientId}:`, error.message);
@@ -90,9 +265,43 @@ router.get('/', (req, res) => {
 });
 
 // Polling endpoint for clients that don't support SSE
-router.get('/poll', (req, res) => {
+// Pass ?since=<lastEventId> from the previous response to get the changes made since.
+// Accepts the same ?categories=, ?bbox=, ?spoilerMode= and ?layer= filters as the SSE endpoint.
+router.get('/poll', async (req, res) => {
+  const { filter, error } = parseSubscriptionFilter(req);
+  if (error) {
+    return res.status(400).json({ error });
+  }
+
+  if (filter.hideSpoilers) {
+    await getSpoilerCategories().catch(loadError => {
+      console.error('Error loading spoiler categories:', loadError);
+    });
+  }
+
+  const since = parseEventId(req.query.since);
+
+  if (since === null) {
+    if (req.query.since !== undefined) {
+      return res.status(400).json({ error: 'since must be an event ID from a previous response' });
+    }
+
+    // First poll: just hand out the cursor
+    return res.json({
+      updated: false,
+      events: [],
+      lastEventId: getLastEventId(),
+      timestamp: Date.now()
+    });
+  }
+
+  const result = eventsSince(since);
+  const events = result.events.filter(event => eventMatchesFilter(event.data, filter));
   res.json({
-    updated: false,
+    updated: result.resync || events.length > 0,
+    resync: result.resync,
+    events: events.map(event => ({ ...event.data, id: event.id })),
+    lastEventId: result.lastEventId,
     timestamp: Date.now()
   });
 });
@@ -1,22 +1,73 @@
 import express from 'express';
 import db from '#db';  // Use #db instead of relative import
-
+import { parseBoundingBox, parseCategoryList, clusterLocations } from '../utils/viewport.js';
+import { authenticateAdmin, requirePermission } from '../middleware/auth.js';
+import { locationCache } from '../middleware/cache.js';
+import { spoilerMode, applySpoilerMode, getSpoilerCategories, isSpoilerType, maskLocation } from '../utils/spoilers.js';
+import { PUBLISHED, isPublished } from '../utils/locationStatus.js';
+import { groupLocationPoints } from '../utils/locationPoints.js';
+import { requestLayerId } from '../utils/mapLayers.js';
+
+// Also mounted at /api/layers/:layerId/locations (see layers.js). Reads return the locations
+// of that layer, or of the default layer on the unscoped /api/locations routes.
 const router = express.Router();
 
 console.log('Locations router file loaded.');
 
+// Attach the resolved points of multi-point locations (see utils/locationPoints.js)
+async function withPoints(locations) {
+  const points = await db.getPointsForLocations(locations.map(location => location.id));
+  return groupLocationPoints(locations, points);
+}
+
 // Get all locations - Fixed to use Prisma directly
-router.get('/', async (req, res) => {
+// Optional query parameters:
+//   bbox=minX,minY,maxX,maxY  only return locations intersecting the viewport
+//   categories=/Fable/Quests,/Resources  restrict to these category paths (and subcategories)
+//   zoom=<level>  cluster nearby markers server-side when zoomed out
+//   spoilerMode=safe|strict  hide spoiler categories and mask spoiler text (see utils/spoilers.js)
+router.get('/', spoilerMode, locationCache, async (req, res) => {
   try {
+    const { bbox, categories, zoom } = req.query;
+
+    if (bbox !== undefined || categories !== undefined || zoom !== undefined) {
+      const bounds = bbox !== undefined ? parseBoundingBox(bbox) : null;
+      if (bbox !== undefined && !bounds) {
+        return res.status(400).json({ error: 'Invalid bbox. Expected minX,minY,maxX,maxY' });
+      }
+
+      const zoomLevel = zoom !== undefined ? parseFloat(zoom) : undefined;
+      if (zoom !== undefined && !Number.isFinite(zoomLevel)) {
+        return res.status(400).json({ error: 'Invalid zoom level' });
+      }
+
+      const locations = await withPoints(await applySpoilerMode(
+        await db.getLocationsInBounds(bounds, parseCategoryList(categories), requestLayerId(req)),
+        req.spoilerMode
+      ));
+
+      // Without a zoom level the response stays a plain array like the unfiltered route
+      if (zoomLevel === undefined) {
+        return res.json(locations);
+      }
+
+      return res.json({
+        ...clusterLocations(locations, { zoom: zoomLevel, bounds }),
+        zoom: zoomLevel
+      });
+    }
+
     // Get Prisma client from db helper
     const prisma = await db.getPrismaClient();
     if (!prisma) {
       return res.status(500).json({ error: 'Failed to connect to database' });
     }
 
-    // Use Prisma to get all locations
-    const locations = await prisma.location.findMany();
-    res.json(locations);
+    // Use Prisma to get all published locations
+    const locations = await prisma.location.findMany({
+      where: { status: PUBLISHED, layerId: requestLayerId(req) }
+    });
+    res.json(await withPoints(await applySpoilerMode(locations, req.spoilerMode)));
   } catch (error) {
     console.error('Error fetching locations:', error);
     res.status(500).json({ error: 'Failed to fetch locations' });
@@ -34,6 +85,7 @@ router.get('/hash', async (req, res) => {
     
     // Use an aggregate to generate a timestamp hash
     const result = await prisma.location.aggregate({
+      where: { layerId: requestLayerId(req) },
       _max: {
         lastModified: true
       }
@@ -50,17 +102,14 @@ router.get('/hash', async (req, res) => {
 });
 
 // Get individual location hashes
-router.get('/hashes', async (req, res) => {
+router.get('/hashes', spoilerMode, async (req, res) => {
   try {
-    const locations = await db.getAllLocations();
+    const locations = await applySpoilerMode(await db.getAllLocations(requestLayerId(req)), req.spoilerMode);
     const hashes = {};
-    const DISABLED_MARKER = '![DISABLED]';
 
+    // getAllLocations only returns published locations
     locations.forEach(location => {
-      // Don't include disabled locations in the hashes
-      if (!location.type?.includes(DISABLED_MARKER)) {
-        hashes[location.name] = location.lastModified?.getTime().toString() || Date.now().toString();
-      }
+      hashes[location.name] = location.lastModified?.getTime().toString() || Date.now().toString();
     });
 
     res.json({ hashes });
@@ -70,10 +119,125 @@ router.get('/hashes', async (req, res) => {
   }
 });
 
+// Incremental sync: locations created, updated or removed since a cursor
+// Call without ?since= for a full snapshot, then pass the returned cursor on the next call.
+// Hidden and archived locations, and locations moved to another layer, are reported as removed.
+// Marking or unmarking a spoiler category stamps its locations, so spoiler-safe clients drop
+// or fetch them on their next call.
+router.get('/changes', spoilerMode, async (req, res) => {
+  try {
+    const { since } = req.query;
+    if (since !== undefined && !/^\d+$/.test(since)) {
+      return res.status(400).json({ error: 'Invalid cursor' });
+    }
+
+    let sinceSeq = since !== undefined ? parseInt(since, 10) : null;
+    let changes = await db.getLocationChanges(sinceSeq);
+
+    // A cursor from the future means the database was reset - start over with a full snapshot
+    if (sinceSeq !== null && sinceSeq > changes.cursor) {
+      sinceSeq = null;
+      changes = await db.getLocationChanges(null);
+    }
+
+    const spoilerPaths = req.spoilerMode === 'full' ? [] : await getSpoilerCategories();
+    const layerId = requestLayerId(req);
+    const changed = [];
+    const removed = [...changes.deletedIds];
+
+    changes.locations.forEach(location => {
+      if (!isPublished(location) || location.layerId !== layerId || isSpoilerType(location.type, spoilerPaths)) {
+        // A full snapshot simply leaves hidden locations out
+        if (sinceSeq !== null) {
+          removed.push(location.id);
+        }
+      } else {
+        changed.push(maskLocation(location, req.spoilerMode));
+      }
+    });
+
+    res.json({
+      full: sinceSeq === null,
+      cursor: String(changes.cursor),
+      changed: await withPoints(changed),
+      removed
+    });
+  } catch (error) {
+    console.error('Error fetching location changes:', error);
+    res.status(500).json({ error: 'Failed to fetch location changes' });
+  }
+});
+
+// Search visible locations by name, description and lore
+// Query parameters:
+//   q=<text>  search text (prefix and typo tolerant)
+//   category=/Fable/Quests  restrict to a category path (and subcategories)
+//   spoilers=true  also match spoiler text
+//   limit, offset  paging (limit defaults to 50, at most 200)
+// Each result's `highlights` are HTML-escaped snippets with the matches wrapped in <mark>.
+router.get('/search', spoilerMode, async (req, res) => {
+  try {
+    const text = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    if (text.length < 2) {
+      return res.status(400).json({ error: 'Search text (q) must be at least 2 characters' });
+    }
+
+    const limit = Math.min(parseInt(req.query.limit, 10) || 50, 200);
+    const offset = Math.max(parseInt(req.query.offset, 10) || 0, 0);
+
+    // Spoiler-safe modes never match on spoiler text or return spoiler categories
+    const safeMode = req.spoilerMode !== 'full';
+    const results = await db.searchLocations({
+      query: text,
+      category: typeof req.query.category === 'string' && req.query.category !== '' ? req.query.category : null,
+      includeSpoilers: !safeMode && req.query.spoilers === 'true',
+      excludeCategories: safeMode ? await getSpoilerCategories() : [],
+      layerId: requestLayerId(req),
+      limit,
+      offset
+    });
+
+    res.json({
+      query: text,
+      results: await withPoints(results.map(result => maskLocation(result, req.spoilerMode))),
+      limit,
+      offset
+    });
+  } catch (error) {
+    console.error('Error searching locations:', error);
+    res.status(500).json({ error: 'Failed to search locations' });
+  }
+});
+
+// Find the locations and areas containing a map point
+// Query parameters:
+//   x, y  the point in map units
+//   tolerance=<n>  also match points and lines this close (default 0, at most 1000)
+router.get('/containing', spoilerMode, async (req, res) => {
+  try {
+    const x = parseFloat(req.query.x);
+    const y = parseFloat(req.query.y);
+    if (!Number.isFinite(x) || !Number.isFinite(y)) {
+      return res.status(400).json({ error: 'x and y must be numbers' });
+    }
+
+    const tolerance = req.query.tolerance === undefined ? 0 : parseFloat(req.query.tolerance);
+    if (!Number.isFinite(tolerance) || tolerance < 0) {
+      return res.status(400).json({ error: 'tolerance must be a number of at least 0' });
+    }
+
+    const locations = await db.getLocationsContainingPoint(x, y, Math.min(tolerance, 1000), requestLayerId(req));
+    res.json(await withPoints(await applySpoilerMode(locations, req.spoilerMode)));
+  } catch (error) {
+    console.error('Error finding locations containing point:', error);
+    res.status(500).json({ error: 'Failed to find locations' });
+  }
+});
+
 // NEW: Get all categories and subcategories
-router.get('/categories', async (req, res) => {
+router.get('/categories', spoilerMode, locationCache, async (req, res) => {
   try {
-    const locations = await db.getAllLocations();
+    const locations = await applySpoilerMode(await db.getAllLocations(requestLayerId(req)), req.spoilerMode);
     const categoryTree = buildCategoryTree(locations);
     res.json(categoryTree);
   } catch (error) {
@@ -84,7 +248,7 @@ router.get('/categories', async (req, res) => {
 
 // FIX: Replace the problematic wildcard route with a simpler approach
 // NEW: Get locations by category path - using separate path segments
-router.get('/category/:path', async (req, res) => {
+router.get('/category/:path', spoilerMode, locationCache, async (req, res) => {
   try {
     // Get the category path from the request
     let categoryPath = req.params.path || '';
@@ -103,8 +267,8 @@ router.get('/category/:path', async (req, res) => {
     console.log(`Finding locations for category path: ${categoryPath}`);
 
     // Use a query parameter to handle the actual search
-    const locations = await db.getLocationsByCategory(categoryPath);
-    res.json(locations);
+    const locations = await db.getLocationsByCategory(categoryPath, undefined, undefined, requestLayerId(req));
+    res.json(await withPoints(await applySpoilerMode(locations, req.spoilerMode)));
   } catch (error) {
     console.error('Error fetching locations by category:', error);
     res.status(500).json({ error: 'Failed to fetch locations by category' });
@@ -112,7 +276,7 @@ router.get('/category/:path', async (req, res) => {
 });
 
 // Optimize the category route to support pagination for better performance
-router.get('/category', async (req, res) => {
+router.get('/category', spoilerMode, locationCache, async (req, res) => {
   try {
     // Get the category path from the query parameter
     let categoryPath = req.query.path || '/';
@@ -128,12 +292,15 @@ router.get('/category', async (req, res) => {
 
     console.log(`Finding locations for category path (query): ${categoryPath}, page: ${page}, limit: ${limit}`);
 
-    const locations = await db.getLocationsByCategory(categoryPath, page, limit);
+    const locations = await withPoints(await applySpoilerMode(
+      await db.getLocationsByCategory(categoryPath, page, limit, requestLayerId(req)),
+      req.spoilerMode
+    ));
 
     // Get total count separately if it's the first page
     let totalCount = null;
     if (page === 0) {
-      totalCount = await db.countLocationsByCategory(categoryPath);
+      totalCount = await db.countLocationsByCategory(categoryPath, requestLayerId(req));
 
       // Include the count in response headers
       res.setHeader('X-Total-Count', totalCount.toString());
@@ -157,24 +324,49 @@ router.get('/category', async (req, res) => {
 });
 
 // Get location by ID - use regular parameter to avoid conflict with other routes
-router.get('/:id', async (req, res) => {
+router.get('/:id', spoilerMode, async (req, res) => {
   try {
     const location = await db.getLocationById(req.params.id);
-    if (!location) {
+    if (!location || !isPublished(location) || location.layerId !== requestLayerId(req)) {
+      return res.status(404).json({ error: 'Location not found' });
+    }
+
+    // In spoiler-safe modes, locations in spoiler categories don't exist
+    if (req.spoilerMode !== 'full' && isSpoilerType(location.type, await getSpoilerCategories())) {
       return res.status(404).json({ error: 'Location not found' });
     }
-    res.json(location);
+
+    const [grouped] = await withPoints([maskLocation(location, req.spoilerMode)]);
+    res.json(grouped);
   } catch (error) {
     console.error('Error fetching location:', error);
     res.status(500).json({ error: 'Failed to fetch location' });
   }
 });
 
+// Get the resolved points of a multi-point location (empty for other locations)
+router.get('/:id/points', spoilerMode, async (req, res) => {
+  try {
+    const location = await db.getLocationById(req.params.id);
+    if (!location || !isPublished(location) || location.layerId !== requestLayerId(req) ||
+        (req.spoilerMode !== 'full' && isSpoilerType(location.type, await getSpoilerCategories()))) {
+      return res.status(404).json({ error: 'Location not found' });
+    }
+
+    const [grouped] = await withPoints([location]);
+    res.json(grouped.points ?? []);
+  } catch (error) {
+    console.error('Error fetching location points:', error);
+    res.status(500).json({ error: 'Failed to fetch location points' });
+  }
+});
+
 // ENHANCED: Get category defaults with improved documentation
+// Shared defaults plus the layer's own, which win for the same path
 router.get('/category-defaults', async (req, res) => {
   try {
     // Fetch category defaults from database
-    const defaults = await db.getCategoryDefaults();
+    const defaults = await db.getCategoryDefaults(requestLayerId(req));
 
     // Log the defaults being sent
     console.log(`Sending ${defaults.length} category defaults`);
@@ -194,9 +386,9 @@ router.get('/category-defaults', async (req, res) => {
 });
 
 // ENHANCED: Save category default (admin only) with better validation
-router.post('/category-defaults', async (req, res) => {
+// Saved for the layer in the URL; the unscoped route saves defaults shared by every layer
+router.post('/category-defaults', authenticateAdmin, requirePermission('categories:defaults:write'), async (req, res) => {
   try {
-    // TODO: Add authentication check for admin
     const categoryDefault = req.body;
 
     // Improved validation
@@ -216,8 +408,15 @@ router.post('/category-defaults', async (req, res) => {
       });
     }
 
+    // Validate spoiler flag is a boolean
+    if (categoryDefault.spoiler !== undefined && typeof categoryDefault.spoiler !== 'boolean') {
+      return res.status(400).json({
+        error: 'The spoiler property must be a boolean'
+      });
+    }
+
     // Save the category default
-    const result = await db.saveCategoryDefault(categoryDefault);
+    const result = await db.saveCategoryDefault({ ...categoryDefault, layerId: req.mapLayer?.id ?? null });
 
     // Log successful update
     console.log(`Category default saved: ${categoryDefault.path}, hidden: ${categoryDefault.hidden}`);
@@ -237,10 +436,8 @@ router.post('/category-defaults', async (req, res) => {
 });
 
 // NEW: Delete category default (admin only) - using a fixed route structure to avoid path-to-regexp issues
-router.delete('/category-defaults/:id', async (req, res) => {
+router.delete('/category-defaults/:id', authenticateAdmin, requirePermission('categories:defaults:write'), async (req, res) => {
   try {
-    // TODO: Add authentication check for admin
-
     const id = req.params.id;
     const path = req.query.path; // Get path from query parameter
 
@@ -248,7 +445,7 @@ router.delete('/category-defaults/:id', async (req, res) => {
       return res.status(400).json({ error: 'Category path is required (as query parameter)' });
     }
 
-    await db.deleteCategoryDefault(path);
+    await db.deleteCategoryDefault(path, req.mapLayer?.id ?? null);
     res.json({ success: true });
   } catch (error) {
     console.error('Error deleting category default:', error);
@@ -267,9 +464,8 @@ function buildCategoryTree(locations) {
 
   // Process each location
   locations.forEach(location => {
-    // Skip disabled locations
-    const DISABLED_MARKER = '![DISABLED]';
-    if (location.type?.includes(DISABLED_MARKER)) {
+    // Skip hidden and archived locations
+    if (!isPublished(location)) {
       return;
     }
 
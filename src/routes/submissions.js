@@ -0,0 +1,74 @@
+import express from 'express';
+import db from '#db';  // Use #db instead of relative import
+import { normalizeSubmission } from '../utils/locationSubmissions.js';
+
+const router = express.Router();
+
+console.log('Submissions router file loaded.');
+
+// Limit on how many submissions a single user may have waiting for review
+const MAX_PENDING_PER_USER = parseInt(process.env.MAX_PENDING_SUBMISSIONS, 10) || 25;
+
+/**
+ * Submit a new location for review
+ * Requires a Discord login; the submission stays invisible until an admin approves it
+ */
+router.post('/', async (req, res) => {
+  try {
+    const { data, errors } = normalizeSubmission(req.body || {});
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid submission', details: errors });
+    }
+
+    const prisma = await db.getPrismaClient();
+    if (!prisma) {
+      return res.status(500).json({ error: 'Failed to connect to database' });
+    }
+
+    const pendingCount = await prisma.locationSubmission.count({
+      where: { submittedBy: req.user.id, status: 'pending' }
+    });
+    if (pendingCount >= MAX_PENDING_PER_USER) {
+      return res.status(429).json({ error: 'Too many submissions awaiting review' });
+    }
+
+    const submission = await prisma.locationSubmission.create({
+      data: {
+        ...data,
+        description: data.description || '',
+        submittedBy: req.user.id,
+        submitterName: req.user.username
+      }
+    });
+
+    console.log(`Location submission ${submission.id} created by ${req.user.username}`);
+    res.status(201).json(submission);
+  } catch (error) {
+    console.error('Error creating location submission:', error);
+    res.status(500).json({ error: 'Failed to create location submission' });
+  }
+});
+
+/**
+ * List the current user's own submissions and their review status
+ */
+router.get('/mine', async (req, res) => {
+  try {
+    const prisma = await db.getPrismaClient();
+    if (!prisma) {
+      return res.status(500).json({ error: 'Failed to connect to database' });
+    }
+
+    const submissions = await prisma.locationSubmission.findMany({
+      where: { submittedBy: req.user.id },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json(submissions);
+  } catch (error) {
+    console.error('Error fetching user submissions:', error);
+    res.status(500).json({ error: 'Failed to fetch submissions' });
+  }
+});
+
+export default router;
@@ -77,6 +77,279 @@ export async function ensureHeatmapTablesExist() {
   }
 }
 
+/**
+ * Split a migration file into individual statements, keeping
+ * dollar-quoted function bodies ($$ ... $$) intact
+ */
+export function splitSqlStatements(sql) {
+  const statements = [];
+  let currentStatement = '';
+  let inDollarQuote = false;
+
+  for (const line of sql.split('\n')) {
+    // Skip comment-only lines outside of function bodies
+    if (!inDollarQuote && line.trim().startsWith('--')) {
+      continue;
+    }
+
+    currentStatement += line + '\n';
+
+    // Each $$ toggles the quote state, so count them on the line
+    const dollarQuotes = (line.match(/\$\$/g) || []).length;
+    if (dollarQuotes % 2 === 1) {
+      inDollarQuote = !inDollarQuote;
+    }
+
+    if (!inDollarQuote && line.trim().endsWith(';')) {
+      statements.push(currentStatement.trim());
+      currentStatement = '';
+    }
+  }
+
+  if (currentStatement.trim()) {
+    statements.push(currentStatement.trim());
+  }
+
+  return statements;
+}
+
+/**
+ * Apply a migration from prisma/migrations unless the probe reports it is already applied
+ * @param {string} migrationName - Directory name of the migration
+ * @param {(prisma: PrismaClient) => Promise<boolean>} isApplied - Returns true if nothing needs to be done
+ */
+export async function ensureMigrationApplied(migrationName, isApplied) {
+  let prisma = null;
+
+  try {
+    prisma = new PrismaClient();
+
+    if (await isApplied(prisma)) {
+      return { success: true, message: `${migrationName} already applied` };
+    }
+
+    console.log(`Applying migration ${migrationName}...`);
+
+    const sqlPath = path.join(__dirname, '..', '..', 'prisma', 'migrations', migrationName, 'migration.sql');
+    let migrationSql;
+    try {
+      migrationSql = fs.readFileSync(sqlPath, 'utf8');
+    } catch (readError) {
+      console.error(`Failed to read migration SQL file for ${migrationName}:`, readError);
+      throw new Error("Migration file not found or cannot be read");
+    }
+
+    for (const statement of splitSqlStatements(migrationSql)) {
+      await prisma.$executeRawUnsafe(statement);
+    }
+
+    console.log(`Successfully applied migration ${migrationName}`);
+    return { success: true, message: `${migrationName} applied` };
+  } catch (error) {
+    console.error(`Error applying migration ${migrationName}:`, error);
+    return { success: false, message: error.message };
+  } finally {
+    if (prisma) {
+      await prisma.$disconnect();
+    }
+  }
+}
+
+/**
+ * Check whether a column exists on a table in the public schema
+ */
+async function columnExists(prisma, table, column) {
+  const rows = await prisma.$queryRaw`
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = ${table} AND column_name = ${column}
+  `;
+  return rows.length > 0;
+}
+
+/**
+ * Check whether a table exists in the public schema
+ */
+async function tableExists(prisma, table) {
+  const rows = await prisma.$queryRaw`
+    SELECT 1 FROM information_schema.tables
+    WHERE table_schema = 'public' AND table_name = ${table}
+  `;
+  return rows.length > 0;
+}
+
+/**
+ * Check whether an index exists in the public schema
+ */
+async function indexExists(prisma, index) {
+  const rows = await prisma.$queryRaw`
+    SELECT 1 FROM pg_indexes
+    WHERE schemaname = 'public' AND indexname = ${index}
+  `;
+  return rows.length > 0;
+}
+
+/**
+ * Check whether a function's body contains some text
+ * Used to tell whether a CREATE OR REPLACE FUNCTION migration has been applied.
+ */
+async function functionBodyContains(prisma, functionName, text) {
+  const rows = await prisma.$queryRaw`
+    SELECT 1 FROM pg_proc
+    WHERE proname = ${functionName} AND position(${text} in prosrc) > 0
+  `;
+  return rows.length > 0;
+}
+
+/**
+ * Adds the bounding box columns used by viewport queries
+ */
+export async function ensureLocationBoundsExist() {
+  return ensureMigrationApplied(
+    '20250501000000_add_location_bounds',
+    (prisma) => columnExists(prisma, 'Location', 'minX')
+  );
+}
+
+/**
+ * Creates the table holding location revision history
+ */
+export async function ensureLocationRevisionsExist() {
+  return ensureMigrationApplied(
+    '20250502000000_add_location_revisions',
+    (prisma) => tableExists(prisma, 'LocationRevision')
+  );
+}
+
+/**
+ * Creates the table holding community location submissions
+ */
+export async function ensureLocationSubmissionsExist() {
+  return ensureMigrationApplied(
+    '20250503000000_add_location_submissions',
+    (prisma) => tableExists(prisma, 'LocationSubmission')
+  );
+}
+
+/**
+ * Adds the category and bounds to location_changes notifications
+ */
+export async function ensureLocationNotificationsEnriched() {
+  return ensureMigrationApplied(
+    '20250504000000_enrich_location_notifications',
+    (prisma) => functionBodyContains(prisma, 'notify_location_changes', 'oldBounds')
+  );
+}
+
+/**
+ * Adds the map_changes triggers for category defaults and heatmap tables
+ */
+export async function ensureMapChangeNotificationsExist() {
+  return ensureMigrationApplied(
+    '20250505000000_add_map_change_notifications',
+    (prisma) => functionBodyContains(prisma, 'notify_map_changes', 'map_changes')
+  );
+}
+
+/**
+ * Adds the change sequence column and tombstone table used for incremental sync
+ */
+export async function ensureLocationChangeFeedExists() {
+  return ensureMigrationApplied(
+    '20250506000000_add_location_change_feed',
+    (prisma) => tableExists(prisma, 'LocationTombstone')
+  );
+}
+
+/**
+ * Adds the full-text and trigram search indexes
+ */
+export async function ensureLocationSearchExists() {
+  return ensureMigrationApplied(
+    '20250507000000_add_location_search',
+    (prisma) => indexExists(prisma, 'Location_name_trgm_idx')
+  );
+}
+
+/**
+ * Adds the spoiler flag to category defaults
+ */
+export async function ensureSpoilerCategoriesExist() {
+  return ensureMigrationApplied(
+    '20250508000000_add_spoiler_categories',
+    (prisma) => columnExists(prisma, 'CategoryDefaults', 'spoiler')
+  );
+}
+
+/**
+ * Adds the location status column and converts ![DISABLED] type markers
+ */
+export async function ensureLocationStatusExists() {
+  return ensureMigrationApplied(
+    '20250509000000_add_location_status',
+    (prisma) => indexExists(prisma, 'Location_status_type_idx')
+  );
+}
+
+/**
+ * Adds the location geometry type and includes polygon rings in location bounds
+ */
+export async function ensureLocationGeometryExists() {
+  return ensureMigrationApplied(
+    '20250510000000_add_location_geometry',
+    (prisma) => functionBodyContains(prisma, 'location_coordinate_points', 'ring_point')
+  );
+}
+
+/**
+ * Adds location points and regroups the "<name> - Point N" rows created by the seed script
+ */
+export async function ensureLocationPointsExist() {
+  return ensureMigrationApplied(
+    '20250511000000_add_location_points',
+    (prisma) => tableExists(prisma, 'LocationPoint')
+  );
+}
+
+/**
+ * Adds map layers and the layer reference on locations, heatmap datapoints and category defaults
+ */
+export async function ensureMapLayersExist() {
+  return ensureMigrationApplied(
+    '20250512000000_add_map_layers',
+    (prisma) => functionBodyContains(prisma, 'notify_map_changes', 'MapLayer')
+  );
+}
+
+/**
+ * Adds ingestion keys for heatmap datapoint sources
+ */
+export async function ensureIngestionKeysExist() {
+  return ensureMigrationApplied(
+    '20250513000000_add_ingestion_keys',
+    (prisma) => tableExists(prisma, 'IngestionKey')
+  );
+}
+
+/**
+ * Numbers change feed entries at commit instead of when rows are written
+ */
+export async function ensureLocationChangesStampedAtCommit() {
+  return ensureMigrationApplied(
+    '20250514000000_stamp_location_changes_at_commit',
+    (prisma) => functionBodyContains(prisma, 'location_commit_changes', 'pg_advisory_xact_lock')
+  );
+}
+
+/**
+ * Stamps a category's locations in the change feed when its spoiler flag changes
+ */
+export async function ensureSpoilerCategoryChangesStamped() {
+  return ensureMigrationApplied(
+    '20250515000000_stamp_spoiler_category_changes',
+    (prisma) => functionBodyContains(prisma, 'category_spoiler_stamp_locations', 'changeSeq')
+  );
+}
+
 /**
  * Alternative approach using prisma migrate command
  */
@@ -107,5 +380,22 @@ export async function runPrismaMigrate() {
 
 export default {
   ensureHeatmapTablesExist,
+  ensureLocationBoundsExist,
+  ensureLocationRevisionsExist,
+  ensureLocationSubmissionsExist,
+  ensureLocationNotificationsEnriched,
+  ensureMapChangeNotificationsExist,
+  ensureLocationChangeFeedExists,
+  ensureLocationSearchExists,
+  ensureSpoilerCategoriesExist,
+  ensureLocationStatusExists,
+  ensureLocationGeometryExists,
+  ensureLocationPointsExist,
+  ensureMapLayersExist,
+  ensureIngestionKeysExist,
+  ensureLocationChangesStampedAtCommit,
+  ensureSpoilerCategoryChangesStamped,
+  ensureMigrationApplied,
+  splitSqlStatements,
   runPrismaMigrate
 };
@@ -0,0 +1,176 @@
+import fetch from 'node-fetch';
+
+/**
+ * Discord API client used for authentication and role checks
+ *
+ * Point DISCORD_API_URL at a local stub (e.g. http://localhost:4000/api/v10) to
+ * test without talking to Discord, or swap the HTTP function with setDiscordFetch().
+ */
+
+const DISCORD_API_URL = process.env.DISCORD_API_URL || 'https://discord.com/api/v10';
+const DISCORD_BOT_TOKEN = process.env.DISCORD_BOT_TOKEN; // CRITICAL: Use exact variable name
+const DISCORD_SERVER_ID = process.env.DISCORD_SERVER_ID || '1309555440102674513';
+const DISCORD_ADMIN_ROLE_ID = process.env.DISCORD_ADMIN_ROLE_ID || '1309700533749289012';
+const DISCORD_MANAGER_ROLE_ID = process.env.DISCORD_MANAGER_ROLE_ID || '1363588579506262056';
+
+// How long guild membership lookups are cached, in seconds
+const MEMBER_CACHE_TTL = (parseInt(process.env.DISCORD_MEMBER_CACHE_TTL, 10) || 300) * 1000;
+
+// Roles recognised by the API, highest privilege first
+export const ROLES = ['admin', 'manager'];
+
+let discordFetch = fetch;
+
+// userId -> { roles: string[] | null, expiresAt: number }
+const memberCache = new Map();
+
+/**
+ * Error raised when Discord answers with an unexpected status
+ */
+export class DiscordApiError extends Error {
+  constructor(message, status) {
+    super(message);
+    this.name = 'DiscordApiError';
+    this.status = status;
+  }
+}
+
+/**
+ * Replace the HTTP function used for Discord calls (for tests and local stubs)
+ * @param {Function|null} fn - fetch-compatible function, or null to restore the default
+ */
+export function setDiscordFetch(fn) {
+  discordFetch = fn || fetch;
+  memberCache.clear();
+}
+
+/**
+ * Drop cached membership lookups, for one user or everybody
+ * @param {string} [userId] - Only clear this user
+ */
+export function clearMemberCache(userId) {
+  if (userId) {
+    memberCache.delete(userId);
+  } else {
+    memberCache.clear();
+  }
+}
+
+/**
+ * Exchange an OAuth authorization code for an access token
+ * @returns {Promise<Object>} - Discord token response
+ */
+export async function exchangeAuthorizationCode({ clientId, clientSecret, code, redirectUri }) {
+  const response = await discordFetch(`${DISCORD_API_URL}/oauth2/token`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded'
+    },
+    body: new URLSearchParams({
+      client_id: clientId,
+      client_secret: clientSecret,
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: redirectUri
+    })
+  });
+
+  if (!response.ok) {
+    const details = await response.text().catch(e => `Failed to read response body: ${e.message}`);
+    throw new DiscordApiError(`Failed to exchange code for token: ${details}`, response.status);
+  }
+
+  return response.json();
+}
+
+/**
+ * Get the Discord user that owns an OAuth access token
+ * @param {string} accessToken - User access token
+ * @returns {Promise<Object|null>} - The user, or null if the token is invalid
+ */
+export async function fetchDiscordUser(accessToken) {
+  const response = await discordFetch(`${DISCORD_API_URL}/users/@me`, {
+    headers: { Authorization: `Bearer ${accessToken}` }
+  });
+
+  if (response.status === 401 || response.status === 403) {
+    return null;
+  }
+
+  if (!response.ok) {
+    throw new DiscordApiError('Discord user info request failed', response.status);
+  }
+
+  return response.json();
+}
+
+/**
+ * Get a user's role IDs in the configured guild, using the bot token
+ * Results (including "not a member") are cached for DISCORD_MEMBER_CACHE_TTL seconds.
+ * @param {string} userId - Discord user ID
+ * @returns {Promise<string[]|null>} - Role IDs, or null if the user is not a member
+ */
+export async function fetchMemberRoles(userId) {
+  const cached = memberCache.get(userId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.roles;
+  }
+
+  if (!DISCORD_BOT_TOKEN) {
+    throw new DiscordApiError('Server configuration error: Bot token not available', 500);
+  }
+
+  const response = await discordFetch(`${DISCORD_API_URL}/guilds/${DISCORD_SERVER_ID}/members/${userId}`, {
+    headers: { Authorization: `Bot ${DISCORD_BOT_TOKEN}` }
+  });
+
+  let roles;
+  if (response.status === 404) {
+    roles = null;
+  } else if (!response.ok) {
+    throw new DiscordApiError('Failed to verify server membership', response.status);
+  } else {
+    const memberData = await response.json();
+    roles = memberData.roles || [];
+  }
+
+  memberCache.set(userId, { roles, expiresAt: Date.now() + MEMBER_CACHE_TTL });
+  return roles;
+}
+
+/**
+ * Map guild role IDs to the API role
+ * @param {string[]|null} roles - Guild role IDs
+ * @returns {'admin'|'manager'|null}
+ */
+export function resolveRole(roles) {
+  if (!roles) {
+    return null;
+  }
+  if (roles.includes(DISCORD_ADMIN_ROLE_ID)) {
+    return 'admin';
+  }
+  if (roles.includes(DISCORD_MANAGER_ROLE_ID)) {
+    return 'manager';
+  }
+  return null;
+}
+
+/**
+ * Avatar URL for a Discord user
+ */
+export function avatarUrl(user) {
+  return user.avatar ? `https://cdn.discordapp.com/avatars/${user.id}/${user.avatar}.png` : null;
+}
+
+export default {
+  ROLES,
+  DiscordApiError,
+  setDiscordFetch,
+  clearMemberCache,
+  exchangeAuthorizationCode,
+  fetchDiscordUser,
+  fetchMemberRoles,
+  resolveRole,
+  avatarUrl
+};
@@ -0,0 +1,97 @@
+/**
+ * Bounded in-memory log of broadcast change events
+ *
+ * Every event gets a monotonically increasing numeric ID, used as the SSE `id:` field
+ * and as the cursor for /api/listen/poll. IDs start from the boot time in milliseconds,
+ * so IDs handed out by a previous process are (almost always) lower than any new one
+ * and are recognised as too old to replay.
+ */
+
+// Maximum number of events kept for replay
+const EVENT_LOG_SIZE = parseInt(process.env.EVENT_LOG_SIZE, 10) || 1000;
+
+// Maximum age of events kept for replay, in seconds
+const EVENT_LOG_MAX_AGE = (parseInt(process.env.EVENT_LOG_MAX_AGE, 10) || 60 * 60) * 1000;
+
+// { id: number, timestamp: number, data: Object, json: string }
+const events = [];
+
+// Last ID that has been handed out
+let lastEventId = Date.now();
+
+// Clients whose last seen ID is below this missed events that are no longer kept
+let oldestReplayableId = lastEventId;
+
+// Drop events beyond the size and age limits
+function trimLog() {
+  const cutoff = Date.now() - EVENT_LOG_MAX_AGE;
+  while (events.length > 0 && (events.length > EVENT_LOG_SIZE || events[0].timestamp < cutoff)) {
+    oldestReplayableId = events.shift().id;
+  }
+}
+
+/**
+ * Record an event and assign it the next ID
+ * @param {Object|string} data - Event payload (JSON strings are parsed)
+ * @returns {{id: number, timestamp: number, data: Object, json: string}}
+ */
+export function appendEvent(data) {
+  const json = typeof data === 'string' ? data : JSON.stringify(data);
+  const event = {
+    id: ++lastEventId,
+    timestamp: Date.now(),
+    data: typeof data === 'string' ? JSON.parse(data) : data,
+    json
+  };
+
+  events.push(event);
+  trimLog();
+  return event;
+}
+
+/**
+ * Parse a client-supplied event ID (Last-Event-ID header, ?lastEventId or ?since)
+ * @returns {number|null} - The ID, or null if missing or not a number
+ */
+export function parseEventId(value) {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  const id = Number(value);
+  return Number.isSafeInteger(id) && id >= 0 ? id : null;
+}
+
+/**
+ * Get the events recorded after a given ID
+ * `resync` is true when the client is too far behind (or ahead, e.g. after a server
+ * restart) for the log to tell it what changed - it should reload everything.
+ * @param {number} sinceId - Last event ID the client has seen
+ * @returns {{resync: boolean, events: Array, lastEventId: number}}
+ */
+export function eventsSince(sinceId) {
+  trimLog();
+
+  if (sinceId < oldestReplayableId || sinceId > lastEventId) {
+    return { resync: true, events: [], lastEventId };
+  }
+
+  return {
+    resync: false,
+    events: events.filter(event => event.id > sinceId),
+    lastEventId
+  };
+}
+
+/**
+ * ID of the most recent event
+ */
+export function getLastEventId() {
+  return lastEventId;
+}
+
+export default {
+  appendEvent,
+  parseEventId,
+  eventsSince,
+  getLastEventId
+};
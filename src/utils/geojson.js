@@ -0,0 +1,229 @@
+import { LOCATION_STATUSES, isLocationStatus } from './locationStatus.js';
+import { inferGeometryType, validateGeometry } from './geometry.js';
+
+/**
+ * Conversion between locations and GeoJSON features
+ *
+ * Coordinates are map units (the game map's pixel space), not longitude/latitude, so
+ * GIS tools should load the data with a local/engineering CRS.
+ *
+ * Points become Points, multipoints MultiPoints, polylines LineStrings and polygons
+ * Polygons (with their rings closed, as GeoJSON requires). Locations whose points carry
+ * their own properties (e.g. tuvalkane.yml) keep those in `properties.pointProperties`,
+ * one object per point, so they survive a round trip.
+ *
+ * Each map layer has its own coordinate space; features carry their layer in `layerId`.
+ */
+
+// Location columns exported as feature properties
+const FEATURE_PROPERTIES = [
+  'name',
+  'description',
+  'type',
+  'icon',
+  'iconSize',
+  'iconColor',
+  'radius',
+  'mediaUrl',
+  'noCluster',
+  'lore',
+  'spoilers',
+  'layerId'
+];
+
+// Properties that must be strings or numbers when importing
+const STRING_PROPERTIES = ['name', 'description', 'type', 'icon', 'iconColor', 'lore', 'spoilers', 'layerId'];
+const NUMBER_PROPERTIES = ['iconSize', 'radius'];
+
+function isPoint(value) {
+  return Array.isArray(value) &&
+    value.length >= 2 &&
+    Number.isFinite(value[0]) &&
+    Number.isFinite(value[1]);
+}
+
+function closeRing(ring) {
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  return first[0] === last[0] && first[1] === last[1] ? ring : [...ring, first];
+}
+
+// GeoJSON geometry type for each location geometry type
+const GEOJSON_TYPES = {
+  point: 'Point',
+  multipoint: 'MultiPoint',
+  polyline: 'LineString',
+  polygon: 'Polygon'
+};
+
+/**
+ * Convert a location row into a GeoJSON feature
+ * @returns {Object|null} - The feature, or null if the location has no usable coordinates
+ */
+export function locationToFeature(location) {
+  const coordinates = location.coordinates;
+  const properties = {};
+  FEATURE_PROPERTIES.forEach(field => {
+    if (location[field] !== undefined && location[field] !== null) {
+      properties[field] = location[field];
+    }
+  });
+
+  // Fields hidden by a spoiler-safe mode
+  if (Array.isArray(location.masked)) {
+    properties.masked = location.masked;
+  }
+
+  const geometryType = location.geometryType || inferGeometryType(coordinates);
+  let geometry = null;
+  if (geometryType === 'polyline' || geometryType === 'polygon') {
+    if (validateGeometry(geometryType, coordinates)) {
+      return null;
+    }
+    geometry = geometryType === 'polyline'
+      ? { type: 'LineString', coordinates: coordinates.map(point => [point[0], point[1]]) }
+      : {
+        type: 'Polygon',
+        coordinates: coordinates.map(ring => closeRing(ring.map(point => [point[0], point[1]])))
+      };
+  } else if (isPoint(coordinates)) {
+    geometry = { type: 'Point', coordinates: [coordinates[0], coordinates[1]] };
+  } else if (Array.isArray(coordinates) && coordinates.length > 0) {
+    const complex = coordinates.some(entry => entry && !Array.isArray(entry) && typeof entry === 'object');
+    const points = complex ? coordinates.map(entry => entry?.coordinates) : coordinates;
+
+    if (points.every(isPoint)) {
+      geometry = { type: 'MultiPoint', coordinates: points.map(point => [point[0], point[1]]) };
+      if (complex) {
+        properties.pointProperties = coordinates.map(({ coordinates: _point, ...rest }) => rest);
+      }
+    }
+  }
+
+  if (!geometry) {
+    return null;
+  }
+
+  return {
+    type: 'Feature',
+    id: location.id,
+    geometry,
+    properties
+  };
+}
+
+/**
+ * Convert locations into a FeatureCollection, skipping those without coordinates
+ */
+export function locationsToFeatureCollection(locations) {
+  return {
+    type: 'FeatureCollection',
+    features: locations.map(locationToFeature).filter(Boolean)
+  };
+}
+
+/**
+ * Validate a GeoJSON feature and turn it into location data
+ * @param {Object} feature - A GeoJSON Feature
+ * @returns {{id: string|null, data?: Object, errors: string[]}}
+ */
+export function featureToLocation(feature) {
+  const errors = [];
+
+  if (!feature || feature.type !== 'Feature') {
+    return { id: null, errors: ['Expected a GeoJSON Feature'] };
+  }
+
+  const id = feature.id !== undefined && feature.id !== null ? String(feature.id) : null;
+  const properties = feature.properties || {};
+  const geometry = feature.geometry;
+  let coordinates = null;
+
+  const geometryType = Object.keys(GEOJSON_TYPES).find(type => GEOJSON_TYPES[type] === geometry?.type);
+  if (!geometryType) {
+    errors.push('geometry must be a Point, MultiPoint, LineString or Polygon');
+  } else {
+    // GeoJSON positions are plain [x, y] arrays, never point entries
+    const geometryError = geometryType === 'multipoint' && !geometry.coordinates?.every?.(Array.isArray)
+      ? 'must be a non-empty list of [x, y]'
+      : validateGeometry(geometryType, geometry.coordinates);
+    if (geometryError) {
+      errors.push(`${geometry.type} coordinates ${geometryError}`);
+    } else if (geometryType === 'point') {
+      coordinates = [geometry.coordinates[0], geometry.coordinates[1]];
+    } else if (geometryType === 'polygon') {
+      coordinates = geometry.coordinates.map(ring => ring.map(point => [point[0], point[1]]));
+    } else {
+      coordinates = geometry.coordinates.map(point => [point[0], point[1]]);
+    }
+  }
+
+  if (typeof properties.name !== 'string' || properties.name.trim() === '') {
+    errors.push('properties.name is required');
+  }
+  if (typeof properties.type !== 'string' || properties.type.trim() === '') {
+    errors.push('properties.type (category path) is required');
+  }
+
+  STRING_PROPERTIES.forEach(field => {
+    if (properties[field] !== undefined && properties[field] !== null && typeof properties[field] !== 'string') {
+      errors.push(`properties.${field} must be a string`);
+    }
+  });
+  NUMBER_PROPERTIES.forEach(field => {
+    if (properties[field] !== undefined && properties[field] !== null && !Number.isFinite(properties[field])) {
+      errors.push(`properties.${field} must be a number`);
+    }
+  });
+
+  if (properties.status !== undefined && properties.status !== null && !isLocationStatus(properties.status)) {
+    errors.push(`properties.status must be one of: ${LOCATION_STATUSES.join(', ')}`);
+  }
+
+  const mediaUrl = properties.mediaUrl;
+  if (mediaUrl !== undefined && mediaUrl !== null && typeof mediaUrl !== 'string' &&
+      !(Array.isArray(mediaUrl) && mediaUrl.every(url => typeof url === 'string'))) {
+    errors.push('properties.mediaUrl must be a string or a list of strings');
+  }
+
+  // Rebuild per-point properties of complex locations
+  const pointProperties = properties.pointProperties;
+  if (pointProperties !== undefined && coordinates) {
+    if (geometry.type !== 'MultiPoint' || !Array.isArray(pointProperties) ||
+        pointProperties.length !== coordinates.length ||
+        !pointProperties.every(entry => entry && typeof entry === 'object' && !Array.isArray(entry))) {
+      errors.push('properties.pointProperties must have one object per MultiPoint coordinate');
+    } else {
+      coordinates = coordinates.map((point, index) => ({ ...pointProperties[index], coordinates: point }));
+    }
+  }
+
+  if (errors.length > 0) {
+    return { id, errors };
+  }
+
+  // Missing and null properties keep their stored value (or the default on create)
+  const data = { coordinates, geometryType };
+  FEATURE_PROPERTIES.forEach(field => {
+    if (properties[field] !== undefined && properties[field] !== null) {
+      data[field] = properties[field];
+    }
+  });
+  if (typeof data.mediaUrl === 'string') {
+    data.mediaUrl = [data.mediaUrl];
+  }
+  if (data.noCluster !== undefined) {
+    data.noCluster = Boolean(data.noCluster);
+  }
+  if (properties.status !== undefined && properties.status !== null) {
+    data.status = properties.status;
+  }
+
+  return { id, data, errors };
+}
+
+export default {
+  locationToFeature,
+  locationsToFeatureCollection,
+  featureToLocation
+};
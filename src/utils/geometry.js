@@ -0,0 +1,202 @@
+/**
+ * Location geometry kinds and the coordinate shapes they use (map units, like all coordinates)
+ *
+ *   point       [x, y]
+ *   multipoint  [[x, y], ...], or [{ coordinates: [x, y], ...point properties }, ...]
+ *   polyline    [[x, y], [x, y], ...]                    at least 2 points, e.g. a patrol route
+ *   polygon     [[[x, y], ...], [[x, y], ...], ...]      outer ring first, then holes; each ring
+ *                                                        has at least 3 points and may repeat
+ *                                                        its first point at the end
+ *
+ * Points and multipoints can still describe a circular area with `radius`.
+ */
+
+export const GEOMETRY_TYPES = ['point', 'multipoint', 'polyline', 'polygon'];
+
+function isPoint(value) {
+  return Array.isArray(value) &&
+    value.length >= 2 &&
+    Number.isFinite(value[0]) &&
+    Number.isFinite(value[1]);
+}
+
+function isPointList(value) {
+  return Array.isArray(value) && value.length > 0 && value.every(isPoint);
+}
+
+function isComplexEntryList(value) {
+  return Array.isArray(value) && value.length > 0 &&
+    value.every(entry => entry && typeof entry === 'object' && !Array.isArray(entry) && isPoint(entry.coordinates));
+}
+
+// Ring points without the repeated closing point
+function openRing(ring) {
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  return ring.length > 1 && first[0] === last[0] && first[1] === last[1] ? ring.slice(0, -1) : ring;
+}
+
+/**
+ * Guess the geometry kind from the shape of the coordinates
+ * A list of points is taken as a multipoint; polylines have to be asked for explicitly.
+ * @returns {string|null} - null if the coordinates have no known shape
+ */
+export function inferGeometryType(coordinates) {
+  if (isPoint(coordinates)) {
+    return 'point';
+  }
+  if (isPointList(coordinates) || isComplexEntryList(coordinates)) {
+    return 'multipoint';
+  }
+  if (Array.isArray(coordinates) && coordinates.length > 0 && coordinates.every(isPointList)) {
+    return 'polygon';
+  }
+  return null;
+}
+
+/**
+ * Point-in-polygon test for a single ring (ray casting)
+ */
+function pointInRing(point, ring) {
+  const [x, y] = point;
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Check that coordinates have the right shape for a geometry kind
+ * @returns {string|null} - What is wrong, or null if they are valid
+ */
+export function validateGeometry(geometryType, coordinates) {
+  switch (geometryType) {
+    case 'point':
+      return isPoint(coordinates) ? null : 'must be [x, y] for a point';
+
+    case 'multipoint':
+      return isPointList(coordinates) || isComplexEntryList(coordinates)
+        ? null
+        : 'must be a list of [x, y] points or { coordinates: [x, y] } entries for a multipoint';
+
+    case 'polyline':
+      return isPointList(coordinates) && coordinates.length >= 2
+        ? null
+        : 'must be a list of at least 2 [x, y] points for a polyline';
+
+    case 'polygon': {
+      if (!Array.isArray(coordinates) || coordinates.length === 0 || !coordinates.every(isPointList)) {
+        return 'must be a list of rings (lists of [x, y] points) for a polygon, outer ring first';
+      }
+      if (coordinates.some(ring => openRing(ring).length < 3)) {
+        return 'polygon rings need at least 3 distinct points';
+      }
+      const outer = openRing(coordinates[0]);
+      const holes = coordinates.slice(1);
+      if (holes.some(hole => !hole.every(point => pointInRing(point, outer)))) {
+        return 'polygon holes must lie inside the outer ring';
+      }
+      return null;
+    }
+
+    default:
+      return `unknown geometry type, expected one of: ${GEOMETRY_TYPES.join(', ')}`;
+  }
+}
+
+/**
+ * Every vertex of a geometry as [x, y] points
+ */
+export function geometryPoints(geometryType, coordinates) {
+  const kind = geometryType || inferGeometryType(coordinates);
+  if (kind === 'point') {
+    return isPoint(coordinates) ? [coordinates] : [];
+  }
+  if (kind === 'polygon') {
+    return Array.isArray(coordinates) ? coordinates.filter(Array.isArray).flat().filter(isPoint) : [];
+  }
+  if (!Array.isArray(coordinates)) {
+    return [];
+  }
+  return coordinates
+    .map(entry => (entry && !Array.isArray(entry) && typeof entry === 'object' ? entry.coordinates : entry))
+    .filter(isPoint);
+}
+
+/**
+ * Bounding box of a geometry (the same box the database keeps in minX/minY/maxX/maxY)
+ * @returns {{minX: number, minY: number, maxX: number, maxY: number}|null}
+ */
+export function geometryBounds(geometryType, coordinates) {
+  const points = geometryPoints(geometryType, coordinates);
+  if (points.length === 0) {
+    return null;
+  }
+
+  const xs = points.map(point => point[0]);
+  const ys = points.map(point => point[1]);
+  return {
+    minX: Math.min(...xs),
+    minY: Math.min(...ys),
+    maxX: Math.max(...xs),
+    maxY: Math.max(...ys)
+  };
+}
+
+// Distance from a point to the segment a-b
+function distanceToSegment(point, a, b) {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0
+    ? 0
+    : Math.max(0, Math.min(1, ((point[0] - a[0]) * dx + (point[1] - a[1]) * dy) / lengthSquared));
+  return Math.hypot(point[0] - (a[0] + t * dx), point[1] - (a[1] + t * dy));
+}
+
+/**
+ * Check whether a location's area contains a point
+ * Polygons contain the points inside their outer ring and outside their holes. Lines and
+ * points cover the points within their `radius` (or `tolerance`, whichever is larger).
+ * @param {Object} location - Location with geometryType, coordinates and radius
+ * @param {number[]} point - The [x, y] point to test
+ * @param {Object} [options]
+ * @param {number} [options.tolerance] - Extra distance for lines and points, in map units
+ */
+export function geometryContainsPoint(location, point, { tolerance = 0 } = {}) {
+  const geometryType = location.geometryType || inferGeometryType(location.coordinates);
+  const coordinates = location.coordinates;
+  const reach = Math.max(location.radius || 0, tolerance);
+
+  if (geometryType === 'polygon') {
+    if (validateGeometry('polygon', coordinates)) {
+      return false;
+    }
+    const [outer, ...holes] = coordinates.map(openRing);
+    return pointInRing(point, outer) && !holes.some(hole => pointInRing(point, hole));
+  }
+
+  if (geometryType === 'polyline') {
+    if (!isPointList(coordinates)) {
+      return false;
+    }
+    return coordinates.slice(1).some((b, index) => distanceToSegment(point, coordinates[index], b) <= reach);
+  }
+
+  return geometryPoints(geometryType, coordinates)
+    .some(vertex => Math.hypot(point[0] - vertex[0], point[1] - vertex[1]) <= reach);
+}
+
+export default {
+  GEOMETRY_TYPES,
+  inferGeometryType,
+  validateGeometry,
+  geometryPoints,
+  geometryBounds,
+  geometryContainsPoint
+};
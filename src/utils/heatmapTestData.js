@@ -2,6 +2,8 @@
  * Utility to generate test data for the heatmap feature
  */
 
+import { DEFAULT_LAYER_ID } from './mapLayers.js';
+
 // Sample heatmap types
 const sampleTypes = [
   {
@@ -46,32 +48,35 @@ const sampleTypes = [
   }
 ];
 
-// Generate semi-random test data points around specific locations
-function generateTestDatapoints() {
+// Generate semi-random test data points around specific locations of a map layer
+function generateTestDatapoints(layer) {
   const datapoints = [];
   
-  // Base locations to generate clusters around
+  // Base locations to generate clusters around, as fractions of the layer size
   const baseLocations = [
-    { x: 3500, y: 3500 }, // Center of map
-    { x: 2000, y: 2000 }, // Upper left quadrant
-    { x: 5000, y: 2000 }, // Upper right quadrant
-    { x: 2000, y: 5000 }, // Lower left quadrant
-    { x: 5000, y: 5000 }  // Lower right quadrant
+    { x: 0.5, y: 0.5 },   // Center of map
+    { x: 0.25, y: 0.25 }, // Upper left quadrant
+    { x: 0.75, y: 0.25 }, // Upper right quadrant
+    { x: 0.25, y: 0.75 }, // Lower left quadrant
+    { x: 0.75, y: 0.75 }  // Lower right quadrant
   ];
   
+  // Clusters spread over about an eighth of the layer
+  const spread = Math.min(layer.width, layer.height) / 8;
+  
   // For each base location, create a cluster of points
   baseLocations.forEach(base => {
     // Random number of points for this cluster (10-30)
     const pointCount = 10 + Math.floor(Math.random() * 20);
     
     for (let i = 0; i < pointCount; i++) {
-      // Random offset from the base (within 500 units)
-      const offsetX = (Math.random() - 0.5) * 1000;
-      const offsetY = (Math.random() - 0.5) * 1000;
+      // Random offset from the base (within half the spread)
+      const offsetX = (Math.random() - 0.5) * spread;
+      const offsetY = (Math.random() - 0.5) * spread;
       
       // Create datapoint
       datapoints.push({
-        lat: [base.x + offsetX, base.y + offsetY],
+        lat: [base.x * layer.width + offsetX, base.y * layer.height + offsetY],
         intensity: 0.3 + Math.random() * 0.7, // Random intensity between 0.3 and 1.0
         weight: 50 + Math.floor(Math.random() * 50), // Random weight between 50 and 100
         radius: 20 + Math.floor(Math.random() * 20), // Random radius between 20 and 40
@@ -82,10 +87,10 @@ function generateTestDatapoints() {
     }
   });
   
-  // Create some scattered individual points
+  // Create some scattered individual points, away from the edges
   for (let i = 0; i < 50; i++) {
     datapoints.push({
-      lat: [1000 + Math.random() * 6000, 1000 + Math.random() * 6000],
+      lat: [layer.width * (0.1 + Math.random() * 0.8), layer.height * (0.1 + Math.random() * 0.8)],
       intensity: 0.3 + Math.random() * 0.7,
       weight: 40 + Math.floor(Math.random() * 60),
       radius: 15 + Math.floor(Math.random() * 25),
@@ -99,8 +104,10 @@ function generateTestDatapoints() {
 
 /**
  * Seed the database with test heatmap data if tables are empty
+ * @param {Object} prisma - Prisma client
+ * @param {string} [layerId] - Map layer to put the datapoints on (default: the default layer)
  */
-export async function seedHeatmapTestData(prisma) {
+export async function seedHeatmapTestData(prisma, layerId = DEFAULT_LAYER_ID) {
   try {
     console.log("Checking if heatmap test data is needed...");
     
@@ -137,6 +144,11 @@ export async function seedHeatmapTestData(prisma) {
       return { success: false, message: "Heatmap tables already have data" };
     }
     
+    const layer = await prisma.mapLayer.findUnique({ where: { id: layerId } });
+    if (!layer) {
+      return { success: false, message: `Map layer '${layerId}' doesn't exist` };
+    }
+    
     console.log("Creating heatmap test data...");
     
     // Create heatmap types
@@ -151,7 +163,7 @@ export async function seedHeatmapTestData(prisma) {
     console.log(`Created ${createdTypes.length} heatmap types`);
     
     // Generate test datapoints
-    const datapoints = generateTestDatapoints();
+    const datapoints = generateTestDatapoints(layer);
     
     // Assign types to datapoints (each point gets 1-3 random types)
     datapoints.forEach(point => {
@@ -183,6 +195,7 @@ export async function seedHeatmapTestData(prisma) {
         data: {
           ...datapointData,
           lat: formattedLat,
+          layerId: layer.id,
           types: {
             create: typeIds.map(typeId => ({
               type: {
@@ -0,0 +1,186 @@
+/**
+ * Time windows, decay and time buckets for heatmap queries
+ *
+ * Heatmap reads take the datapoints' `timestamp` into account through query parameters:
+ *   from, to   ISO dates or milliseconds since 1970 (both ends included)
+ *   last       a window ending at `to` (or now), e.g. "12h", "7d" or "2w"
+ *   decay      a half-life such as "3d": each point's value is halved for every half-life
+ *              it is older than the end of the window, so recent points weigh more
+ *   bucket     "day", "week" or "month" for time series; buckets start at midnight UTC,
+ *              weeks on Monday
+ */
+
+export const TIME_BUCKETS = ['day', 'week', 'month'];
+
+const DURATION_UNITS = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000
+};
+
+const DURATION_PATTERN = /^(\d+(?:\.\d+)?)\s*([hdw])$/i;
+
+/**
+ * Parse a duration such as "12h", "7d" or "2w"
+ * @returns {number|null} - Milliseconds, or null if the value isn't a positive duration
+ */
+export function parseDuration(value) {
+  const match = DURATION_PATTERN.exec(String(value ?? '').trim());
+  if (!match) {
+    return null;
+  }
+  const duration = parseFloat(match[1]) * DURATION_UNITS[match[2].toLowerCase()];
+  return duration > 0 ? duration : null;
+}
+
+// A date given as an ISO string or milliseconds since 1970; null if invalid
+function parseDate(value) {
+  const text = String(value).trim();
+  const date = new Date(/^\d+$/.test(text) ? Number(text) : text);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Read a time window from query parameters (from, to, last)
+ * @param {Object} query - req.query
+ * @param {Date} [now] - Time of the request
+ * @returns {{value: {from: Date|null, to: Date|null}}|{error: string}} - Missing ends are open
+ */
+export function parseTimeWindow(query, now = new Date()) {
+  const window = { from: null, to: null };
+
+  if (query.to !== undefined) {
+    window.to = parseDate(query.to);
+    if (!window.to) {
+      return { error: 'to must be an ISO date or milliseconds since 1970' };
+    }
+  }
+
+  if (query.last !== undefined) {
+    if (query.from !== undefined) {
+      return { error: 'Use either from or last, not both' };
+    }
+    const duration = parseDuration(query.last);
+    if (!duration) {
+      return { error: 'last must be a duration such as 12h, 7d or 2w' };
+    }
+    window.from = new Date((window.to ?? now).getTime() - duration);
+  } else if (query.from !== undefined) {
+    window.from = parseDate(query.from);
+    if (!window.from) {
+      return { error: 'from must be an ISO date or milliseconds since 1970' };
+    }
+  }
+
+  if (window.from && window.to && window.from > window.to) {
+    return { error: 'from must not be later than to' };
+  }
+
+  return { value: window };
+}
+
+/**
+ * Prisma `where` fields for the datapoints inside a time window
+ */
+export function timeWindowFilter({ from, to }) {
+  if (!from && !to) {
+    return {};
+  }
+  return {
+    timestamp: {
+      ...(from ? { gte: from } : {}),
+      ...(to ? { lte: to } : {})
+    }
+  };
+}
+
+/**
+ * Read the decay half-life from query parameters
+ * @returns {{value: number|null}|{error: string}} - Half-life in milliseconds, null without decay
+ */
+export function parseDecay(query) {
+  if (query.decay === undefined) {
+    return { value: null };
+  }
+  const halfLife = parseDuration(query.decay);
+  return halfLife ? { value: halfLife } : { error: 'decay must be a half-life such as 12h, 7d or 2w' };
+}
+
+/**
+ * Weight of a point of a given age under exponential decay
+ * Points at or after the reference time keep their full value.
+ * @param {Date} timestamp - When the point was recorded
+ * @param {Date} reference - End of the window
+ * @param {number} halfLife - Half-life in milliseconds
+ * @returns {number} - From 0 to 1
+ */
+export function decayFactor(timestamp, reference, halfLife) {
+  const age = Math.max(0, reference.getTime() - new Date(timestamp).getTime());
+  return Math.pow(0.5, age / halfLife);
+}
+
+/**
+ * Start of the time bucket a date falls in (UTC)
+ */
+export function bucketStart(date, bucket) {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  if (bucket === 'week') {
+    // getUTCDay() is 0 on Sunday; weeks start on Monday
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  } else if (bucket === 'month') {
+    start.setUTCDate(1);
+  }
+  return start;
+}
+
+/**
+ * Start of the bucket after the one starting at `start`
+ */
+export function nextBucketStart(start, bucket) {
+  const next = new Date(start);
+  if (bucket === 'day') {
+    next.setUTCDate(next.getUTCDate() + 1);
+  } else if (bucket === 'week') {
+    next.setUTCDate(next.getUTCDate() + 7);
+  } else {
+    next.setUTCMonth(next.getUTCMonth() + 1);
+  }
+  return next;
+}
+
+/**
+ * Every bucket between two dates, including the ones they fall in
+ * @returns {Array<{start: Date, end: Date}>} - `end` is the start of the next bucket
+ */
+export function bucketRange(from, to, bucket) {
+  const buckets = [];
+  for (let start = bucketStart(from, bucket); start <= to; start = nextBucketStart(start, bucket)) {
+    buckets.push({ start, end: nextBucketStart(start, bucket) });
+  }
+  return buckets;
+}
+
+/**
+ * Number of buckets between two dates, without listing them
+ */
+export function countBuckets(from, to, bucket) {
+  const first = bucketStart(from, bucket);
+  const last = bucketStart(to, bucket);
+  if (bucket === 'month') {
+    return (last.getUTCFullYear() - first.getUTCFullYear()) * 12 + last.getUTCMonth() - first.getUTCMonth() + 1;
+  }
+  return Math.round((last - first) / DURATION_UNITS[bucket === 'week' ? 'w' : 'd']) + 1;
+}
+
+export default {
+  TIME_BUCKETS,
+  parseDuration,
+  parseTimeWindow,
+  timeWindowFilter,
+  parseDecay,
+  decayFactor,
+  bucketStart,
+  nextBucketStart,
+  bucketRange,
+  countBuckets
+};
@@ -0,0 +1,336 @@
+import crypto from 'crypto';
+
+/**
+ * Heatmap datapoint ingestion for bots and telemetry sources
+ *
+ * Sources authenticate with an ingestion key created in the admin panel
+ * (POST /api/admin/ingestion-keys); only its SHA-256 hash is stored. POST /api/ingest/heatmap
+ * (routes/ingest.js) takes a batch of datapoints as either
+ *   - NDJSON (Content-Type: application/x-ndjson): one { x, y, weight, intensity, type, timestamp }
+ *     object per line, or
+ *   - CSV (Content-Type: text/csv): x,y,weight,intensity,type[,timestamp] per line. A header
+ *     line may name the columns in another order.
+ *
+ * x, y and type are required; weight defaults to 1, intensity to 0.75 and timestamp to the
+ * time of the request. Lines that fail validation are reported by line number and the
+ * others are still inserted. Datapoints always go to the key's map layer. Each key has its
+ * own per-minute request and datapoint limits.
+ */
+
+const KEY_PREFIX = 'smk_';
+
+// Maximum number of lines in one request
+export const INGEST_MAX_LINES = parseInt(process.env.INGEST_MAX_LINES, 10) || 10000;
+
+// Datapoints inserted per transaction
+export const INGEST_CHUNK_SIZE = 500;
+
+// Content types accepted for each format
+export const INGEST_CONTENT_TYPES = {
+  ndjson: ['application/x-ndjson', 'application/ndjson', 'application/jsonl', 'application/x-jsonlines'],
+  csv: ['text/csv', 'application/csv']
+};
+
+// CSV columns, in the order used when there is no header line
+const CSV_COLUMNS = ['x', 'y', 'weight', 'intensity', 'type', 'timestamp'];
+
+const DEFAULT_WEIGHT = 1;
+const DEFAULT_INTENSITY = 0.75;
+
+// How far in the future a timestamp may be, to allow for clock drift
+const MAX_CLOCK_SKEW = 5 * 60 * 1000;
+
+// Length of the rate limit windows
+const RATE_LIMIT_WINDOW = 60 * 1000;
+
+/**
+ * Error raised for request bodies that can't be read at all (as opposed to single bad lines)
+ */
+export class IngestionError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'IngestionError';
+  }
+}
+
+/**
+ * Hash of an ingestion key, as stored in IngestionKey.keyHash
+ */
+export function hashIngestionKey(key) {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Generate a new ingestion key
+ * @returns {{key: string, keyPrefix: string, keyHash: string}} - `key` is only ever shown once
+ */
+export function generateIngestionKey() {
+  const key = `${KEY_PREFIX}${crypto.randomBytes(24).toString('base64url')}`;
+  return {
+    key,
+    keyPrefix: key.slice(0, KEY_PREFIX.length + 6),
+    keyHash: hashIngestionKey(key)
+  };
+}
+
+/**
+ * The ingestion key sent with a request, from Authorization: Bearer or X-Ingestion-Key
+ * @returns {string|null}
+ */
+export function requestIngestionKey(req) {
+  const authHeader = req.headers.authorization;
+  if (authHeader && authHeader.startsWith('Bearer ')) {
+    return authHeader.split(' ')[1] || null;
+  }
+  return req.headers['x-ingestion-key'] || null;
+}
+
+/**
+ * Format of a request body from its Content-Type header
+ * @returns {'ndjson'|'csv'|null}
+ */
+export function ingestionFormat(contentType) {
+  const mediaType = String(contentType || '').split(';')[0].trim().toLowerCase();
+  const format = Object.keys(INGEST_CONTENT_TYPES).find(name => INGEST_CONTENT_TYPES[name].includes(mediaType));
+  return format || null;
+}
+
+// Split one CSV line into cells; double quotes wrap cells with commas, "" is a literal quote
+function splitCsvLine(line) {
+  const cells = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) {
+    return null;
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+// Column order from a CSV header line, or null if the line is data
+function csvHeader(cells) {
+  const names = cells.map(cell => cell.toLowerCase());
+  if (!names.includes('x') && !names.includes('y')) {
+    return null;
+  }
+
+  const unknown = names.find(name => !CSV_COLUMNS.includes(name));
+  if (unknown !== undefined) {
+    throw new IngestionError(`Unknown CSV column "${unknown}", expected: ${CSV_COLUMNS.join(', ')}`);
+  }
+  ['x', 'y', 'type'].forEach(required => {
+    if (!names.includes(required)) {
+      throw new IngestionError(`CSV header is missing the "${required}" column`);
+    }
+  });
+  return names;
+}
+
+/**
+ * Split a request body into one record per non-empty line
+ * @param {string} text - The request body
+ * @param {'ndjson'|'csv'} format
+ * @returns {{records: Array<{line: number, fields: Object}>, errors: Array<{line: number, error: string}>}}
+ *   `line` numbers start at 1 and count every line, including the header and blank ones
+ * @throws {IngestionError} - If the CSV header can't be used
+ */
+export function parseIngestionBody(text, format) {
+  const records = [];
+  const errors = [];
+  let columns = CSV_COLUMNS;
+  let firstLine = true;
+
+  text.split(/\r?\n/).forEach((content, index) => {
+    const line = index + 1;
+    if (content.trim() === '') {
+      return;
+    }
+
+    if (format === 'ndjson') {
+      let fields;
+      try {
+        fields = JSON.parse(content);
+      } catch {
+        errors.push({ line, error: 'is not valid JSON' });
+        return;
+      }
+      if (!fields || typeof fields !== 'object' || Array.isArray(fields)) {
+        errors.push({ line, error: 'must be a JSON object' });
+        return;
+      }
+      records.push({ line, fields });
+      return;
+    }
+
+    const cells = splitCsvLine(content);
+    if (!cells) {
+      errors.push({ line, error: 'has an unterminated quote' });
+      return;
+    }
+    if (firstLine) {
+      firstLine = false;
+      const header = csvHeader(cells);
+      if (header) {
+        columns = header;
+        return;
+      }
+    }
+    if (cells.length > columns.length) {
+      errors.push({ line, error: `has ${cells.length} columns, expected at most ${columns.length}` });
+      return;
+    }
+
+    const fields = {};
+    columns.forEach((column, position) => {
+      if (cells[position] !== undefined && cells[position] !== '') {
+        fields[column] = cells[position];
+      }
+    });
+    records.push({ line, fields });
+  });
+
+  return { records, errors };
+}
+
+// A CSV cell or JSON value as a number; undefined when missing
+function toNumber(value) {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  return typeof value === 'number' ? value : Number(value);
+}
+
+// A timestamp given as an ISO date or as milliseconds since the epoch
+function toDate(value) {
+  const numeric = typeof value === 'number' || /^\d+$/.test(String(value).trim());
+  return new Date(numeric ? Number(value) : String(value));
+}
+
+/**
+ * Check one record against a map layer
+ * @param {Object} fields - Record fields from parseIngestionBody
+ * @param {Object} layer - The MapLayer datapoints are added to
+ * @param {Date} [now] - Time of the request
+ * @returns {{value: {x: number, y: number, weight: number, intensity: number, type: string, timestamp: Date}}|{error: string}}
+ */
+export function validateIngestionRecord(fields, layer, now = new Date()) {
+  const x = toNumber(fields.x);
+  const y = toNumber(fields.y);
+  if (x === undefined || y === undefined) {
+    return { error: 'x and y are required' };
+  }
+  if (!Number.isFinite(x) || !Number.isFinite(y)) {
+    return { error: 'x and y must be numbers' };
+  }
+  if (x < 0 || x > layer.width || y < 0 || y > layer.height) {
+    return { error: `[${x}, ${y}] is outside the ${layer.width} x ${layer.height} map` };
+  }
+
+  const weight = toNumber(fields.weight) ?? DEFAULT_WEIGHT;
+  if (!Number.isInteger(weight) || weight < 1) {
+    return { error: 'weight must be a whole number of at least 1' };
+  }
+
+  const intensity = toNumber(fields.intensity) ?? DEFAULT_INTENSITY;
+  if (!Number.isFinite(intensity) || intensity < 0 || intensity > 1) {
+    return { error: 'intensity must be a number from 0 to 1' };
+  }
+
+  const type = typeof fields.type === 'string' ? fields.type.trim() : '';
+  if (type === '') {
+    return { error: 'type must be a heatmap type name' };
+  }
+
+  let timestamp = now;
+  if (fields.timestamp !== undefined && fields.timestamp !== null && fields.timestamp !== '') {
+    timestamp = toDate(fields.timestamp);
+    if (Number.isNaN(timestamp.getTime())) {
+      return { error: 'timestamp must be an ISO date or milliseconds since 1970' };
+    }
+    if (timestamp.getTime() > now.getTime() + MAX_CLOCK_SKEW) {
+      return { error: 'timestamp is in the future' };
+    }
+  }
+
+  return { value: { x, y, weight, intensity, type, timestamp } };
+}
+
+// Ingestion key ID -> { start, requests, datapoints } for the current window
+const rateWindows = new Map();
+
+/**
+ * Count usage against an ingestion key's per-minute limits
+ * Nothing is counted when the usage would go over a limit.
+ * Usage is only counted in this process's memory: a restart starts every key on a fresh
+ * window, and each server instance behind a load balancer applies the limits on its own.
+ * Put a shared limiter in front of the API when running several instances.
+ * @param {Object} key - The IngestionKey row
+ * @param {Object} usage
+ * @param {number} [usage.requests] - Requests to count
+ * @param {number} [usage.datapoints] - Datapoints to count
+ * @returns {{error: string, retryAfter: number}|null} - Why the usage is refused (retryAfter in seconds), or null
+ */
+export function takeRateLimit(key, { requests = 0, datapoints = 0 }) {
+  const now = Date.now();
+  let window = rateWindows.get(key.id);
+  if (!window || now - window.start >= RATE_LIMIT_WINDOW) {
+    window = { start: now, requests: 0, datapoints: 0 };
+    rateWindows.set(key.id, window);
+  }
+
+  const retryAfter = Math.ceil((window.start + RATE_LIMIT_WINDOW - now) / 1000);
+  if (window.requests + requests > key.requestsPerMinute) {
+    return { error: `Rate limit of ${key.requestsPerMinute} requests per minute exceeded`, retryAfter };
+  }
+  if (window.datapoints + datapoints > key.datapointsPerMinute) {
+    return { error: `Rate limit of ${key.datapointsPerMinute} datapoints per minute exceeded`, retryAfter };
+  }
+
+  window.requests += requests;
+  window.datapoints += datapoints;
+  return null;
+}
+
+/**
+ * An ingestion key as shown in the admin panel (without its hash)
+ */
+export function toIngestionKeyResponse(key) {
+  const { keyHash, ...visible } = key;
+  return visible;
+}
+
+export default {
+  INGEST_MAX_LINES,
+  INGEST_CHUNK_SIZE,
+  INGEST_CONTENT_TYPES,
+  IngestionError,
+  hashIngestionKey,
+  generateIngestionKey,
+  requestIngestionKey,
+  ingestionFormat,
+  parseIngestionBody,
+  validateIngestionRecord,
+  takeRateLimit,
+  toIngestionKeyResponse
+};
@@ -0,0 +1,350 @@
+import { geometryPoints, geometryBounds } from './geometry.js';
+import { DEFAULT_LAYER_ID } from './mapLayers.js';
+
+/**
+ * Duplicate location detection
+ *
+ * Two locations look like duplicates when they are on the same map layer, in the same or a
+ * related category (one inside the other, or both directly under the same parent), and
+ * either
+ *   - their nearest vertices are at most DUPLICATE_DISTANCE map units apart, or
+ *   - their names have a trigram similarity of at least DUPLICATE_NAME_SIMILARITY
+ *     (computed like pg_trgm's similarity(), from 0 to 1).
+ *
+ * Archived locations are never reported. Creates and imports refuse likely duplicates
+ * unless the caller passes `force`; GET /api/admin/locations/duplicates reports the
+ * clusters already in the table and POST /api/admin/locations/merge folds them together.
+ */
+
+export const DUPLICATE_DISTANCE = parseFloat(process.env.DUPLICATE_DISTANCE) || 32;
+
+export const DUPLICATE_NAME_SIMILARITY = parseFloat(process.env.DUPLICATE_NAME_SIMILARITY) || 0.8;
+
+// Fields loaded for the locations a new one is compared with
+export const DUPLICATE_SELECT = {
+  id: true,
+  name: true,
+  type: true,
+  status: true,
+  layerId: true,
+  coordinates: true,
+  geometryType: true
+};
+
+// Category path with one leading slash and no trailing ones ("Fable/Quests/" is "/Fable/Quests")
+function normalizeCategory(category) {
+  return '/' + String(category ?? '').replace(/^\/+|\/+$/g, '');
+}
+
+// The ways a normalized path can be stored: validated writes keep the leading slash, seeded rows don't
+function storedCategoryForms(category) {
+  return [category, category.slice(1)];
+}
+
+// Parent of a category path, or '' for top-level categories
+function parentCategory(category) {
+  const index = category.lastIndexOf('/');
+  return index > 0 ? category.slice(0, index) : '';
+}
+
+/**
+ * Check whether two category paths are the same or related
+ * Related categories are nested in one another ("/Fable" and "/Fable/Quests") or share
+ * a parent ("/Fable/Quests" and "/Fable/Shrines"); top-level categories aren't siblings.
+ */
+export function categoriesRelated(a, b) {
+  return normalizedCategoriesRelated(normalizeCategory(a), normalizeCategory(b));
+}
+
+// categoriesRelated for paths that are already normalized
+function normalizedCategoriesRelated(first, second) {
+  if (first === second || first.startsWith(`${second}/`) || second.startsWith(`${first}/`)) {
+    return true;
+  }
+
+  const parent = parentCategory(first);
+  return parent !== '' && parent === parentCategory(second);
+}
+
+/**
+ * Prisma filter for the locations whose category may be related to a path
+ * A superset of categoriesRelated, which the caller still has to apply.
+ */
+function relatedCategoryFilter(category) {
+  const path = normalizeCategory(category);
+  const segments = path.split('/');
+  const ancestors = segments.slice(0, -1).map((_, index) => segments.slice(0, index + 1).join('/')).filter(Boolean);
+  const parent = parentCategory(path);
+
+  return [
+    { type: { in: storedCategoryForms(path) } },
+    ...storedCategoryForms(parent || path).map(prefix => ({ type: { startsWith: `${prefix}/` } })),
+    ...(ancestors.length > 0 ? [{ type: { in: ancestors.flatMap(storedCategoryForms) } }] : [])
+  ];
+}
+
+// Trigrams of a name, like pg_trgm: each lower-cased word padded with two spaces in front and one behind
+function nameTrigrams(name) {
+  const trigrams = new Set();
+  String(name ?? '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .forEach(word => {
+      const padded = `  ${word} `;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        trigrams.add(padded.slice(i, i + 3));
+      }
+    });
+  return trigrams;
+}
+
+// Shared trigrams over all trigrams of the two sets
+function trigramSimilarity(a, b) {
+  if (a.size === 0 || b.size === 0) {
+    return 0;
+  }
+  let shared = 0;
+  a.forEach(trigram => {
+    if (b.has(trigram)) {
+      shared++;
+    }
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Trigram similarity of two names, from 0 (nothing in common) to 1 (the same words)
+ */
+export function nameSimilarity(a, b) {
+  return trigramSimilarity(nameTrigrams(a), nameTrigrams(b));
+}
+
+// What the comparisons need from a location, worked out once
+function prepare(location) {
+  return {
+    location,
+    category: normalizeCategory(location.type),
+    layerId: location.layerId ?? DEFAULT_LAYER_ID,
+    trigrams: nameTrigrams(location.name),
+    points: geometryPoints(location.geometryType, location.coordinates),
+    bounds: geometryBounds(location.geometryType, location.coordinates)
+  };
+}
+
+// Distance between the nearest vertices of two prepared locations (Infinity without coordinates)
+function nearestDistance(a, b, limit) {
+  if (!a.bounds || !b.bounds) {
+    return Infinity;
+  }
+  // Boxes further apart than the limit can't have vertices within it
+  const gapX = Math.max(a.bounds.minX - b.bounds.maxX, b.bounds.minX - a.bounds.maxX, 0);
+  const gapY = Math.max(a.bounds.minY - b.bounds.maxY, b.bounds.minY - a.bounds.maxY, 0);
+  if (Math.hypot(gapX, gapY) > limit) {
+    return Infinity;
+  }
+
+  let nearest = Infinity;
+  a.points.forEach(p => {
+    b.points.forEach(q => {
+      nearest = Math.min(nearest, Math.hypot(p[0] - q[0], p[1] - q[1]));
+    });
+  });
+  return nearest;
+}
+
+// Compare two prepared locations; returns the match details, or null if they don't look alike
+function compare(a, b, { distance, similarity }) {
+  if (a.layerId !== b.layerId || !normalizedCategoriesRelated(a.category, b.category)) {
+    return null;
+  }
+
+  const apart = nearestDistance(a, b, distance);
+  const alike = trigramSimilarity(a.trigrams, b.trigrams);
+  const reasons = [];
+  if (apart <= distance) {
+    reasons.push('distance');
+  }
+  if (alike >= similarity) {
+    reasons.push('name');
+  }
+  if (reasons.length === 0) {
+    return null;
+  }
+
+  return {
+    distance: Number.isFinite(apart) ? Math.round(apart * 100) / 100 : null,
+    nameSimilarity: Math.round(alike * 1000) / 1000,
+    reasons
+  };
+}
+
+/**
+ * Thresholds for a duplicate check, with the configured ones as defaults
+ * @param {Object} [overrides]
+ * @param {number} [overrides.distance] - Maximum distance in map units
+ * @param {number} [overrides.similarity] - Minimum name similarity, 0 to 1
+ */
+export function duplicateThresholds({ distance, similarity } = {}) {
+  return {
+    distance: Number.isFinite(distance) && distance >= 0 ? distance : DUPLICATE_DISTANCE,
+    similarity: Number.isFinite(similarity) && similarity > 0 && similarity <= 1 ? similarity : DUPLICATE_NAME_SIMILARITY
+  };
+}
+
+// What a duplicate report says about a location
+// Locations that aren't stored yet (other files of the same import) have no id but a `file`.
+function describe(location, match) {
+  return {
+    id: location.id ?? null,
+    ...(location.file ? { file: location.file } : {}),
+    name: location.name,
+    type: location.type,
+    status: location.status,
+    layerId: location.layerId ?? DEFAULT_LAYER_ID,
+    coordinates: location.coordinates,
+    ...match
+  };
+}
+
+/**
+ * Find the locations in a list that look like duplicates of a new one
+ * Archived candidates have no duplicates.
+ * @param {Object} candidate - Location data (name, type, layerId, coordinates, geometryType)
+ * @param {Array} locations - Locations to compare with
+ * @param {Object} [overrides] - See duplicateThresholds
+ * @returns {Array} - Matches, nearest first, with `distance`, `nameSimilarity` and `reasons`
+ */
+export function findDuplicates(candidate, locations, overrides) {
+  if (candidate.status === 'archived') {
+    return [];
+  }
+
+  const thresholds = duplicateThresholds(overrides);
+  const prepared = prepare(candidate);
+
+  return locations
+    .filter(location =>
+      location.status !== 'archived' &&
+      (location.layerId ?? DEFAULT_LAYER_ID) === prepared.layerId &&
+      categoriesRelated(location.type, prepared.category)
+    )
+    .map(location => {
+      const match = compare(prepared, prepare(location), thresholds);
+      return match ? describe(location, match) : null;
+    })
+    .filter(Boolean)
+    .sort((a, b) => (a.distance ?? Infinity) - (b.distance ?? Infinity) || b.nameSimilarity - a.nameSimilarity);
+}
+
+/**
+ * Find the stored locations that look like duplicates of a new one
+ * @param {Object} prisma - Prisma client or transaction client
+ * @param {Object} candidate - Location data, as for findDuplicates
+ * @param {Object} [overrides] - See duplicateThresholds
+ * @returns {Promise<Array>}
+ */
+export async function findDuplicateLocations(prisma, candidate, overrides) {
+  const locations = await prisma.location.findMany({
+    where: {
+      layerId: candidate.layerId ?? DEFAULT_LAYER_ID,
+      status: { not: 'archived' },
+      OR: relatedCategoryFilter(candidate.type)
+    },
+    select: DUPLICATE_SELECT
+  });
+  return findDuplicates(candidate, locations, overrides);
+}
+
+/**
+ * Group locations into clusters of likely duplicates
+ * Locations are linked when they look like duplicates of each other, and each cluster is
+ * a connected group of links, so its members aren't necessarily all alike.
+ * @param {Array} locations - Locations to scan
+ * @param {Object} [overrides] - See duplicateThresholds
+ * @returns {Array<{locations: Array, matches: Array}>} - Clusters, largest first
+ */
+export function findDuplicateClusters(locations, overrides) {
+  const thresholds = duplicateThresholds(overrides);
+  const prepared = locations.filter(location => location.status !== 'archived').map(prepare);
+
+  // Union-find over the indexes of the prepared locations
+  const parents = prepared.map((_, index) => index);
+  const root = index => {
+    while (parents[index] !== index) {
+      parents[index] = parents[parents[index]];
+      index = parents[index];
+    }
+    return index;
+  };
+
+  const matches = [];
+  for (let i = 0; i < prepared.length; i++) {
+    for (let j = i + 1; j < prepared.length; j++) {
+      const match = compare(prepared[i], prepared[j], thresholds);
+      if (match) {
+        matches.push({ ids: [prepared[i].location.id, prepared[j].location.id], ...match, first: i });
+        parents[root(j)] = root(i);
+      }
+    }
+  }
+
+  const clusters = new Map();
+  matches.forEach(({ first, ...match }) => {
+    const key = root(first);
+    if (!clusters.has(key)) {
+      clusters.set(key, { members: new Set(), matches: [] });
+    }
+    const cluster = clusters.get(key);
+    match.ids.forEach(id => cluster.members.add(id));
+    cluster.matches.push(match);
+  });
+
+  const byId = new Map(prepared.map(({ location }) => [location.id, location]));
+  return [...clusters.values()]
+    .map(cluster => ({
+      locations: [...cluster.members].map(id => describe(byId.get(id), {})),
+      matches: cluster.matches
+    }))
+    .sort((a, b) => b.locations.length - a.locations.length);
+}
+
+// Media URLs of a location as a list (the column holds a string or a list)
+function mediaList(location) {
+  const media = location.mediaUrl;
+  if (!media) {
+    return [];
+  }
+  return (Array.isArray(media) ? media : [media]).filter(url => typeof url === 'string' && url !== '');
+}
+
+/**
+ * Media of a kept location followed by any new media of the merged ones, in order
+ * @param {Object} kept - The location that stays
+ * @param {Array} merged - The locations folded into it
+ * @returns {string[]}
+ */
+export function mergedMedia(kept, merged) {
+  const media = mediaList(kept);
+  merged.forEach(location => {
+    mediaList(location).forEach(url => {
+      if (!media.includes(url)) {
+        media.push(url);
+      }
+    });
+  });
+  return media;
+}
+
+export default {
+  DUPLICATE_DISTANCE,
+  DUPLICATE_NAME_SIMILARITY,
+  DUPLICATE_SELECT,
+  categoriesRelated,
+  nameSimilarity,
+  duplicateThresholds,
+  findDuplicates,
+  findDuplicateLocations,
+  findDuplicateClusters,
+  mergedMedia
+};
@@ -0,0 +1,410 @@
+import { toPrismaLocationData } from './locationSchema.js';
+import { assertLayerExists } from './mapLayers.js';
+
+/**
+ * Multi-point locations
+ *
+ * A location can have an ordered list of LocationPoint rows. Each point has its own
+ * coordinates and may override some of the location's fields; null overrides inherit the
+ * location's value. The location's `coordinates` always mirror its points (a database
+ * trigger keeps them in sync), so bounds, clustering and the change feed treat it like
+ * any other multipoint location.
+ *
+ * Public endpoints return grouped locations with a `points` array of resolved points:
+ *
+ *   { id, name, ..., points: [{ id, position, coordinates, description, icon, ..., overrides: ['icon'] }] }
+ *
+ * Locations without points have no `points` key.
+ *
+ * Writes that set a location's coordinates keep using the inline format: a list of
+ * { coordinates: [x, y], ...overrides } entries replaces the points (and turns a location
+ * into a grouped one), while a plain list of [x, y] points moves the existing points and
+ * keeps their overrides. YAML and GeoJSON exports write grouped locations in the inline
+ * format, so they round-trip.
+ */
+
+/**
+ * Error raised for point changes that can't be made
+ * `code` is 'not-found', 'invalid' or 'conflict'.
+ */
+export class LocationPointError extends Error {
+  constructor(message, code) {
+    super(message);
+    this.name = 'LocationPointError';
+    this.code = code;
+  }
+}
+
+// Location fields a point can override
+export const POINT_OVERRIDE_FIELDS = ['description', 'icon', 'iconSize', 'iconColor', 'radius', 'mediaUrl'];
+
+// Prisma `include` loading a location's points in order
+export const POINTS_INCLUDE = { points: { orderBy: [{ position: 'asc' }, { id: 'asc' }] } };
+
+// Geometry types that can be stored as points
+const POINT_GEOMETRY_TYPES = ['point', 'multipoint'];
+
+// Load a location's points in order
+function loadPoints(tx, locationId) {
+  return tx.locationPoint.findMany({ where: { locationId }, orderBy: POINTS_INCLUDE.points.orderBy });
+}
+
+/**
+ * Resolve a point against its location, filling in inherited values
+ * @param {Object} location - The location row
+ * @param {Object} point - The LocationPoint row
+ * @returns {Object} - The point with every override field set, and `overrides` listing its own values
+ */
+export function resolvePoint(location, point) {
+  const resolved = {
+    id: point.id,
+    position: point.position,
+    coordinates: point.coordinates
+  };
+  const overrides = [];
+
+  POINT_OVERRIDE_FIELDS.forEach(field => {
+    if (point[field] !== null && point[field] !== undefined) {
+      resolved[field] = point[field];
+      overrides.push(field);
+    } else {
+      resolved[field] = location[field] ?? null;
+    }
+  });
+
+  resolved.overrides = overrides;
+  return resolved;
+}
+
+// Points keyed by their location ID, keeping their order
+function pointsByLocation(points) {
+  const byLocation = new Map();
+  points.forEach(point => {
+    if (!byLocation.has(point.locationId)) {
+      byLocation.set(point.locationId, []);
+    }
+    byLocation.get(point.locationId).push(point);
+  });
+  return byLocation;
+}
+
+/**
+ * Attach resolved points to the locations that have any
+ * @param {Array} locations - Location rows
+ * @param {Array} points - LocationPoint rows of those locations, in position order
+ * @returns {Array} - The locations, grouped ones copied with a `points` array
+ */
+export function groupLocationPoints(locations, points) {
+  const byLocation = pointsByLocation(points);
+
+  return locations.map(location => {
+    const locationPoints = byLocation.get(location.id);
+    if (!locationPoints) {
+      return location;
+    }
+    return { ...location, points: locationPoints.map(point => resolvePoint(location, point)) };
+  });
+}
+
+/**
+ * Check whether coordinates use the inline format with per-point properties
+ */
+export function hasPointEntries(coordinates) {
+  return Array.isArray(coordinates) &&
+    coordinates.some(entry => entry && typeof entry === 'object' && !Array.isArray(entry));
+}
+
+/**
+ * Convert points to the inline coordinates format, keeping only their overrides
+ */
+export function pointEntries(points) {
+  return points.map(point => {
+    const entry = { coordinates: point.coordinates };
+    POINT_OVERRIDE_FIELDS.forEach(field => {
+      if (point[field] !== null && point[field] !== undefined) {
+        entry[field] = point[field];
+      }
+    });
+    return entry;
+  });
+}
+
+/**
+ * Replace a location row's `points` (loaded with POINTS_INCLUDE) by inline coordinates
+ * Locations without points are returned without the empty `points` list.
+ */
+export function withPointEntries(location) {
+  const { points, ...rest } = location;
+  if (!Array.isArray(points) || points.length === 0) {
+    return rest;
+  }
+  return { ...rest, coordinates: pointEntries(points) };
+}
+
+/**
+ * Inline the points of multi-point locations into their coordinates (for exports)
+ * @param {Array} locations - Location rows
+ * @param {Array} points - LocationPoint rows of those locations, in position order
+ */
+export function inlineLocationPoints(locations, points) {
+  const byLocation = pointsByLocation(points);
+  return locations.map(location => withPointEntries({ ...location, points: byLocation.get(location.id) }));
+}
+
+/**
+ * Points to create when a location without points becomes a grouped one
+ * Its existing coordinates become points without overrides, keeping any inline
+ * per-point properties of complex entries.
+ * @returns {Array<Object>} - Point data in position order
+ */
+export function pointsFromCoordinates(coordinates) {
+  const entries = Array.isArray(coordinates) && typeof coordinates[0] === 'number' ? [coordinates] : coordinates;
+  if (!Array.isArray(entries)) {
+    return [];
+  }
+
+  return entries
+    .map(entry => {
+      if (Array.isArray(entry)) {
+        return { coordinates: entry };
+      }
+      if (!entry || typeof entry !== 'object' || !Array.isArray(entry.coordinates)) {
+        return null;
+      }
+
+      const point = { coordinates: entry.coordinates };
+      POINT_OVERRIDE_FIELDS.forEach(field => {
+        if (entry[field] !== undefined && entry[field] !== null) {
+          point[field] = field === 'mediaUrl' && typeof entry[field] === 'string' ? [entry[field]] : entry[field];
+        }
+      });
+      return point;
+    })
+    .filter(Boolean)
+    .map((point, position) => ({ ...point, position }));
+}
+
+/**
+ * Work out how to turn a location's points into the given coordinates
+ * Points are matched by position. Inline entries set every override (missing ones are
+ * cleared); plain [x, y] points only move the points.
+ * @param {Array} existing - Current LocationPoint rows in order
+ * @param {*} coordinates - The new coordinates
+ * @returns {{create: Array<Object>, update: Array<{id: string, data: Object}>, remove: string[]}}
+ */
+export function planPointChanges(existing, coordinates) {
+  const replaceOverrides = hasPointEntries(coordinates);
+  const wanted = pointsFromCoordinates(coordinates);
+  const changes = { create: [], update: [], remove: [] };
+
+  wanted.forEach((point, position) => {
+    const current = existing[position];
+    const data = { position, coordinates: point.coordinates };
+    if (replaceOverrides) {
+      POINT_OVERRIDE_FIELDS.forEach(field => {
+        data[field] = point[field] ?? null;
+      });
+    }
+
+    if (!current) {
+      changes.create.push(data);
+    } else if (Object.keys(data).some(field => JSON.stringify(current[field] ?? null) !== JSON.stringify(data[field]))) {
+      changes.update.push({ id: current.id, data });
+    }
+  });
+
+  existing.slice(wanted.length).forEach(point => changes.remove.push(point.id));
+  return changes;
+}
+
+/**
+ * Bring a location's points in line with newly written coordinates
+ * Nothing happens for locations without points unless the coordinates use the inline
+ * format. Lines and areas can't have points, so writing one drops them.
+ * @param {Object} tx - Prisma transaction client
+ * @param {string} locationId - The location (must exist)
+ * @param {*} coordinates - The validated coordinates
+ * @param {string} geometryType - The validated geometry type
+ * @returns {Promise<boolean>} - true if the location's coordinates now come from its points
+ */
+export async function syncLocationPoints(tx, locationId, coordinates, geometryType) {
+  const existing = await loadPoints(tx, locationId);
+
+  if (!POINT_GEOMETRY_TYPES.includes(geometryType)) {
+    if (existing.length > 0) {
+      await tx.locationPoint.deleteMany({ where: { locationId } });
+    }
+    return false;
+  }
+  if (existing.length === 0 && !hasPointEntries(coordinates)) {
+    return false;
+  }
+
+  const changes = planPointChanges(existing, coordinates);
+  if (changes.remove.length > 0) {
+    await tx.locationPoint.deleteMany({ where: { id: { in: changes.remove } } });
+  }
+  for (const { id, data } of changes.update) {
+    await tx.locationPoint.update({ where: { id }, data: toPrismaLocationData(data) });
+  }
+  for (const data of changes.create) {
+    await tx.locationPoint.create({ data: toPrismaLocationData({ ...data, locationId }) });
+  }
+  return true;
+}
+
+/**
+ * Create a location, storing inline per-point properties as points
+ * @param {Object} tx - Prisma transaction client
+ * @param {Object} data - Validated location data
+ * @returns {Promise<Object>} - The created location row
+ * @throws {ValidationError} - If the location's map layer doesn't exist
+ */
+export async function createLocationWithPoints(tx, data) {
+  await assertLayerExists(tx, data.layerId);
+  const location = await tx.location.create({ data: toPrismaLocationData(data) });
+  if (!hasPointEntries(data.coordinates)) {
+    return location;
+  }
+
+  await syncLocationPoints(tx, location.id, data.coordinates, data.geometryType);
+  return tx.location.findUnique({ where: { id: location.id } });
+}
+
+/**
+ * Update a location, routing coordinate changes of grouped locations through its points
+ * Throws Prisma's P2025 error if the location doesn't exist.
+ * @param {Object} tx - Prisma transaction client
+ * @param {string} id - The location ID
+ * @param {Object} data - Validated (partial) location data
+ * @returns {Promise<Object>} - The updated location row
+ * @throws {ValidationError} - If the location is moved to a map layer that doesn't exist
+ */
+export async function updateLocationWithPoints(tx, id, data) {
+  await assertLayerExists(tx, data.layerId);
+  const exists = await tx.location.findUnique({ where: { id }, select: { id: true } });
+  if (exists && data.coordinates !== undefined &&
+      await syncLocationPoints(tx, id, data.coordinates, data.geometryType)) {
+    const { coordinates, geometryType, ...rest } = data;
+    return tx.location.update({ where: { id }, data: toPrismaLocationData(rest) });
+  }
+
+  return tx.location.update({ where: { id }, data: toPrismaLocationData(data) });
+}
+
+/**
+ * Add a point to a location
+ * A location without points first gets one point per existing coordinate, so adding a
+ * point to a single-point location makes it a two-point location.
+ * @param {Object} tx - Prisma transaction client
+ * @param {Object} location - The location row
+ * @param {Object} data - Validated point data
+ * @param {number} [position] - Insert before this position (default: append)
+ * @returns {Promise<Object>} - The created LocationPoint row
+ */
+export async function addLocationPoint(tx, location, data, position) {
+  let points = await loadPoints(tx, location.id);
+
+  if (points.length === 0) {
+    if (!POINT_GEOMETRY_TYPES.includes(location.geometryType ?? 'point')) {
+      throw new LocationPointError(`A ${location.geometryType} location can't have points`, 'invalid');
+    }
+    for (const point of pointsFromCoordinates(location.coordinates)) {
+      await tx.locationPoint.create({ data: toPrismaLocationData({ ...point, locationId: location.id }) });
+    }
+    points = await loadPoints(tx, location.id);
+  }
+
+  if (position !== undefined && (!Number.isInteger(position) || position < 0 || position > points.length)) {
+    throw new LocationPointError(`position must be an integer from 0 to ${points.length}`, 'invalid');
+  }
+  const insertAt = position ?? points.length;
+
+  if (insertAt < points.length) {
+    await tx.locationPoint.updateMany({
+      where: { locationId: location.id, position: { gte: insertAt } },
+      data: { position: { increment: 1 } }
+    });
+  }
+
+  return tx.locationPoint.create({
+    data: toPrismaLocationData({ ...data, locationId: location.id, position: insertAt })
+  });
+}
+
+/**
+ * Update a point's coordinates or overrides
+ * @returns {Promise<Object>} - The updated LocationPoint row
+ */
+export async function updateLocationPoint(tx, locationId, pointId, data) {
+  const point = await tx.locationPoint.findFirst({ where: { id: pointId, locationId } });
+  if (!point) {
+    throw new LocationPointError('Point not found', 'not-found');
+  }
+
+  return tx.locationPoint.update({ where: { id: pointId }, data: toPrismaLocationData(data) });
+}
+
+/**
+ * Remove a point, closing the gap in the positions after it
+ * The last point can't be removed; delete the location instead.
+ */
+export async function removeLocationPoint(tx, locationId, pointId) {
+  const point = await tx.locationPoint.findFirst({ where: { id: pointId, locationId } });
+  if (!point) {
+    throw new LocationPointError('Point not found', 'not-found');
+  }
+  if (await tx.locationPoint.count({ where: { locationId } }) === 1) {
+    throw new LocationPointError('A location needs at least one point; delete the location instead', 'conflict');
+  }
+
+  await tx.locationPoint.delete({ where: { id: pointId } });
+  await tx.locationPoint.updateMany({
+    where: { locationId, position: { gt: point.position } },
+    data: { position: { decrement: 1 } }
+  });
+}
+
+/**
+ * Put a location's points in a new order
+ * @param {string[]} pointIds - Every point ID of the location, in the new order
+ * @returns {Promise<Array>} - The points in their new order
+ */
+export async function reorderLocationPoints(tx, locationId, pointIds) {
+  const points = await loadPoints(tx, locationId);
+  const known = new Set(points.map(point => point.id));
+
+  if (!Array.isArray(pointIds) || pointIds.length !== points.length ||
+      new Set(pointIds).size !== pointIds.length || !pointIds.every(id => known.has(id))) {
+    throw new LocationPointError('ids must list every point of the location exactly once', 'invalid');
+  }
+
+  const byId = new Map(points.map(point => [point.id, point]));
+  for (const [position, id] of pointIds.entries()) {
+    if (byId.get(id).position !== position) {
+      await tx.locationPoint.update({ where: { id }, data: { position } });
+    }
+  }
+  return loadPoints(tx, locationId);
+}
+
+export default {
+  LocationPointError,
+  POINT_OVERRIDE_FIELDS,
+  POINTS_INCLUDE,
+  resolvePoint,
+  groupLocationPoints,
+  hasPointEntries,
+  pointEntries,
+  withPointEntries,
+  inlineLocationPoints,
+  pointsFromCoordinates,
+  planPointChanges,
+  syncLocationPoints,
+  createLocationWithPoints,
+  updateLocationWithPoints,
+  addLocationPoint,
+  updateLocationPoint,
+  removeLocationPoint,
+  reorderLocationPoints
+};
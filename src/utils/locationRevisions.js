@@ -0,0 +1,131 @@
+import { PUBLISHED, stripLegacyMarker } from './locationStatus.js';
+import { inferGeometryType } from './geometry.js';
+import { validateLocation } from './locationSchema.js';
+
+/**
+ * Helpers for recording and comparing location revisions
+ */
+
+// Columns that are derived or managed by the database and never restored
+const DERIVED_FIELDS = ['id', 'createdAt', 'updatedAt', 'lastModified', 'minX', 'minY', 'maxX', 'maxY', 'changeSeq'];
+
+/**
+ * Convert a location row into a JSON-safe snapshot
+ * @param {Object|null} location - The location row
+ * @returns {Object|null} - Plain object with dates as ISO strings
+ */
+export function toSnapshot(location) {
+  if (!location) {
+    return null;
+  }
+
+  return JSON.parse(JSON.stringify(location));
+}
+
+/**
+ * Extract the acting user for a revision from req.user
+ * @param {Object|undefined} user - The authenticated user
+ * @returns {{userId: string|null, username: string|null}}
+ */
+export function revisionActor(user) {
+  return {
+    userId: user?.id ?? null,
+    username: user?.username ?? null
+  };
+}
+
+/**
+ * Record a revision inside a Prisma transaction
+ * @param {Object} tx - Prisma client or transaction client
+ * @param {Object} revision
+ * @param {string} revision.locationId - ID of the changed location
+ * @param {string} revision.action - "create", "update", "delete" or "restore"
+ * @param {Object|null} revision.before - Location before the change
+ * @param {Object|null} revision.after - Location after the change
+ * @param {Object} [revision.user] - The acting req.user
+ * @param {string} [revision.restoredFromId] - Revision that was restored
+ */
+export async function recordRevision(tx, { locationId, action, before = null, after = null, user, restoredFromId = null }) {
+  return tx.locationRevision.create({
+    data: {
+      locationId,
+      action,
+      before: toSnapshot(before) ?? undefined,
+      after: toSnapshot(after) ?? undefined,
+      restoredFromId,
+      ...revisionActor(user)
+    }
+  });
+}
+
+/**
+ * Field-level diff between two snapshots
+ * @param {Object|null} from - The older snapshot
+ * @param {Object|null} to - The newer snapshot
+ * @returns {Array<{field: string, from: any, to: any}>} - One entry per changed field
+ */
+export function diffSnapshots(from, to) {
+  const fromState = from || {};
+  const toState = to || {};
+  const fields = new Set([...Object.keys(fromState), ...Object.keys(toState)]);
+
+  const changes = [];
+  fields.forEach(field => {
+    if (DERIVED_FIELDS.includes(field)) {
+      return;
+    }
+
+    const before = fromState[field] ?? null;
+    const after = toState[field] ?? null;
+    if (JSON.stringify(before) !== JSON.stringify(after)) {
+      changes.push({ field, from: before, to: after });
+    }
+  });
+
+  return changes.sort((a, b) => a.field.localeCompare(b.field));
+}
+
+/**
+ * The location state a revision leaves behind
+ * For deletes this is the state right before the location was removed.
+ */
+export function revisionState(revision) {
+  return revision.after ?? revision.before ?? null;
+}
+
+/**
+ * Turn a snapshot back into location data, checked like any other location write
+ * Derived columns are dropped. Nulls are kept as nulls, so write the result with
+ * createLocationWithPoints/updateLocationWithPoints (or toPrismaLocationData), which store
+ * them in Json columns as Prisma.DbNull.
+ * @param {Object} snapshot - The snapshot to restore
+ * @returns {Object} - Validated location data
+ * @throws {ValidationError} - If the snapshot no longer passes validation
+ */
+export function restorableData(snapshot) {
+  const data = { ...snapshot };
+  DERIVED_FIELDS.forEach(field => delete data[field]);
+
+  // Snapshots from before the status column mark hidden locations in their type
+  if (data.status === undefined) {
+    const { type, hidden } = stripLegacyMarker(data.type);
+    data.type = type;
+    data.status = hidden ? 'hidden' : PUBLISHED;
+  }
+
+  // Snapshots from before geometry types only held points and multipoints
+  if (data.geometryType === undefined) {
+    data.geometryType = inferGeometryType(data.coordinates) ?? 'point';
+  }
+
+  return validateLocation(data);
+}
+
+export default {
+  toSnapshot,
+  revisionActor,
+  recordRevision,
+  diffSnapshots,
+  revisionState,
+  restorableData
+};
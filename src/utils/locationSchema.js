@@ -0,0 +1,396 @@
+import { Prisma } from '@prisma/client';
+import { LOCATION_STATUSES } from './locationStatus.js';
+import { GEOMETRY_TYPES, inferGeometryType, validateGeometry } from './geometry.js';
+
+/**
+ * Validation for location writes
+ *
+ * Every write path (the admin create/update routes and saveLocation/updateLocation in
+ * db.ts) runs its payload through validateLocation, which returns clean data or throws a
+ * ValidationError listing what is wrong with each field. Routes answer those with:
+ *
+ *   400 { error: 'Invalid location', details: [{ field: 'iconColor', message: '...' }] }
+ *
+ * Columns maintained by the database (id, timestamps, bounds, changeSeq) and the `points`
+ * of grouped locations (written through `coordinates` or the point endpoints) are ignored,
+ * so clients can send back a location they fetched. Any other unknown field is rejected.
+ *
+ * Coordinates are checked against the location's geometryType (see geometry.js); when it
+ * isn't given, it is inferred from the shape of the coordinates. Whether `layerId` names an
+ * existing map layer is checked on write (see mapLayers.js).
+ *
+ * Map layers are validated the same way with validateMapLayer, answered with
+ * `{ error: 'Invalid map layer', details }`.
+ */
+
+/**
+ * Error raised for a location (or map layer) payload that doesn't match the schema
+ */
+export class ValidationError extends Error {
+  constructor(details, subject = 'location') {
+    super(`Invalid ${subject}: ${details.map(detail => `${detail.field} ${detail.message}`).join(', ')}`);
+    this.name = 'ValidationError';
+    this.details = details;
+    this.subject = subject;
+  }
+}
+
+// Columns clients may send but never write
+const READ_ONLY_FIELDS = ['id', 'createdAt', 'updatedAt', 'lastModified', 'minX', 'minY', 'maxX', 'maxY', 'changeSeq', 'points'];
+
+const HEX_COLOR = /^#(?:[0-9a-fA-F]{3}|[0-9a-fA-F]{4}|[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/;
+
+// Map layer IDs appear in URLs, e.g. /api/layers/underground/locations
+const LAYER_ID = /^[a-z0-9](?:[a-z0-9-]{0,62}[a-z0-9])?$/;
+
+function isPoint(value) {
+  return Array.isArray(value) &&
+    value.length >= 2 &&
+    Number.isFinite(value[0]) &&
+    Number.isFinite(value[1]);
+}
+
+// Each rule returns { value } with the cleaned value, or { error } with a message
+const rules = {
+  string: (value) => (typeof value === 'string' ? { value } : { error: 'must be a string' }),
+
+  nonEmptyString: (value) => (typeof value === 'string' && value.trim() !== ''
+    ? { value: value.trim() }
+    : { error: 'must be a non-empty string' }),
+
+  boolean: (value) => (typeof value === 'boolean' ? { value } : { error: 'must be true or false' }),
+
+  number: (value) => (typeof value === 'number' && Number.isFinite(value) ? { value } : { error: 'must be a number' }),
+
+  integer: (value) => (Number.isInteger(value) ? { value } : { error: 'must be a whole number' }),
+
+  positiveInteger: (value) => (Number.isInteger(value) && value > 0
+    ? { value }
+    : { error: 'must be a whole number greater than 0' }),
+
+  positiveNumber: (value) => (typeof value === 'number' && Number.isFinite(value) && value > 0
+    ? { value }
+    : { error: 'must be a positive number' }),
+
+  // 0 means "no radius"
+  nonNegativeNumber: (value) => (typeof value === 'number' && Number.isFinite(value) && value >= 0
+    ? { value }
+    : { error: 'must be a number of at least 0' }),
+
+  hexColor: (value) => (typeof value === 'string' && HEX_COLOR.test(value)
+    ? { value }
+    : { error: 'must be a hex color such as #ff8800' }),
+
+  // "Fable / Quests/" -> "/Fable/Quests"
+  categoryPath: (value) => {
+    if (typeof value !== 'string') {
+      return { error: 'must be a category path such as /Fable/Quests' };
+    }
+    const segments = value.split('/').map(segment => segment.trim());
+    if (segments.slice(1, -1).some(segment => segment === '') || segments.every(segment => segment === '')) {
+      return { error: 'must be a category path such as /Fable/Quests' };
+    }
+    return { value: `/${segments.filter(Boolean).join('/')}` };
+  },
+
+  // Any shape from geometry.js; checked against the geometry type in validateLocation
+  geometry: (value) => (inferGeometryType(value)
+    ? { value }
+    : { error: 'must be [x, y], a list of points or entries, or a list of polygon rings' }),
+
+  geometryType: (value) => (GEOMETRY_TYPES.includes(value)
+    ? { value }
+    : { error: `must be one of: ${GEOMETRY_TYPES.join(', ')}` }),
+
+  point: (value) => (isPoint(value) ? { value: [value[0], value[1]] } : { error: 'must be [x, y]' }),
+
+  // [x, y], a list of [x, y] points, or a list of { coordinates: [x, y], ...point properties }
+  coordinates: (value) => {
+    if (isPoint(value)) {
+      return { value };
+    }
+    if (Array.isArray(value) && value.length > 0) {
+      if (value.every(isPoint)) {
+        return { value };
+      }
+      if (value.every(entry => entry && typeof entry === 'object' && !Array.isArray(entry) && isPoint(entry.coordinates))) {
+        return { value };
+      }
+    }
+    return { error: 'must be [x, y], a list of [x, y] points or a list of { coordinates: [x, y] } entries' };
+  },
+
+  // A single URL is accepted and stored as a one-item list
+  urlList: (value) => {
+    const urls = typeof value === 'string' ? [value] : value;
+    if (!Array.isArray(urls)) {
+      return { error: 'must be a list of http(s) URLs' };
+    }
+
+    const invalid = urls.find(url => {
+      try {
+        return !['http:', 'https:'].includes(new URL(url).protocol);
+      } catch {
+        return true;
+      }
+    });
+    return invalid === undefined ? { value: urls } : { error: `contains an invalid URL: ${String(invalid)}` };
+  },
+
+  status: (value) => (LOCATION_STATUSES.includes(value)
+    ? { value }
+    : { error: `must be one of: ${LOCATION_STATUSES.join(', ')}` }),
+
+  layerId: (value) => (typeof value === 'string' && LAYER_ID.test(value)
+    ? { value }
+    : { error: 'must be a map layer ID (lower-case letters, digits and dashes)' })
+};
+
+/**
+ * Writable location fields
+ * `required` fields must be present when creating; `nullable` fields may be cleared with null.
+ */
+export const LOCATION_SCHEMA = {
+  name: { rule: rules.nonEmptyString, required: true },
+  type: { rule: rules.categoryPath, required: true },
+  coordinates: { rule: rules.geometry, required: true },
+  geometryType: { rule: rules.geometryType },
+  description: { rule: rules.string },
+  icon: { rule: rules.string, nullable: true },
+  iconSize: { rule: rules.positiveNumber, nullable: true },
+  iconColor: { rule: rules.hexColor, nullable: true },
+  radius: { rule: rules.nonNegativeNumber, nullable: true },
+  mediaUrl: { rule: rules.urlList, nullable: true },
+  lore: { rule: rules.string, nullable: true },
+  spoilers: { rule: rules.string, nullable: true },
+  noCluster: { rule: rules.boolean, nullable: true },
+  isCoordinateSearch: { rule: rules.boolean, nullable: true },
+  exactCoordinates: { rule: rules.coordinates, nullable: true },
+  status: { rule: rules.status },
+  layerId: { rule: rules.layerId },
+  submittedBy: { rule: rules.string, nullable: true },
+  approvedBy: { rule: rules.string, nullable: true }
+};
+
+// Check the fields of a payload against a schema, collecting problems in `details`
+function validateFields(schema, readOnlyFields, input, partial, details, subject = 'location') {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new ValidationError([{ field: 'body', message: 'must be an object' }], subject);
+  }
+
+  const data = {};
+
+  Object.keys(input).forEach(field => {
+    if (!schema[field] && !readOnlyFields.includes(field)) {
+      details.push({ field, message: `is not a ${subject} field` });
+    }
+  });
+
+  Object.entries(schema).forEach(([field, { rule, required, nullable }]) => {
+    const value = input[field];
+
+    if (value === undefined) {
+      if (required && !partial) {
+        details.push({ field, message: 'is required' });
+      }
+      return;
+    }
+    if (value === null) {
+      if (nullable) {
+        data[field] = null;
+      } else {
+        details.push({ field, message: 'must not be null' });
+      }
+      return;
+    }
+
+    const result = rule(value);
+    if (result.error) {
+      details.push({ field, message: result.error });
+    } else {
+      data[field] = result.value;
+    }
+  });
+
+  return data;
+}
+
+/**
+ * Validate and normalize a location payload
+ * @param {Object} input - The payload, usually req.body
+ * @param {Object} [options]
+ * @param {boolean} [options.partial] - Allow missing required fields (for updates)
+ * @returns {Object} - Only the schema fields that were provided, cleaned up
+ * @throws {ValidationError} - If any field is invalid
+ */
+export function validateLocation(input, { partial = false } = {}) {
+  const details = [];
+  const data = validateFields(LOCATION_SCHEMA, READ_ONLY_FIELDS, input, partial, details);
+
+  // The geometry type describes the coordinates, so they are always written together
+  if (data.coordinates !== undefined) {
+    data.geometryType = data.geometryType ?? inferGeometryType(data.coordinates);
+    const geometryError = validateGeometry(data.geometryType, data.coordinates);
+    if (geometryError) {
+      details.push({ field: 'coordinates', message: geometryError });
+    }
+  } else if (data.geometryType !== undefined && !details.some(detail => detail.field === 'coordinates')) {
+    details.push({ field: 'geometryType', message: 'can only be changed together with coordinates' });
+  }
+
+  if (details.length > 0) {
+    throw new ValidationError(details);
+  }
+
+  return data;
+}
+
+/**
+ * Writable fields of a location point (see locationPoints.js)
+ * Everything but the coordinates is an override; null inherits the location's value.
+ */
+export const POINT_SCHEMA = {
+  coordinates: { rule: rules.point, required: true },
+  description: { rule: rules.string, nullable: true },
+  icon: { rule: rules.string, nullable: true },
+  iconSize: { rule: rules.positiveNumber, nullable: true },
+  iconColor: { rule: rules.hexColor, nullable: true },
+  radius: { rule: rules.nonNegativeNumber, nullable: true },
+  mediaUrl: { rule: rules.urlList, nullable: true }
+};
+
+const POINT_READ_ONLY_FIELDS = ['id', 'locationId', 'position', 'createdAt', 'updatedAt'];
+
+/**
+ * Validate and normalize a location point payload
+ * @param {Object} input - The payload, usually req.body
+ * @param {Object} [options]
+ * @param {boolean} [options.partial] - Allow missing coordinates (for updates)
+ * @returns {Object} - Only the schema fields that were provided, cleaned up
+ * @throws {ValidationError} - If any field is invalid
+ */
+export function validateLocationPoint(input, { partial = false } = {}) {
+  const details = [];
+  const data = validateFields(POINT_SCHEMA, POINT_READ_ONLY_FIELDS, input, partial, details);
+
+  if (details.length > 0) {
+    throw new ValidationError(details);
+  }
+
+  return data;
+}
+
+/**
+ * Writable map layer fields
+ * The ID can only be chosen when creating a layer.
+ */
+export const MAP_LAYER_SCHEMA = {
+  name: { rule: rules.nonEmptyString, required: true },
+  description: { rule: rules.string, nullable: true },
+  width: { rule: rules.positiveNumber, required: true },
+  height: { rule: rules.positiveNumber, required: true },
+  minZoom: { rule: rules.number },
+  maxZoom: { rule: rules.number },
+  tileUrl: { rule: rules.string, nullable: true },
+  tileSize: { rule: rules.positiveInteger },
+  attribution: { rule: rules.string, nullable: true },
+  sortOrder: { rule: rules.integer }
+};
+
+const MAP_LAYER_READ_ONLY_FIELDS = ['createdAt', 'updatedAt'];
+
+/**
+ * Validate and normalize a map layer payload
+ * @param {Object} input - The payload, usually req.body
+ * @param {Object} [options]
+ * @param {boolean} [options.partial] - Allow missing required fields and ignore `id` (for updates)
+ * @returns {Object} - Only the schema fields that were provided (and `id` when creating), cleaned up
+ * @throws {ValidationError} - If any field is invalid
+ */
+export function validateMapLayer(input, { partial = false } = {}) {
+  const details = [];
+  const schema = partial ? MAP_LAYER_SCHEMA : { id: { rule: rules.layerId, required: true }, ...MAP_LAYER_SCHEMA };
+  const readOnlyFields = partial ? ['id', ...MAP_LAYER_READ_ONLY_FIELDS] : MAP_LAYER_READ_ONLY_FIELDS;
+  const data = validateFields(schema, readOnlyFields, input, partial, details, 'map layer');
+
+  if (data.minZoom !== undefined && data.maxZoom !== undefined && data.minZoom > data.maxZoom) {
+    details.push({ field: 'minZoom', message: 'must not be greater than maxZoom' });
+  }
+
+  if (details.length > 0) {
+    throw new ValidationError(details, 'map layer');
+  }
+
+  return data;
+}
+
+/**
+ * Writable ingestion key settings (see utils/ingestion.js)
+ * The key itself is generated by the server and never written by clients.
+ */
+export const INGESTION_KEY_SCHEMA = {
+  name: { rule: rules.nonEmptyString, required: true },
+  layerId: { rule: rules.layerId },
+  autoCreateTypes: { rule: rules.boolean },
+  requestsPerMinute: { rule: rules.positiveInteger },
+  datapointsPerMinute: { rule: rules.positiveInteger },
+  enabled: { rule: rules.boolean }
+};
+
+const INGESTION_KEY_READ_ONLY_FIELDS = ['id', 'keyPrefix', 'keyHash', 'createdBy', 'lastUsedAt', 'createdAt', 'updatedAt'];
+
+/**
+ * Validate and normalize an ingestion key payload
+ * @param {Object} input - The payload, usually req.body
+ * @param {Object} [options]
+ * @param {boolean} [options.partial] - Allow missing required fields (for updates)
+ * @returns {Object} - Only the schema fields that were provided, cleaned up
+ * @throws {ValidationError} - If any field is invalid
+ */
+export function validateIngestionKey(input, { partial = false } = {}) {
+  const details = [];
+  const data = validateFields(INGESTION_KEY_SCHEMA, INGESTION_KEY_READ_ONLY_FIELDS, input, partial, details, 'ingestion key');
+
+  if (details.length > 0) {
+    throw new ValidationError(details, 'ingestion key');
+  }
+
+  return data;
+}
+
+// JSON columns need Prisma's null sentinel instead of a plain null
+const JSON_FIELDS = ['coordinates', 'exactCoordinates', 'mediaUrl'];
+
+/**
+ * Prepare validated data for prisma.location (or locationPoint) create/update
+ */
+export function toPrismaLocationData(data) {
+  const prismaData = { ...data };
+  JSON_FIELDS.forEach(field => {
+    if (prismaData[field] === null) {
+      prismaData[field] = Prisma.DbNull;
+    }
+  });
+  return prismaData;
+}
+
+/**
+ * Send the 400 response for a ValidationError
+ */
+export function sendValidationError(res, error) {
+  return res.status(400).json({ error: `Invalid ${error.subject}`, details: error.details });
+}
+
+export default {
+  ValidationError,
+  LOCATION_SCHEMA,
+  validateLocation,
+  POINT_SCHEMA,
+  validateLocationPoint,
+  MAP_LAYER_SCHEMA,
+  validateMapLayer,
+  INGESTION_KEY_SCHEMA,
+  validateIngestionKey,
+  toPrismaLocationData,
+  sendValidationError
+};
@@ -0,0 +1,50 @@
+/**
+ * Location visibility states
+ *
+ *   published  shown on the public map (default)
+ *   hidden     temporarily taken off the map, e.g. while it's being reworked
+ *   archived   kept for history only
+ *
+ * Only published locations are returned by public endpoints. Before the status column
+ * existed, hidden locations had their `type` prefixed with "![DISABLED]"; the
+ * 20250509000000_add_location_status migration converted those rows.
+ */
+
+export const LOCATION_STATUSES = ['published', 'hidden', 'archived'];
+
+export const PUBLISHED = 'published';
+
+const LEGACY_DISABLED_MARKER = '![DISABLED]';
+
+/**
+ * Check whether a value is a valid location status
+ */
+export function isLocationStatus(value) {
+  return LOCATION_STATUSES.includes(value);
+}
+
+/**
+ * Check whether a location is shown publicly
+ */
+export function isPublished(location) {
+  return (location?.status ?? PUBLISHED) === PUBLISHED;
+}
+
+/**
+ * Split a type that may still carry the legacy hidden marker (old revision snapshots)
+ * @returns {{type: string, hidden: boolean}}
+ */
+export function stripLegacyMarker(type) {
+  if (typeof type !== 'string' || !type.includes(LEGACY_DISABLED_MARKER)) {
+    return { type, hidden: false };
+  }
+  return { type: type.replace(LEGACY_DISABLED_MARKER, '').trim(), hidden: true };
+}
+
+export default {
+  LOCATION_STATUSES,
+  PUBLISHED,
+  isLocationStatus,
+  isPublished,
+  stripLegacyMarker
+};
@@ -0,0 +1,114 @@
+/**
+ * Helpers for community location submissions
+ */
+
+import { getLocationPoints } from './viewport.js';
+import { LOCATION_SCHEMA } from './locationSchema.js';
+
+// Fields a submitter may provide
+const SUBMISSION_FIELDS = [
+  'name', 'coordinates', 'description', 'type', 'icon', 'iconSize',
+  'mediaUrl', 'iconColor', 'radius', 'lore', 'spoilers', 'noCluster'
+];
+
+// Optional fields checked with the location schema's rules, so a wrong type is answered
+// with a 400 instead of failing the write; the rest is checked in full on approval
+const TYPED_FIELDS = ['description', 'icon', 'iconSize', 'radius', 'lore', 'spoilers', 'noCluster'];
+
+export const SUBMISSION_STATUSES = ['pending', 'approved', 'rejected'];
+
+/**
+ * Pick and check the submission fields from a request body
+ * @param {Object} body - The request body
+ * @param {Object} [options]
+ * @param {boolean} [options.partial] - Allow missing required fields (for edits)
+ * @returns {{data: Object, errors: string[]}}
+ */
+export function normalizeSubmission(body, { partial = false } = {}) {
+  const data = {};
+  const errors = [];
+
+  SUBMISSION_FIELDS.forEach(field => {
+    if (body[field] !== undefined) {
+      data[field] = body[field];
+    }
+  });
+
+  if (!partial || data.name !== undefined) {
+    if (typeof data.name !== 'string' || data.name.trim() === '') {
+      errors.push('name is required');
+    } else {
+      data.name = data.name.trim();
+    }
+  }
+
+  if (!partial || data.type !== undefined) {
+    if (typeof data.type !== 'string' || data.type.trim() === '') {
+      errors.push('type (category path) is required');
+    } else {
+      const type = data.type.trim();
+      data.type = type.startsWith('/') ? type : `/${type}`;
+    }
+  }
+
+  if (!partial || data.coordinates !== undefined) {
+    if (getLocationPoints({ coordinates: data.coordinates }).length === 0) {
+      errors.push('coordinates must be [x, y] or a list of [x, y] points');
+    }
+  }
+
+  TYPED_FIELDS.forEach(field => {
+    const value = data[field];
+    if (value === undefined || (value === null && LOCATION_SCHEMA[field].nullable)) {
+      return;
+    }
+    const result = value === null ? { error: 'must not be null' } : LOCATION_SCHEMA[field].rule(value);
+    if (result.error) {
+      errors.push(`${field} ${result.error}`);
+    } else {
+      data[field] = result.value;
+    }
+  });
+
+  // Colors are only checked as text here, approval asks for a hex color
+  if (data.iconColor !== undefined && data.iconColor !== null && typeof data.iconColor !== 'string') {
+    errors.push('iconColor must be a string');
+  }
+
+  if (data.mediaUrl !== undefined && !Array.isArray(data.mediaUrl)) {
+    data.mediaUrl = data.mediaUrl ? [data.mediaUrl] : [];
+  }
+
+  return { data, errors };
+}
+
+/**
+ * Location fields created from an approved submission
+ * @param {Object} submission - The submission row
+ * @param {Object} reviewer - The approving admin (req.user)
+ * @returns {Object} - Data for prisma.location.create
+ */
+export function submissionToLocation(submission, reviewer) {
+  return {
+    name: submission.name,
+    coordinates: submission.coordinates,
+    description: submission.description || '',
+    type: submission.type,
+    icon: submission.icon,
+    iconSize: submission.iconSize ?? 1,
+    mediaUrl: submission.mediaUrl ?? [],
+    iconColor: submission.iconColor ?? '#ffffff',
+    radius: submission.radius ?? 0,
+    lore: submission.lore,
+    spoilers: submission.spoilers,
+    noCluster: submission.noCluster ?? false,
+    submittedBy: submission.submittedBy,
+    approvedBy: reviewer?.id ?? null
+  };
+}
+
+export default {
+  SUBMISSION_STATUSES,
+  normalizeSubmission,
+  submissionToLocation
+};
@@ -0,0 +1,92 @@
+/**
+ * Typed change events for category defaults, heatmap data and map layers
+ *
+ * Database triggers (see prisma/migrations/20250505000000_add_map_change_notifications
+ * and 20250512000000_add_map_layers) send these on the "map_changes" channel. index.ts
+ * relays them to the /api/listen and /api/events streams as `{ type: <event>, data: <data>, timestamp }`.
+ * The locations.* and categories.renamed summaries only go to /api/listen, the only stream
+ * that filters out unpublished locations and spoiler categories.
+ *
+ * Per-row events:
+ *   category-default.created | .updated | .deleted   { id, path, layerId, visible, expanded }
+ *     (`layerId` is null for defaults shared by every layer)
+ *   heatmap.type.created | .updated | .deleted       { id, name }
+ *   heatmap.datapoint.created | .updated | .deleted  { id, layerId, visible }
+ *   heatmap.datapoint-type.created | .deleted        { datapointId, typeId }
+ *   map-layer.created | .updated | .deleted          { id, name }
+ *
+ * Summary events, sent once by bulk operations instead of the per-row events:
+ *   heatmap.datapoints.bulk-updated                  { count, ids, typeIds }
+ *   heatmap.datapoints.bulk-deleted                  { count, ids }
+ *   heatmap.datapoints.ingested                      { count, ids, layerId, typeIds, source }
+ *     (sent once per /api/ingest/heatmap request; `source` is the ingestion key's name)
+ *   heatmap.type.deleted                             { id, name, deletedDatapoints }
+ *     (the type delete summary covers datapoints and links removed along with it)
+ *   locations.imported                               { added, updated, deleted }
+ *   locations.bulk-updated                           { count, ids, changes }
+ *     (`changes` lists the changed fields, e.g. ["type", "status"])
+ *   locations.bulk-deleted                           { count, ids }
+ *   locations.merged                                 { id, mergedIds }
+ *     (`id` is the kept location, which got the media of the deleted `mergedIds`)
+ *   categories.renamed                               { from, to, locations, categoryDefaults }
+ *     (sent by db.renameCategory; covers the locations and defaults it re-keyed)
+ *
+ * `ids` is null when too many rows changed to list them; clients should reload the
+ * affected data instead.
+ */
+
+export const MAP_CHANGES_CHANNEL = 'map_changes';
+
+// Summary events list at most this many IDs, to stay below the 8000 byte NOTIFY limit
+const MAX_SUMMARY_IDS = 200;
+
+/**
+ * Stop the triggers from notifying about each row changed in this transaction
+ * Must be called inside a prisma.$transaction callback; the setting ends with the transaction.
+ * @param {Object} tx - Prisma transaction client
+ */
+export async function suppressRowNotifications(tx) {
+  await tx.$queryRaw`SELECT set_config('soulmap.suppress_notify', 'on', true)`;
+}
+
+/**
+ * Send a map change event from inside a transaction
+ * Postgres delivers it when (and only if) the transaction commits.
+ * @param {Object} tx - Prisma transaction client
+ * @param {string} event - Event name, e.g. "heatmap.datapoints.bulk-updated"
+ * @param {Object} data - Event data
+ */
+export async function notifyMapChange(tx, event, data) {
+  const payload = JSON.stringify({ event, table: null, data });
+  await tx.$queryRaw`SELECT pg_notify(${MAP_CHANGES_CHANNEL}, ${payload})`;
+}
+
+/**
+ * The `ids` value for a summary event
+ * @param {Array} ids - IDs of the changed rows
+ * @returns {Array|null}
+ */
+export function summaryIds(ids) {
+  return ids.length <= MAX_SUMMARY_IDS ? ids : null;
+}
+
+/**
+ * Turn a map_changes notification payload into the message sent to SSE clients
+ * @param {string} payload - Raw notification payload
+ */
+export function toClientEvent(payload) {
+  const { event, data } = JSON.parse(payload);
+  return {
+    type: event,
+    data,
+    timestamp: Date.now()
+  };
+}
+
+export default {
+  MAP_CHANGES_CHANNEL,
+  suppressRowNotifications,
+  notifyMapChange,
+  summaryIds,
+  toClientEvent
+};
@@ -0,0 +1,48 @@
+import { ValidationError } from './locationSchema.js';
+
+/**
+ * Map layers
+ *
+ * Every location and heatmap datapoint belongs to a map layer: the surface, an underground
+ * level, an alternate-realm overlay and so on. Each layer has its own size in map units,
+ * tile source and zoom range (see MapLayer in schema.prisma), and coordinates are in the
+ * units of their layer. Category defaults either belong to one layer or, without a layer,
+ * apply to all of them.
+ *
+ * Public reads exist in two forms: scoped to a layer under /api/layers/<layerId>/ (see
+ * routes/layers.js), and the original unscoped endpoints, which serve the default layer so
+ * clients that only know one map keep working.
+ */
+
+export const DEFAULT_LAYER_ID = 'surface';
+
+/**
+ * The layer a public request reads from: the one loaded for /api/layers/<layerId>/,
+ * or the default layer on unscoped routes
+ */
+export function requestLayerId(req) {
+  return req.mapLayer?.id ?? DEFAULT_LAYER_ID;
+}
+
+/**
+ * Check that a layer exists before writing a row that refers to it
+ * @param {Object} prisma - Prisma client or transaction client
+ * @param {string|undefined} layerId - The layer to check; undefined is left to the column default
+ * @throws {ValidationError} - If there is no such layer
+ */
+export async function assertLayerExists(prisma, layerId) {
+  if (layerId === undefined) {
+    return;
+  }
+
+  const layer = await prisma.mapLayer.findUnique({ where: { id: layerId }, select: { id: true } });
+  if (!layer) {
+    throw new ValidationError([{ field: 'layerId', message: `must be an existing map layer, "${layerId}" was not found` }]);
+  }
+}
+
+export default {
+  DEFAULT_LAYER_ID,
+  requestLayerId,
+  assertLayerExists
+};
@@ -0,0 +1,159 @@
+import crypto from 'crypto';
+
+/**
+ * Server-issued admin sessions
+ *
+ * A session token is "sm1.<payload>.<signature>" where the payload is base64url JSON
+ * ({ sub, username, role, iat, exp, authTime, jti }) and the signature is an
+ * HMAC-SHA256 of the payload. Tokens are verified locally, without calling Discord.
+ */
+
+const TOKEN_PREFIX = 'sm1';
+
+// Lifetime of a session token, in seconds
+const SESSION_TTL = parseInt(process.env.ADMIN_SESSION_TTL, 10) || 15 * 60;
+
+// How long after expiry a token may still be exchanged at /refresh, in seconds
+const REFRESH_GRACE = parseInt(process.env.ADMIN_SESSION_REFRESH_GRACE, 10) || 60 * 60;
+
+// Maximum time since the Discord login before a new login is required, in seconds
+const MAX_SESSION_AGE = parseInt(process.env.ADMIN_SESSION_MAX_AGE, 10) || 7 * 24 * 60 * 60;
+
+let SESSION_SECRET = process.env.ADMIN_SESSION_SECRET;
+if (!SESSION_SECRET) {
+  console.warn('ADMIN_SESSION_SECRET is not set - using a random secret, sessions will not survive a restart');
+  SESSION_SECRET = crypto.randomBytes(32).toString('hex');
+}
+
+// Revoked session IDs -> unix time after which the entry can be forgotten
+const revokedSessions = new Map();
+
+function sign(encodedPayload) {
+  return crypto.createHmac('sha256', SESSION_SECRET).update(encodedPayload).digest('base64url');
+}
+
+function now() {
+  return Math.floor(Date.now() / 1000);
+}
+
+// Forget revocations for tokens that can no longer be used anyway
+function pruneRevocations() {
+  const currentTime = now();
+  revokedSessions.forEach((forgetAt, jti) => {
+    if (forgetAt <= currentTime) {
+      revokedSessions.delete(jti);
+    }
+  });
+}
+
+/**
+ * Issue a session token for an authenticated admin panel user
+ * @param {Object} user - { id, username, role }
+ * @param {number} [authTime] - Unix time of the original Discord login (kept across refreshes)
+ * @returns {{token: string, expiresAt: string, session: Object}}
+ */
+export function createSession(user, authTime = now()) {
+  const issuedAt = now();
+  const session = {
+    sub: user.id,
+    username: user.username,
+    role: user.role,
+    iat: issuedAt,
+    exp: issuedAt + SESSION_TTL,
+    authTime,
+    jti: crypto.randomUUID()
+  };
+
+  const encodedPayload = Buffer.from(JSON.stringify(session)).toString('base64url');
+
+  return {
+    token: `${TOKEN_PREFIX}.${encodedPayload}.${sign(encodedPayload)}`,
+    expiresAt: new Date(session.exp * 1000).toISOString(),
+    session
+  };
+}
+
+/**
+ * Check whether a bearer token looks like a session token
+ */
+export function isSessionToken(token) {
+  return typeof token === 'string' && token.startsWith(`${TOKEN_PREFIX}.`);
+}
+
+/**
+ * Verify a session token's signature, expiry and revocation status
+ * @param {string} token - The session token
+ * @param {Object} [options]
+ * @param {boolean} [options.allowExpired] - Accept tokens within the refresh grace period
+ * @returns {{session?: Object, error?: string}}
+ */
+export function verifySession(token, { allowExpired = false } = {}) {
+  if (!isSessionToken(token)) {
+    return { error: 'Not a session token' };
+  }
+
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return { error: 'Malformed session token' };
+  }
+
+  const [, encodedPayload, signature] = parts;
+  const expected = Buffer.from(sign(encodedPayload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return { error: 'Invalid session signature' };
+  }
+
+  let session;
+  try {
+    session = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+  } catch (error) {
+    return { error: 'Malformed session token' };
+  }
+
+  if (revokedSessions.has(session.jti)) {
+    return { error: 'Session has been revoked' };
+  }
+
+  const currentTime = now();
+  const deadline = allowExpired ? session.exp + REFRESH_GRACE : session.exp;
+  if (currentTime >= deadline) {
+    return { error: 'Session has expired' };
+  }
+
+  if (currentTime - session.authTime >= MAX_SESSION_AGE) {
+    return { error: 'Session is too old, please log in again' };
+  }
+
+  return { session };
+}
+
+/**
+ * Revoke a session so it can neither be used nor refreshed
+ * @param {Object} session - A verified session payload
+ */
+export function revokeSession(session) {
+  pruneRevocations();
+  revokedSessions.set(session.jti, session.exp + REFRESH_GRACE);
+}
+
+/**
+ * The req.user object for a verified session
+ */
+export function sessionUser(session) {
+  return {
+    id: session.sub,
+    username: session.username,
+    role: session.role,
+    isAdmin: session.role === 'admin',
+    sessionId: session.jti
+  };
+}
+
+export default {
+  createSession,
+  isSessionToken,
+  verifySession,
+  revokeSession,
+  sessionUser
+};
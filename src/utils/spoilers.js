@@ -0,0 +1,175 @@
+import crypto from 'crypto';
+import db from '#db';  // Use #db instead of relative import
+
+/**
+ * Spoiler-safe response mode for public location endpoints
+ *
+ * Clients pick a mode with ?spoilerMode= or the X-Spoiler-Mode header:
+ *   full    everything, as before (default)
+ *   safe    `spoilers` text is masked and locations in spoiler categories are left out
+ *   strict  like safe, and `lore` is masked as well
+ *
+ * Masked fields are set to null and listed in the location's `masked` array, so the UI
+ * can offer to reveal them. Spoiler categories are CategoryDefaults rows with spoiler = true.
+ */
+
+export const SPOILER_MODES = ['full', 'safe', 'strict'];
+
+// Fields masked by each mode
+const MASKED_FIELDS = {
+  full: [],
+  safe: ['spoilers'],
+  strict: ['spoilers', 'lore']
+};
+
+let spoilerPaths = [];
+let spoilerPathsLoaded = false;
+let pendingLoad = null;
+
+/**
+ * Read the spoiler mode requested by a client
+ * @returns {string|null} - The mode, or null if an unknown mode was requested
+ */
+export function resolveSpoilerMode(req) {
+  const requested = req.query.spoilerMode ?? req.headers['x-spoiler-mode'];
+  if (requested === undefined || requested === '') {
+    return 'full';
+  }
+
+  const mode = String(requested).toLowerCase();
+  return SPOILER_MODES.includes(mode) ? mode : null;
+}
+
+/**
+ * Middleware setting req.spoilerMode, rejecting unknown modes
+ */
+export function spoilerMode(req, res, next) {
+  const mode = resolveSpoilerMode(req);
+  if (!mode) {
+    return res.status(400).json({ error: `Invalid spoiler mode. Expected one of: ${SPOILER_MODES.join(', ')}` });
+  }
+
+  req.spoilerMode = mode;
+  res.vary('X-Spoiler-Mode');
+  return next();
+}
+
+/**
+ * Get the spoiler category paths, loading them from the database when needed
+ * @returns {Promise<string[]>}
+ */
+export async function getSpoilerCategories() {
+  if (spoilerPathsLoaded) {
+    return spoilerPaths;
+  }
+
+  if (!pendingLoad) {
+    const load = db.getSpoilerCategoryPaths()
+      .then(paths => {
+        if (pendingLoad === load) {
+          spoilerPaths = paths;
+          spoilerPathsLoaded = true;
+        }
+        return paths;
+      })
+      .finally(() => {
+        if (pendingLoad === load) {
+          pendingLoad = null;
+        }
+      });
+    pendingLoad = load;
+  }
+
+  return pendingLoad;
+}
+
+/**
+ * The last loaded spoiler category paths, for code that can't wait (SSE broadcasts)
+ */
+export function currentSpoilerCategories() {
+  return spoilerPaths;
+}
+
+/**
+ * Reload the spoiler categories; called when category defaults change
+ * The previous list stays in use until the reload finishes.
+ */
+export function invalidateSpoilerCategories() {
+  spoilerPathsLoaded = false;
+  pendingLoad = null;
+  getSpoilerCategories().catch(error => {
+    console.error('Error reloading spoiler categories:', error);
+  });
+}
+
+/**
+ * Short fingerprint of the spoiler category list, for cache keys
+ */
+export function spoilerCategoriesVersion(paths) {
+  return crypto.createHash('sha1').update(paths.join('\n')).digest('hex').slice(0, 8);
+}
+
+/**
+ * Check whether a location type lies in (or under) one of the spoiler categories
+ */
+export function isSpoilerType(type, paths) {
+  if (typeof type !== 'string' || paths.length === 0) {
+    return false;
+  }
+
+  const path = type.startsWith('/') ? type : `/${type}`;
+  return paths.some(spoilerPath => path === spoilerPath || path.startsWith(`${spoilerPath}/`));
+}
+
+/**
+ * Mask the spoiler fields of a single location for a mode
+ * @returns {Object} - A copy of the location (or the location itself in full mode)
+ */
+export function maskLocation(location, mode) {
+  const fields = MASKED_FIELDS[mode] || [];
+  if (fields.length === 0) {
+    return location;
+  }
+
+  const masked = { ...location };
+  const maskedFields = [];
+  fields.forEach(field => {
+    if (masked[field]) {
+      maskedFields.push(field);
+    }
+    masked[field] = null;
+  });
+  masked.masked = maskedFields;
+  return masked;
+}
+
+/**
+ * Apply a spoiler mode to a list of locations
+ * Drops locations in spoiler categories and masks spoiler fields on the rest.
+ * @param {Array} locations - Location rows
+ * @param {string} mode - One of SPOILER_MODES
+ * @returns {Promise<Array>}
+ */
+export async function applySpoilerMode(locations, mode) {
+  if (mode === 'full') {
+    return locations;
+  }
+
+  const paths = await getSpoilerCategories();
+  return locations
+    .filter(location => !isSpoilerType(location.type, paths))
+    .map(location => maskLocation(location, mode));
+}
+
+export default {
+  SPOILER_MODES,
+  resolveSpoilerMode,
+  spoilerMode,
+  getSpoilerCategories,
+  currentSpoilerCategories,
+  invalidateSpoilerCategories,
+  spoilerCategoriesVersion,
+  isSpoilerType,
+  maskLocation,
+  applySpoilerMode
+};
@@ -0,0 +1,174 @@
+import { geometryPoints } from './geometry.js';
+
+/**
+ * Helpers for viewport (bounding box) queries and server-side clustering
+ */
+
+// Clustering is applied below this zoom level (Leaflet CRS.Simple: 1 map unit = 2^zoom pixels)
+const CLUSTER_MAX_ZOOM = Number.isNaN(parseInt(process.env.CLUSTER_MAX_ZOOM, 10))
+  ? 0
+  : parseInt(process.env.CLUSTER_MAX_ZOOM, 10);
+
+// Radius in screen pixels within which markers are merged into one cluster
+const CLUSTER_RADIUS_PX = parseInt(process.env.CLUSTER_RADIUS_PX, 10) || 80;
+
+// Minimum number of points needed before a grid cell becomes a cluster
+const MIN_CLUSTER_SIZE = 2;
+
+/**
+ * Parse a "minX,minY,maxX,maxY" string into a bounding box
+ * @param {string} value - The raw query parameter
+ * @returns {{minX: number, minY: number, maxX: number, maxY: number} | null} - null if invalid
+ */
+export function parseBoundingBox(value) {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const parts = value.split(',').map(part => parseFloat(part.trim()));
+  if (parts.length !== 4 || parts.some(part => !Number.isFinite(part))) {
+    return null;
+  }
+
+  const [minX, minY, maxX, maxY] = parts;
+  if (minX > maxX || minY > maxY) {
+    return null;
+  }
+
+  return { minX, minY, maxX, maxY };
+}
+
+/**
+ * Parse a comma-separated list of category paths
+ * @param {string} value - The raw query parameter (e.g. "/Fable/Quests,/Resources")
+ * @returns {string[]} - Normalized category paths with a leading slash
+ */
+export function parseCategoryList(value) {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return [];
+  }
+
+  return value
+    .split(',')
+    .map(path => path.trim())
+    .filter(Boolean)
+    .map(path => (path.startsWith('/') ? path : `/${path}`));
+}
+
+/**
+ * Extract every [x, y] point from a location's coordinates
+ * Handles a single [x, y] pair, a list of pairs, complex entries with their own coordinates
+ * and polygon rings
+ * @param {Object} location - The location row
+ * @returns {number[][]} - Array of [x, y] points
+ */
+export function getLocationPoints(location) {
+  return geometryPoints(location?.geometryType, location?.coordinates);
+}
+
+// Lines and areas are drawn as shapes, not markers
+function isShape(location) {
+  return location.geometryType === 'polyline' || location.geometryType === 'polygon';
+}
+
+/**
+ * Check whether a point lies inside a bounding box
+ */
+export function pointInBounds(point, bounds) {
+  return point[0] >= bounds.minX && point[0] <= bounds.maxX &&
+    point[1] >= bounds.minY && point[1] <= bounds.maxY;
+}
+
+/**
+ * Group nearby markers into grid-based clusters for a given zoom level
+ * Locations flagged with noCluster, polylines and polygons are never clustered.
+ * @param {Array} locations - Locations to cluster
+ * @param {Object} options
+ * @param {number} options.zoom - The client's current zoom level
+ * @param {Object|null} options.bounds - Only points inside this viewport are considered
+ * @returns {{locations: Array, clusters: Array, clustered: boolean}}
+ */
+export function clusterLocations(locations, { zoom, bounds = null }) {
+  if (!Number.isFinite(zoom) || zoom >= CLUSTER_MAX_ZOOM) {
+    return { locations, clusters: [], clustered: false };
+  }
+
+  const cellSize = CLUSTER_RADIUS_PX / Math.pow(2, zoom);
+  const cells = new Map();
+  const standalone = [];
+
+  locations.forEach(location => {
+    if (location.noCluster || isShape(location)) {
+      standalone.push(location);
+      return;
+    }
+
+    const points = getLocationPoints(location)
+      .filter(point => !bounds || pointInBounds(point, bounds));
+
+    points.forEach(point => {
+      const key = `${Math.floor(point[0] / cellSize)}:${Math.floor(point[1] / cellSize)}`;
+      if (!cells.has(key)) {
+        cells.set(key, { key, points: [], locations: new Map() });
+      }
+      const cell = cells.get(key);
+      cell.points.push(point);
+      cell.locations.set(location.id, location);
+    });
+  });
+
+  const clusters = [];
+  const clusteredIds = new Set();
+  const unclusteredIds = new Set();
+
+  cells.forEach(cell => {
+    if (cell.points.length < MIN_CLUSTER_SIZE) {
+      cell.locations.forEach((location, id) => unclusteredIds.add(id));
+      return;
+    }
+
+    const xs = cell.points.map(point => point[0]);
+    const ys = cell.points.map(point => point[1]);
+
+    clusters.push({
+      id: `cluster-${cell.key}`,
+      coordinates: [
+        xs.reduce((sum, x) => sum + x, 0) / xs.length,
+        ys.reduce((sum, y) => sum + y, 0) / ys.length
+      ],
+      count: cell.points.length,
+      bounds: {
+        minX: Math.min(...xs),
+        minY: Math.min(...ys),
+        maxX: Math.max(...xs),
+        maxY: Math.max(...ys)
+      },
+      locationIds: Array.from(cell.locations.keys())
+    });
+
+    cell.locations.forEach((location, id) => clusteredIds.add(id));
+  });
+
+  // A multi-point location is returned whole if any of its points stayed unclustered.
+  // Locations without usable points can't be placed in a cell and pass through as-is.
+  const remaining = locations.filter(location =>
+    !location.noCluster && !isShape(location) && (
+      unclusteredIds.has(location.id) ||
+      (!clusteredIds.has(location.id) && getLocationPoints(location).length === 0)
+    )
+  );
+
+  return {
+    locations: [...standalone, ...remaining],
+    clusters,
+    clustered: true
+  };
+}
+
+export default {
+  parseBoundingBox,
+  parseCategoryList,
+  getLocationPoints,
+  pointInBounds,
+  clusterLocations
+};
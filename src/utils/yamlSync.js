@@ -0,0 +1,392 @@
+import yaml from 'js-yaml';
+import { recordRevision } from './locationRevisions.js';
+import { suppressRowNotifications, notifyMapChange } from './mapEvents.js';
+import { LOCATION_STATUSES, PUBLISHED, isLocationStatus, isPublished } from './locationStatus.js';
+import { ValidationError, validateLocation } from './locationSchema.js';
+import { inferGeometryType } from './geometry.js';
+import { createLocationWithPoints, updateLocationWithPoints } from './locationPoints.js';
+import { DEFAULT_LAYER_ID } from './mapLayers.js';
+import { findDuplicates } from './locationDuplicates.js';
+
+/**
+ * Round-trip between the Location table and the YAML directory layout
+ *
+ * Each location is one file at `<category path>/<slug>.yml` (the layout read by
+ * utils/seed-database.ts). Files carry the location's `id`, so imports can match rows
+ * even after a rename. Multi-point locations keep their `coordinates` list as-is
+ * instead of being split into one row per point; per-point properties are read from and
+ * written to the location's points (see locationPoints.js). Rows passed in should have
+ * their points inlined with withPointEntries.
+ *
+ * `type` is written only when it can't be read back from the directory (e.g. characters
+ * that aren't allowed in file names), `status` only for locations that aren't published,
+ * `geometryType` only when it can't be told from the coordinates (polylines), and `layerId`
+ * only for locations that aren't on the default map layer.
+ * Imported files are checked against the location schema, like every other write. Files from before the
+ * status column with `hidden: true` are read as hidden.
+ */
+
+// Location fields stored in YAML, in the order they are written
+const DOCUMENT_FIELDS = [
+  'name',
+  'id',
+  'type',
+  'status',
+  'layerId',
+  'description',
+  'coordinates',
+  'geometryType',
+  'exactCoordinates',
+  'icon',
+  'iconSize',
+  'iconColor',
+  'radius',
+  'mediaUrl',
+  'noCluster',
+  'isCoordinateSearch',
+  'lore',
+  'spoilers'
+];
+
+// Fields compared when deciding whether a location needs updating
+const SYNCED_FIELDS = DOCUMENT_FIELDS.filter(field => field !== 'id');
+
+/**
+ * Error raised for YAML files that can't be turned into a location
+ */
+export class YamlSyncError extends Error {
+  constructor(message, file) {
+    super(message);
+    this.name = 'YamlSyncError';
+    this.file = file;
+  }
+}
+
+// File name for a location: lower-case name with anything odd replaced by dashes
+function slugify(name) {
+  const slug = String(name || '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return slug || 'location';
+}
+
+// Directory for a category path, e.g. "/Fable/Quests" -> "Fable/Quests"
+function categoryDirectory(category) {
+  const segments = category.split('/').filter(Boolean).map(segment => segment.replace(/[\\:*?"<>|]/g, '_'));
+  return segments.length > 0 ? segments.join('/') : '_uncategorized';
+}
+
+// Type implied by a file's directory, as the seed script reads it
+function typeFromPath(filePath) {
+  const segments = filePath.split('/').filter(Boolean);
+  return segments.slice(0, -1).join('/');
+}
+
+// Values that are left out of YAML files (and treated as equal to missing)
+function isEmptyValue(value) {
+  return value === null || value === undefined || value === '' ||
+    (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Build the YAML document for a location row
+ * @returns {{directory: string, document: Object}}
+ */
+export function locationToDocument(location) {
+  const category = String(location.type || '');
+  const directory = categoryDirectory(category);
+
+  const document = {};
+  DOCUMENT_FIELDS.forEach(field => {
+    let value;
+    if (field === 'type') {
+      value = category !== `/${directory}` ? category : undefined;
+    } else if (field === 'status') {
+      value = isPublished(location) ? undefined : location.status;
+    } else if (field === 'layerId') {
+      value = location.layerId !== DEFAULT_LAYER_ID ? location.layerId : undefined;
+    } else if (field === 'geometryType') {
+      value = location.geometryType !== inferGeometryType(location.coordinates) ? location.geometryType : undefined;
+    } else {
+      value = location[field];
+    }
+
+    // Defaults are left out to keep files small and diffs quiet
+    if (field === 'type' ? value === undefined : isEmptyValue(value)) {
+      return;
+    }
+    if ((field === 'noCluster' || field === 'isCoordinateSearch') && value === false) {
+      return;
+    }
+    document[field] = value;
+  });
+
+  return { directory, document };
+}
+
+/**
+ * Export locations into YAML files
+ * Output is stable for unchanged data: files are ordered and named deterministically.
+ * @param {Array} locations - Location rows
+ * @returns {Array<{path: string, content: string}>}
+ */
+export function exportLocations(locations) {
+  const sorted = [...locations].sort((a, b) =>
+    String(a.type || '').localeCompare(String(b.type || '')) ||
+    String(a.name).localeCompare(String(b.name)) ||
+    String(a.id).localeCompare(String(b.id))
+  );
+
+  const usedPaths = new Set();
+  return sorted.map(location => {
+    const { directory, document } = locationToDocument(location);
+
+    // Locations sharing a name in one category get numbered files
+    const baseName = `${directory}/${slugify(location.name)}`;
+    let filePath = `${baseName}.yml`;
+    for (let n = 2; usedPaths.has(filePath); n++) {
+      filePath = `${baseName}-${n}.yml`;
+    }
+    usedPaths.add(filePath);
+
+    return {
+      path: filePath,
+      content: yaml.dump(document, { lineWidth: -1, noRefs: true })
+    };
+  });
+}
+
+/**
+ * Turn one YAML file into location data
+ * @param {{path: string, content: string}} file
+ * @returns {Object} - Location fields plus `id` when the file has one
+ */
+export function documentToLocation(file) {
+  let document;
+  try {
+    document = yaml.load(file.content);
+  } catch (error) {
+    throw new YamlSyncError(`Invalid YAML: ${error.message}`, file.path);
+  }
+
+  if (!document || typeof document !== 'object' || Array.isArray(document)) {
+    throw new YamlSyncError('Expected a YAML mapping', file.path);
+  }
+  if (!document.name) {
+    throw new YamlSyncError('Location name is required', file.path);
+  }
+  if (document.coordinates === undefined || document.coordinates === null) {
+    throw new YamlSyncError('Location coordinates are required', file.path);
+  }
+
+  const status = document.status ?? (document.hidden ? 'hidden' : PUBLISHED);
+  if (!isLocationStatus(status)) {
+    throw new YamlSyncError(`Invalid status "${status}", expected one of: ${LOCATION_STATUSES.join(', ')}`, file.path);
+  }
+
+  const location = {
+    type: document.type ?? typeFromPath(file.path),
+    status,
+    layerId: document.layerId ?? DEFAULT_LAYER_ID
+  };
+
+  SYNCED_FIELDS.forEach(field => {
+    if (field !== 'type' && field !== 'status' && field !== 'layerId' && field !== 'geometryType') {
+      location[field] = document[field] ?? null;
+    }
+  });
+  if (document.geometryType !== undefined) {
+    location.geometryType = document.geometryType;
+  }
+  location.description = location.description ?? '';
+  location.noCluster = Boolean(location.noCluster);
+  location.isCoordinateSearch = Boolean(location.isCoordinateSearch);
+
+  // The seed script accepted a single media URL, the database stores a list
+  if (typeof location.mediaUrl === 'string') {
+    location.mediaUrl = [location.mediaUrl];
+  }
+
+  let fields;
+  try {
+    fields = validateLocation(location);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      throw new YamlSyncError(error.message, file.path);
+    }
+    throw error;
+  }
+
+  if (document.id !== undefined) {
+    fields.id = String(document.id);
+  }
+
+  return fields;
+}
+
+// Compare the synced fields of a row and imported data
+function changedFields(existing, imported) {
+  const changes = {};
+  SYNCED_FIELDS.forEach(field => {
+    const normalize = value => {
+      if (isEmptyValue(value) || value === false) {
+        return null;
+      }
+      return JSON.stringify(value);
+    };
+
+    if (normalize(existing[field]) !== normalize(imported[field])) {
+      changes[field] = { from: existing[field] ?? null, to: imported[field] ?? null };
+    }
+  });
+  return changes;
+}
+
+/**
+ * Work out what importing a set of YAML files would change
+ * Files are matched to rows by `id`; files without one fall back to a unique
+ * category + name match, so the first sync of older files doesn't duplicate rows.
+ * Rows that no file matches are deleted. Adds that look like a row that stays or like
+ * an earlier add are listed in `duplicates` (see locationDuplicates.js); applying the
+ * plan doesn't check them, callers decide whether to go ahead.
+ * @param {Array} existingLocations - Current location rows
+ * @param {Array<{path: string, content: string}>} files - The YAML files
+ * @returns {{adds: Array, updates: Array, deletes: Array, unchanged: number, errors: Array, duplicates: Array}}
+ */
+export function planImport(existingLocations, files) {
+  const byId = new Map(existingLocations.map(location => [location.id, location]));
+  const matched = new Set();
+  const plan = { adds: [], updates: [], deletes: [], unchanged: 0, errors: [], duplicates: [] };
+
+  files.forEach(file => {
+    let imported;
+    try {
+      imported = documentToLocation(file);
+    } catch (error) {
+      plan.errors.push({ file: file.path, error: error.message });
+      return;
+    }
+
+    let existing = imported.id ? byId.get(imported.id) : null;
+    if (!imported.id) {
+      const candidates = existingLocations.filter(location =>
+        !matched.has(location.id) &&
+        location.name === imported.name &&
+        location.type === imported.type
+      );
+      if (candidates.length > 1) {
+        plan.errors.push({ file: file.path, error: `Ambiguous: ${candidates.length} locations named "${imported.name}", add an id` });
+        return;
+      }
+      existing = candidates[0] || null;
+    }
+
+    if (existing && matched.has(existing.id)) {
+      plan.errors.push({ file: file.path, error: `Location ${existing.id} is already matched by another file` });
+      return;
+    }
+
+    if (!existing) {
+      plan.adds.push({ file: file.path, data: imported });
+      return;
+    }
+
+    matched.add(existing.id);
+    const changes = changedFields(existing, imported);
+    if (Object.keys(changes).length === 0) {
+      plan.unchanged++;
+      return;
+    }
+
+    const { id, ...data } = imported;
+    plan.updates.push({ file: file.path, id: existing.id, name: existing.name, changes, data });
+  });
+
+  existingLocations
+    .filter(location => !matched.has(location.id))
+    .forEach(location => plan.deletes.push({ id: location.id, name: location.name, type: location.type }));
+
+  // Rows that stay compare with their imported data
+  const updatesById = new Map(plan.updates.map(update => [update.id, update.data]));
+  const compared = existingLocations
+    .filter(location => matched.has(location.id))
+    .map(location => ({ ...location, ...updatesById.get(location.id) }));
+  plan.adds.forEach(add => {
+    const duplicates = findDuplicates(add.data, compared);
+    if (duplicates.length > 0) {
+      plan.duplicates.push({ file: add.file, name: add.data.name, duplicates });
+    }
+    compared.push({ ...add.data, file: add.file });
+  });
+
+  return plan;
+}
+
+/**
+ * Summary of a plan without the full location data, for dry runs and responses
+ */
+export function summarizePlan(plan) {
+  return {
+    adds: plan.adds.map(add => ({ file: add.file, id: add.data.id ?? null, name: add.data.name, type: add.data.type })),
+    updates: plan.updates.map(({ file, id, name, changes }) => ({ file, id, name, changes })),
+    deletes: plan.deletes,
+    unchanged: plan.unchanged,
+    errors: plan.errors,
+    duplicates: plan.duplicates
+  };
+}
+
+/**
+ * Apply an import plan in one transaction, recording revisions
+ * Per-row change notifications are replaced by a single locations.imported event.
+ * @param {Object} prisma - Prisma client
+ * @param {Object} plan - Result of planImport (must have no errors)
+ * @param {Object} user - The acting req.user, recorded in revisions
+ * @returns {Promise<{added: number, updated: number, deleted: number}>}
+ */
+export async function applyImport(prisma, plan, user) {
+  if (plan.errors.length > 0) {
+    throw new YamlSyncError(`${plan.errors.length} files could not be read`, null);
+  }
+
+  return prisma.$transaction(async (tx) => {
+    await suppressRowNotifications(tx);
+
+    for (const add of plan.adds) {
+      const location = await createLocationWithPoints(tx, add.data);
+      await recordRevision(tx, { locationId: location.id, action: 'create', after: location, user });
+    }
+
+    for (const update of plan.updates) {
+      const before = await tx.location.findUnique({ where: { id: update.id } });
+      const location = await updateLocationWithPoints(tx, update.id, update.data);
+      await recordRevision(tx, { locationId: update.id, action: 'update', before, after: location, user });
+    }
+
+    for (const removal of plan.deletes) {
+      const before = await tx.location.delete({ where: { id: removal.id } });
+      await recordRevision(tx, { locationId: removal.id, action: 'delete', before, user });
+    }
+
+    const result = {
+      added: plan.adds.length,
+      updated: plan.updates.length,
+      deleted: plan.deletes.length
+    };
+    await notifyMapChange(tx, 'locations.imported', result);
+    return result;
+  }, { timeout: 120000 });
+}
+
+export default {
+  YamlSyncError,
+  locationToDocument,
+  exportLocations,
+  documentToLocation,
+  planImport,
+  summarizePlan,
+  applyImport
+};
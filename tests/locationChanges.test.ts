@@ -0,0 +1,120 @@
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import { Client } from 'pg';
+import db from '#db';  // Use #db instead of relative import
+
+/**
+ * Change feed ordering against a real database
+ * Needs DATABASE_URL pointing at a database the server has migrated; skipped otherwise.
+ * Rows are created directly with pg so the two transactions can overlap.
+ */
+
+const ids = {
+  early: `test-change-feed-${Date.now()}-early`,
+  late: `test-change-feed-${Date.now()}-late`,
+  deleted: `test-change-feed-${Date.now()}-deleted`,
+  spoiler: `test-change-feed-${Date.now()}-spoiler`
+};
+
+const spoilerCategory = `/Tests/Spoilers-${Date.now()}`;
+
+async function connect(): Promise<Client> {
+  const client = new Client({ connectionString: process.env.DATABASE_URL });
+  await client.connect();
+  return client;
+}
+
+async function insertLocation(client: Client, id: string, type = '/Tests'): Promise<void> {
+  await client.query(
+    `INSERT INTO "Location" ("id", "name", "coordinates", "description", "type", "updatedAt")
+     VALUES ($1, $1, '[0, 0]', '', $2, CURRENT_TIMESTAMP)`,
+    [id, type]
+  );
+}
+
+describe.skipIf(!process.env.DATABASE_URL)('location change feed', () => {
+  let first: Client;
+  let second: Client;
+
+  beforeAll(async () => {
+    first = await connect();
+    second = await connect();
+  });
+
+  afterAll(async () => {
+    const all = Object.values(ids);
+    await first.query(`DELETE FROM "Location" WHERE "id" = ANY($1)`, [all]);
+    await first.query(`DELETE FROM "LocationTombstone" WHERE "id" = ANY($1)`, [all]);
+    await first.query(`DELETE FROM "CategoryDefaults" WHERE "path" = $1`, [spoilerCategory]);
+    await first.end();
+    await second.end();
+    await db.closeConnections();
+  });
+
+  test('a write committed after a later transaction is still after the cursor', async () => {
+    await first.query('BEGIN');
+    await insertLocation(first, ids.early);
+
+    await second.query('BEGIN');
+    await insertLocation(second, ids.late);
+    await second.query('COMMIT');
+
+    const before = await db.getLocationChanges(null);
+    const seen = before.locations.map((location: any) => location.id);
+    expect(seen).toContain(ids.late);
+    expect(seen).not.toContain(ids.early);
+
+    await first.query('COMMIT');
+
+    const after = await db.getLocationChanges(before.cursor);
+    expect(after.locations.map((location: any) => location.id)).toContain(ids.early);
+  });
+
+  test('a delete committed after a later transaction is still after the cursor', async () => {
+    await insertLocation(first, ids.deleted);
+
+    await first.query('BEGIN');
+    await first.query(`DELETE FROM "Location" WHERE "id" = $1`, [ids.deleted]);
+
+    await second.query('BEGIN');
+    await second.query(`UPDATE "Location" SET "description" = 'updated' WHERE "id" = $1`, [ids.late]);
+    await second.query('COMMIT');
+
+    const before = await db.getLocationChanges(null);
+    expect(before.locations.map((location: any) => location.id)).toContain(ids.deleted);
+
+    await first.query('COMMIT');
+
+    const after = await db.getLocationChanges(before.cursor);
+    expect(after.deletedIds).toContain(ids.deleted);
+  });
+
+  test('the data version moves when an earlier transaction commits last', async () => {
+    await first.query('BEGIN');
+    await first.query(`UPDATE "Location" SET "description" = 'first' WHERE "id" = $1`, [ids.early]);
+
+    await second.query('BEGIN');
+    await second.query(`UPDATE "Location" SET "description" = 'second' WHERE "id" = $1`, [ids.late]);
+    await second.query('COMMIT');
+
+    const before = await db.getLocationDataVersion();
+    await first.query('COMMIT');
+
+    expect(await db.getLocationDataVersion()).toBeGreaterThan(before);
+  });
+
+  test('marking a category as a spoiler puts its locations after the cursor', async () => {
+    await insertLocation(first, ids.spoiler, `${spoilerCategory}/Nested`);
+    const before = await db.getLocationChanges(null);
+
+    await first.query(
+      `INSERT INTO "CategoryDefaults" ("path", "spoiler") VALUES ($1, true)`,
+      [spoilerCategory]
+    );
+    const marked = await db.getLocationChanges(before.cursor);
+    expect(marked.locations.map((location: any) => location.id)).toEqual([ids.spoiler]);
+
+    await first.query(`UPDATE "CategoryDefaults" SET "spoiler" = false WHERE "path" = $1`, [spoilerCategory]);
+    const unmarked = await db.getLocationChanges(marked.cursor);
+    expect(unmarked.locations.map((location: any) => location.id)).toEqual([ids.spoiler]);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, test, expect } from 'bun:test';
+import { validateLocation } from '../src/utils/locationSchema.js';
+
+// A grouped location as GET /api/admin/locations/:id returns it
+const fetchedLocation = {
+  id: '3f9a1c2e-5b7d-4e8f-9a0b-1c2d3e4f5a6b',
+  name: 'Ancient Shrines',
+  coordinates: [[120, 340], [410, 95]],
+  description: 'Shrines of the old faith',
+  type: '/Fable/Shrines',
+  icon: 'shrine',
+  iconSize: 1,
+  mediaUrl: [],
+  iconColor: '#ffcc00',
+  radius: 0,
+  lastModified: '2025-05-11T09:30:00.000Z',
+  isCoordinateSearch: false,
+  lore: null,
+  spoilers: null,
+  noCluster: false,
+  exactCoordinates: null,
+  createdAt: '2025-05-01T12:00:00.000Z',
+  updatedAt: '2025-05-11T09:30:00.000Z',
+  submittedBy: null,
+  approvedBy: null,
+  minX: 120,
+  minY: 95,
+  maxX: 410,
+  maxY: 340,
+  changeSeq: 42,
+  status: 'published',
+  geometryType: 'multipoint',
+  layerId: 'surface',
+  points: [
+    {
+      id: 'a1', locationId: '3f9a1c2e-5b7d-4e8f-9a0b-1c2d3e4f5a6b', position: 0, coordinates: [120, 340],
+      description: null, icon: null, iconSize: null, iconColor: null, radius: null, mediaUrl: null,
+      createdAt: '2025-05-11T09:30:00.000Z', updatedAt: '2025-05-11T09:30:00.000Z'
+    },
+    {
+      id: 'a2', locationId: '3f9a1c2e-5b7d-4e8f-9a0b-1c2d3e4f5a6b', position: 1, coordinates: [410, 95],
+      description: 'Flooded shrine', icon: null, iconSize: null, iconColor: '#3366ff', radius: null, mediaUrl: null,
+      createdAt: '2025-05-11T09:30:00.000Z', updatedAt: '2025-05-11T09:30:00.000Z'
+    }
+  ]
+};
+
+describe('validateLocation', () => {
+  test('accepts a fetched grouped location sent back unchanged', () => {
+    const data = validateLocation(fetchedLocation, { partial: true });
+
+    expect(data.name).toBe(fetchedLocation.name);
+    expect(data.coordinates).toEqual(fetchedLocation.coordinates);
+    expect(data).not.toHaveProperty('points');
+    expect(data).not.toHaveProperty('changeSeq');
+  });
+
+  test('still rejects unknown fields', () => {
+    expect(() => validateLocation({ ...fetchedLocation, layer: 'surface' }, { partial: true }))
+      .toThrow('layer is not a location field');
+  });
+});
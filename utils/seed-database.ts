@@ -3,10 +3,31 @@ import fs from 'fs';
 import path from 'path';
 import yaml from 'js-yaml';
 import type { Location as LocationType } from '../../src/types';
+import { findDuplicateLocations } from '../src/utils/locationDuplicates.js';
 
 // Initialize PrismaClient
 const prisma = new PrismaClient();
 
+// Import locations even when they look like duplicates of ones already imported
+const FORCE = process.argv.includes('--force');
+
+// Find the YAML files in every category directory below baseDir, nested ones included
+// (e.g. Fable/Quests/tuvalkane.yml is in category "Fable/Quests", as sync-locations-yaml.ts writes it)
+function findYamlFiles(baseDir: string, subDir = ''): { type: string; filePath: string; file: string }[] {
+  const found: { type: string; filePath: string; file: string }[] = [];
+
+  for (const entry of fs.readdirSync(path.join(baseDir, subDir), { withFileTypes: true })) {
+    const relativePath = subDir ? `${subDir}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      found.push(...findYamlFiles(baseDir, relativePath));
+    } else if (subDir && (entry.name.endsWith('.yml') || entry.name.endsWith('.yaml'))) {
+      found.push({ type: subDir, filePath: path.join(baseDir, relativePath), file: relativePath });
+    }
+  }
+
+  return found;
+}
+
 // Import from YAML files
 async function importFromYamlFiles(): Promise<{ count: number; errors: number }> {
   try {
@@ -21,155 +42,134 @@ async function importFromYamlFiles(): Promise<{ count: number; errors: number }>
     let importCount = 0;
     let errorCount = 0;
     
-    // Get all location type directories
-    const typeDirectories = fs.readdirSync(baseDir, { withFileTypes: true })
-      .filter(dirent => dirent.isDirectory())
-      .map(dirent => dirent.name);
+    const yamlFiles = findYamlFiles(baseDir);
+    console.log(`Found ${yamlFiles.length} YAML files in ${new Set(yamlFiles.map(found => found.type)).size} location type directories`);
     
-    console.log(`Found ${typeDirectories.length} location type directories`);
-    
-    // Process each type directory
-    for (const type of typeDirectories) {
-      const typeDir = path.join(baseDir, type);
-      const files = fs.readdirSync(typeDir)
-        .filter(file => file.endsWith('.yml') || file.endsWith('.yaml'));
-      
-      console.log(`Found ${files.length} YAML files in ${type} directory`);
-      
-      for (const file of files) {
-        try {
-          const filePath = path.join(typeDir, file);
-          const content = fs.readFileSync(filePath, 'utf8');
-          const locationData = yaml.load(content) as LocationType & { type?: string };
-          
-          if (!locationData || !locationData.name) {
-            console.warn(`Invalid location data in ${file}, skipping`);
-            errorCount++;
-            continue;
-          }
-          
-          // Check if location already exists
-          const existingLocation = await prisma.location.findFirst({
-            where: { name: locationData.name }
-          });
-          
-          if (existingLocation) {
-            console.log(`Location ${locationData.name} already exists, skipping`);
-            continue;
-          }
-          
-          // Process coordinates based on format
-          let coordinates;
-          let isComplex = false;
-          
-          if (!locationData.coordinates) {
-            console.warn(`No coordinates found for ${locationData.name}, using default`);
-            coordinates = [0, 0]; // Default coordinates
-          }
-          else if (
-            Array.isArray(locationData.coordinates) && 
-            locationData.coordinates.length === 2 && 
-            typeof locationData.coordinates[0] === 'number'
+    for (const { type: directoryType, filePath, file } of yamlFiles) {
+      try {
+        const content = fs.readFileSync(filePath, 'utf8');
+        const locationData = yaml.load(content) as LocationType & { type?: string };
+        
+        if (!locationData || !locationData.name) {
+          console.warn(`Invalid location data in ${file}, skipping`);
+          errorCount++;
+          continue;
+        }
+        
+        // Exported files name their category when the directory can't hold it
+        const type = locationData.type ?? directoryType;
+        
+        // Process coordinates based on format
+        let coordinates;
+        let geometryType = 'point';
+        let points: any[] = [];
+        
+        if (!locationData.coordinates) {
+          console.warn(`No coordinates found for ${locationData.name}, using default`);
+          coordinates = [0, 0]; // Default coordinates
+        }
+        else if (
+          Array.isArray(locationData.coordinates) && 
+          locationData.coordinates.length === 2 && 
+          typeof locationData.coordinates[0] === 'number'
+        ) {
+          // Single coordinate pair like [x, y]
+          console.log(`Processing simple coordinate for ${locationData.name}: [${locationData.coordinates}]`);
+          coordinates = locationData.coordinates;
+        }
+        else if (Array.isArray(locationData.coordinates) && locationData.coordinates.length > 0) {
+          // Check if this is a complex location with custom properties per coordinate
+          if (
+            typeof locationData.coordinates[0] === 'object' && 
+            !Array.isArray(locationData.coordinates[0]) &&
+            (locationData.coordinates[0] as any).coordinates
           ) {
-            // Single coordinate pair like [x, y]
-            console.log(`Processing simple coordinate for ${locationData.name}: [${locationData.coordinates}]`);
-            coordinates = locationData.coordinates;
-          }
-          else if (Array.isArray(locationData.coordinates) && locationData.coordinates.length > 0) {
-            // Check if this is a complex location with custom properties per coordinate
-            if (
-              typeof locationData.coordinates[0] === 'object' && 
-              !Array.isArray(locationData.coordinates[0]) &&
-              (locationData.coordinates[0] as any).coordinates
-            ) {
-              // Complex location with per-coordinate properties like tuvalkane.yml
-              console.log(`Processing complex location with ${locationData.coordinates.length} points: ${locationData.name}`);
-              isComplex = true;
-              
-              // For complex locations, we'll store the whole array but process each point separately
-              coordinates = locationData.coordinates;
-              
-              // Create a separate Location entity for each coordinate
-              for (let i = 0; i < locationData.coordinates.length; i++) {
-                const point = locationData.coordinates[i] as any;
-                
-                if (!point.coordinates || !Array.isArray(point.coordinates)) {
+            // Complex location with per-coordinate properties like tuvalkane.yml:
+            // one location whose points override the location's fields
+            console.log(`Processing complex location with ${locationData.coordinates.length} points: ${locationData.name}`);
+            
+            const entries = (locationData.coordinates as any[])
+              .filter((entry, i) => {
+                if (!entry.coordinates || !Array.isArray(entry.coordinates)) {
                   console.warn(`Invalid coordinate format at index ${i} for complex location ${locationData.name}`);
-                  continue;
+                  return false;
                 }
-                
-                await prisma.location.create({
-                  data: {
-                    name: `${locationData.name} - Point ${i + 1}`,
-                    coordinates: point.coordinates,
-                    description: point.description || locationData.description || '',
-                    type: type,
-                    icon: point.icon || locationData.icon,
-                    iconSize: point.iconSize || locationData.iconSize,
-                    mediaUrl: point.mediaUrl ? 
-                      (Array.isArray(point.mediaUrl) ? point.mediaUrl : [point.mediaUrl]) : 
-                      (locationData.mediaUrl ? 
-                        (Array.isArray(locationData.mediaUrl) ? locationData.mediaUrl : [locationData.mediaUrl]) : 
-                        undefined),
-                    iconColor: point.iconColor || locationData.iconColor,
-                    radius: point.radius || locationData.radius,
-                    lore: point.lore || locationData.lore,
-                    spoilers: point.spoilers || locationData.spoilers,
-                    lastModified: new Date(),
-                    // Store reference to parent location
-                    submittedBy: locationData.name, // Use name field to track relationship
-                  }
-                });
-                
-                console.log(`Created complex location point ${i + 1} for ${locationData.name}`);
-                importCount++;
-              }
-            }
-            else if (Array.isArray(locationData.coordinates[0])) {
-              // Array of simple coordinate pairs like camps.yml
-              console.log(`Processing location with ${locationData.coordinates.length} coordinate pairs: ${locationData.name}`);
-              coordinates = locationData.coordinates;
-            }
-            else {
-              console.warn(`Unrecognized coordinates format in ${file}, using first point`);
-              coordinates = Array.isArray(locationData.coordinates[0]) ? 
-                locationData.coordinates[0] : [0, 0];
-            }
+                return true;
+              });
+            
+            coordinates = entries.map(entry => entry.coordinates);
+            geometryType = 'multipoint';
+            points = entries.map((entry, position) => ({
+              position,
+              coordinates: entry.coordinates,
+              description: entry.description,
+              icon: entry.icon,
+              iconSize: entry.iconSize,
+              iconColor: entry.iconColor,
+              radius: entry.radius,
+              mediaUrl: entry.mediaUrl ?
+                (Array.isArray(entry.mediaUrl) ? entry.mediaUrl : [entry.mediaUrl]) :
+                undefined
+            }));
+          }
+          else if (Array.isArray(locationData.coordinates[0])) {
+            // Array of simple coordinate pairs like camps.yml
+            console.log(`Processing location with ${locationData.coordinates.length} coordinate pairs: ${locationData.name}`);
+            coordinates = locationData.coordinates;
+            geometryType = 'multipoint';
           }
           else {
-            console.warn(`Invalid coordinates format in ${file}, using default`);
-            coordinates = [0, 0]; // Default coordinates
+            console.warn(`Unrecognized coordinates format in ${file}, using first point`);
+            coordinates = Array.isArray(locationData.coordinates[0]) ? 
+              locationData.coordinates[0] : [0, 0];
           }
-          
-          // Skip creating the main record for complex locations since we created individual points
-          if (!isComplex) {
-            // Create location in database
-            await prisma.location.create({
-              data: {
-                name: locationData.name,
-                coordinates: coordinates,
-                description: locationData.description || '',
-                type: type,
-                icon: locationData.icon,
-                iconSize: locationData.iconSize,
-                mediaUrl: locationData.mediaUrl ? 
-                  (Array.isArray(locationData.mediaUrl) ? locationData.mediaUrl : [locationData.mediaUrl]) : 
-                  undefined,
-                iconColor: locationData.iconColor,
-                radius: locationData.radius,
-                lore: locationData.lore,
-                spoilers: locationData.spoilers,
-                lastModified: new Date()
-              }
-            });
-            
-            console.log(`Created location: ${locationData.name}`);
-            importCount++;
+        }
+        else {
+          console.warn(`Invalid coordinates format in ${file}, using default`);
+          coordinates = [0, 0]; // Default coordinates
+        }
+        
+        // Skip locations that look like one already imported (see src/utils/locationDuplicates.js)
+        if (!FORCE) {
+          const duplicates = await findDuplicateLocations(prisma, {
+            name: locationData.name,
+            type,
+            coordinates,
+            geometryType
+          });
+          if (duplicates.length > 0) {
+            console.log(`Location ${locationData.name} looks like ${duplicates.map(match => `${match.name} [${match.id}]`).join(', ')}, skipping (pass --force to import it anyway)`);
+            continue;
           }
-        } catch (fileError) {
-          console.error(`Error importing file ${file}:`, fileError);
-          errorCount++;
         }
+        
+        // Create location in database, with its points for complex locations
+        await prisma.location.create({
+          data: {
+            name: locationData.name,
+            coordinates: coordinates,
+            geometryType,
+            description: locationData.description || '',
+            type: type,
+            icon: locationData.icon,
+            iconSize: locationData.iconSize,
+            mediaUrl: locationData.mediaUrl ? 
+              (Array.isArray(locationData.mediaUrl) ? locationData.mediaUrl : [locationData.mediaUrl]) : 
+              undefined,
+            iconColor: locationData.iconColor,
+            radius: locationData.radius,
+            lore: locationData.lore,
+            spoilers: locationData.spoilers,
+            lastModified: new Date(),
+            ...(points.length > 0 ? { points: { create: points } } : {})
+          }
+        });
+        
+        console.log(`Created location: ${locationData.name}${points.length > 0 ? ` with ${points.length} points` : ''}`);
+        importCount++;
+      } catch (fileError) {
+        console.error(`Error importing file ${file}:`, fileError);
+        errorCount++;
       }
     }
     
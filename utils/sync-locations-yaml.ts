@@ -0,0 +1,131 @@
+import { PrismaClient } from '@prisma/client';
+import fs from 'fs';
+import path from 'path';
+import { exportLocations, planImport, summarizePlan, applyImport } from '../src/utils/yamlSync.js';
+import { POINTS_INCLUDE, withPointEntries } from '../src/utils/locationPoints.js';
+
+// Sync the Location table with a YAML directory (default: the seed data directory)
+//
+//   bun run utils/sync-locations-yaml.ts export [dir]          write every location to YAML, removing
+//                                                              YAML files of locations that are gone
+//   bun run utils/sync-locations-yaml.ts import [dir]          show what an import would change
+//   bun run utils/sync-locations-yaml.ts import [dir] --apply  apply it in one transaction
+//
+// Files that look like duplicates of other locations stop --apply; add --force to import them anyway.
+
+const prisma = new PrismaClient();
+
+const DEFAULT_DIR = path.resolve(__dirname, '../../src/locations');
+
+// User recorded in revision history for changes made by this script
+const SCRIPT_USER = { id: null, username: 'yaml-sync' };
+
+// Read every .yml/.yaml file under a directory as { path, content } with '/' separators
+function readYamlFiles(baseDir: string, subDir = ''): { path: string; content: string }[] {
+  const files: { path: string; content: string }[] = [];
+
+  for (const entry of fs.readdirSync(path.join(baseDir, subDir), { withFileTypes: true })) {
+    const relativePath = subDir ? `${subDir}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...readYamlFiles(baseDir, relativePath));
+    } else if (entry.name.endsWith('.yml') || entry.name.endsWith('.yaml')) {
+      files.push({ path: relativePath, content: fs.readFileSync(path.join(baseDir, relativePath), 'utf8') });
+    }
+  }
+
+  return files;
+}
+
+// Remove directories below baseDir that are left empty
+function removeEmptyDirectories(baseDir: string, subDir = '') {
+  for (const entry of fs.readdirSync(path.join(baseDir, subDir), { withFileTypes: true })) {
+    if (entry.isDirectory()) {
+      const relativePath = subDir ? `${subDir}/${entry.name}` : entry.name;
+      removeEmptyDirectories(baseDir, relativePath);
+      if (fs.readdirSync(path.join(baseDir, relativePath)).length === 0) {
+        fs.rmdirSync(path.join(baseDir, relativePath));
+      }
+    }
+  }
+}
+
+async function exportToDirectory(baseDir: string) {
+  const locations = await prisma.location.findMany({ include: POINTS_INCLUDE });
+  const files = exportLocations(locations.map(withPointEntries));
+
+  // Files of deleted, renamed or recategorized locations would come back on the next import
+  const exported = new Set(files.map(file => file.path));
+  const stale = fs.existsSync(baseDir) ? readYamlFiles(baseDir).filter(file => !exported.has(file.path)) : [];
+  stale.forEach(file => fs.unlinkSync(path.join(baseDir, file.path)));
+
+  for (const file of files) {
+    const filePath = path.join(baseDir, file.path);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, file.content);
+  }
+  removeEmptyDirectories(baseDir);
+
+  console.log(`Exported ${files.length} locations to ${baseDir}, removed ${stale.length} stale files`);
+}
+
+async function importFromDirectory(baseDir: string, apply: boolean, force: boolean) {
+  if (!fs.existsSync(baseDir)) {
+    throw new Error(`Locations directory not found at ${baseDir}`);
+  }
+
+  const files = readYamlFiles(baseDir);
+  const existing = await prisma.location.findMany({ include: POINTS_INCLUDE });
+  const plan = planImport(existing.map(withPointEntries), files);
+  const summary = summarizePlan(plan);
+
+  summary.adds.forEach(add => console.log(`+ ${add.file} (${add.name})`));
+  summary.updates.forEach(update => console.log(`~ ${update.file} (${Object.keys(update.changes).join(', ')})`));
+  summary.deletes.forEach(removal => console.log(`- ${removal.type} / ${removal.name} [${removal.id}]`));
+  summary.errors.forEach(error => console.error(`! ${error.file}: ${error.error}`));
+  summary.duplicates.forEach(duplicate => console.warn(
+    `? ${duplicate.file} looks like ${duplicate.duplicates.map(match => match.id ?? match.file).join(', ')}`
+  ));
+  console.log(`${summary.adds.length} to add, ${summary.updates.length} to update, ${summary.deletes.length} to delete, ${summary.unchanged} unchanged`);
+
+  if (!apply) {
+    console.log('Dry run only, pass --apply to make these changes');
+    return;
+  }
+
+  if (summary.errors.length > 0) {
+    throw new Error('Fix the files listed above before applying');
+  }
+
+  if (summary.duplicates.length > 0 && !force) {
+    throw new Error('Some files look like duplicates of other locations, pass --force to import them anyway');
+  }
+
+  const result = await applyImport(prisma, plan, SCRIPT_USER);
+  console.log(`Applied: ${result.added} added, ${result.updated} updated, ${result.deleted} deleted`);
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  const apply = args.includes('--apply');
+  const force = args.includes('--force');
+  const dirArg = args.find(arg => !arg.startsWith('--'));
+  const baseDir = dirArg ? path.resolve(dirArg) : DEFAULT_DIR;
+
+  try {
+    if (command === 'export') {
+      await exportToDirectory(baseDir);
+    } else if (command === 'import') {
+      await importFromDirectory(baseDir, apply, force);
+    } else {
+      console.log('Usage: sync-locations-yaml.ts <export|import> [dir] [--apply] [--force]');
+      process.exitCode = 1;
+    }
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main().catch(error => {
+  console.error('YAML sync failed:', error);
+  process.exit(1);
+});